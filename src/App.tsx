@@ -16,7 +16,11 @@ import '@mantine/notifications/styles.css';
 const HomePage = React.lazy(() => import('./pages/HomePage').then(module => ({ default: module.HomePage })));
 const SongEditor = React.lazy(() => import('./pages/SongEditor').then(module => ({ default: module.SongEditor })));
 const SongList = React.lazy(() => import('./pages/SongList').then(module => ({ default: module.SongList })));
+const SetlistList = React.lazy(() => import('./pages/SetlistList').then(module => ({ default: module.SetlistList })));
+const SetlistEditor = React.lazy(() => import('./pages/SetlistEditor').then(module => ({ default: module.SetlistEditor })));
 const Settings = React.lazy(() => import('./pages/Settings').then(module => ({ default: module.Settings })));
+const Trash = React.lazy(() => import('./pages/Trash').then(module => ({ default: module.Trash })));
+const Duplicates = React.lazy(() => import('./pages/Duplicates').then(module => ({ default: module.Duplicates })));
 
 // Loading component
 const PageLoader = () => (
@@ -72,6 +76,10 @@ export default function App() {
                     <Route path="/songs" element={<SongList />} />
                     <Route path="/songs/new" element={<SongEditor />} />
                     <Route path="/songs/:id" element={<SongEditor />} />
+                    <Route path="/setlists" element={<SetlistList />} />
+                    <Route path="/setlists/:id" element={<SetlistEditor />} />
+                    <Route path="/trash" element={<Trash />} />
+                    <Route path="/duplicates" element={<Duplicates />} />
                     <Route path="/settings" element={<Settings />} />
                   </Routes>
                 </Suspense>
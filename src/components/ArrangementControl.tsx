@@ -0,0 +1,154 @@
+import { Paper, Group, Stack, Select, TextInput, NumberInput, ActionIcon, Button, Text, Tooltip } from '@mantine/core';
+import { IconPlus, IconTrash, IconArrowUp, IconArrowDown, IconX } from '@tabler/icons-react';
+import type { Arrangement, ArrangementItem, Section } from '../types/song';
+import { createArrangement } from '../utils/arrangements';
+
+interface ArrangementControlProps {
+  sections: Section[];
+  arrangements: Arrangement[];
+  activeArrangementId?: string;
+  onChange: (arrangements: Arrangement[], activeArrangementId?: string) => void;
+  isViewMode?: boolean;
+}
+
+// Human readable name for a section, e.g. "Chorus 1"
+const getSectionLabel = (section: Section) => {
+  const type = section.type.charAt(0).toUpperCase() + section.type.slice(1);
+  return section.number ? `${type} ${section.number}` : type;
+};
+
+export function ArrangementControl({ sections, arrangements, activeArrangementId, onChange, isViewMode }: ArrangementControlProps) {
+  const activeArrangement = arrangements.find(arrangement => arrangement.id === activeArrangementId);
+  const sectionsById = new Map(sections.filter(section => section.id).map(section => [section.id!, section]));
+
+  const sectionOptions = sections
+    .filter(section => section.id)
+    .map(section => ({ value: section.id!, label: getSectionLabel(section) }));
+
+  // Replace the items of the active arrangement
+  const updateItems = (items: ArrangementItem[]) => {
+    if (!activeArrangement) return;
+    onChange(
+      arrangements.map(arrangement => arrangement.id === activeArrangement.id ? { ...arrangement, items } : arrangement),
+      activeArrangement.id
+    );
+  };
+
+  const handleCreate = () => {
+    const arrangement = createArrangement(`Arrangement ${arrangements.length + 1}`, sections);
+    onChange([...arrangements, arrangement], arrangement.id);
+  };
+
+  const handleDelete = () => {
+    if (!activeArrangement) return;
+    onChange(arrangements.filter(arrangement => arrangement.id !== activeArrangement.id), undefined);
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    if (!activeArrangement) return;
+    const items = [...activeArrangement.items];
+    [items[index], items[index + offset]] = [items[index + offset], items[index]];
+    updateItems(items);
+  };
+
+  // Nothing to choose from in view mode
+  if (isViewMode && arrangements.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper withBorder p="sm">
+      <Stack gap="sm">
+        <Group gap="xs" align="flex-end" wrap="wrap">
+          <Select
+            label="Arrangement"
+            placeholder="Song order"
+            data={arrangements.map(arrangement => ({ value: arrangement.id, label: arrangement.name }))}
+            value={activeArrangement?.id || null}
+            onChange={(value) => onChange(arrangements, value || undefined)}
+            clearable
+            style={{ flex: 1, minWidth: 160 }}
+          />
+          {!isViewMode && activeArrangement && (
+            <TextInput
+              label="Name"
+              value={activeArrangement.name}
+              onChange={(e) => {
+                const name = e.currentTarget.value;
+                onChange(
+                  arrangements.map(arrangement => arrangement.id === activeArrangement.id ? { ...arrangement, name } : arrangement),
+                  activeArrangement.id
+                );
+              }}
+              style={{ flex: 1, minWidth: 160 }}
+            />
+          )}
+          {!isViewMode && (
+            <Button variant="light" leftSection={<IconPlus size={16} />} onClick={handleCreate}>
+              New
+            </Button>
+          )}
+          {!isViewMode && activeArrangement && (
+            <Tooltip label="Delete Arrangement" withArrow>
+              <ActionIcon size="lg" variant="light" color="red" onClick={handleDelete}>
+                <IconTrash size={18} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+        </Group>
+
+        {!isViewMode && activeArrangement && (
+          <Stack gap={4}>
+            {activeArrangement.items.map((item, index) => {
+              const section = sectionsById.get(item.sectionId);
+              if (!section) return null;
+              return (
+                <Group key={`${item.sectionId}-${index}`} gap="xs" wrap="nowrap">
+                  <Text size="sm" w={24}>{index + 1}.</Text>
+                  <Text size="sm" fw={500} style={{ flex: 1 }}>{getSectionLabel(section)}</Text>
+                  <NumberInput
+                    value={item.repeat || 1}
+                    onChange={(value) => updateItems(activeArrangement.items.map((other, i) =>
+                      i === index ? { ...other, repeat: typeof value === 'number' && value > 0 ? value : 1 } : other
+                    ))}
+                    min={1}
+                    max={20}
+                    w={70}
+                    size="xs"
+                    prefix="×"
+                    aria-label="Repeat"
+                  />
+                  <ActionIcon size="sm" variant="subtle" disabled={index === 0} onClick={() => moveItem(index, -1)} title="Move up">
+                    <IconArrowUp size={14} />
+                  </ActionIcon>
+                  <ActionIcon size="sm" variant="subtle" disabled={index === activeArrangement.items.length - 1} onClick={() => moveItem(index, 1)} title="Move down">
+                    <IconArrowDown size={14} />
+                  </ActionIcon>
+                  <ActionIcon
+                    size="sm"
+                    variant="subtle"
+                    color="red"
+                    onClick={() => updateItems(activeArrangement.items.filter((_, i) => i !== index))}
+                    title="Remove from arrangement"
+                  >
+                    <IconX size={14} />
+                  </ActionIcon>
+                </Group>
+              );
+            })}
+            <Select
+              placeholder="Add a section..."
+              data={sectionOptions}
+              value={null}
+              onChange={(sectionId) => {
+                if (sectionId) updateItems([...activeArrangement.items, { sectionId, repeat: 1 }]);
+              }}
+              size="xs"
+              mt={4}
+            />
+          </Stack>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
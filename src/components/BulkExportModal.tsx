@@ -1,9 +1,9 @@
 import { useState } from 'react';
-import { Modal, Stack, Group, Button, Select, Radio, Text } from '@mantine/core';
+import { Modal, Stack, Group, Button, Select, Radio, Text, TextInput } from '@mantine/core';
 import JSZip from 'jszip';
 import { notifications } from '@mantine/notifications';
-import { exportToShowFile } from '../utils/exporters';
-import { exportToPDF } from '../utils/exportToPDF';
+import { getCollectionFormats, getExportFormats, getFormat, getFormatLabel, getFormats } from '../utils/formatRegistry';
+import type { SongFormat } from '../utils/formatRegistry';
 import type { Song } from '../types/song';
 
 interface BulkExportModalProps {
@@ -12,108 +12,76 @@ interface BulkExportModalProps {
   songs: Song[];
 }
 
+// Formats that write each song to its own file, and ones that write them all into one
+const EXPORT_FORMATS = getFormats().filter(format =>
+  getExportFormats('file').includes(format) || getCollectionFormats().includes(format)
+);
+
+const getFormatDescription = (format: SongFormat) =>
+  format.serializeAll ? `a single ${format.name}` : `${format.name} ${format.extensions[0]} files`;
+
+const toSafeName = (name: string) => name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+// Create a download link and trigger it
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 export function BulkExportModal({ opened, onClose, songs }: BulkExportModalProps) {
-  const [fileFormat, setFileFormat] = useState<'freeshow-show' | 'pdf'>('freeshow-show');
+  const [fileFormatId, setFileFormatId] = useState(EXPORT_FORMATS[0].id);
   const [exportType, setExportType] = useState<'zip' | 'multiple'>('zip');
   const [isExporting, setIsExporting] = useState(false);
+  const [projectName, setProjectName] = useState(`Service ${new Date().toLocaleDateString()}`);
+  const fileFormat = getFormat(fileFormatId) || EXPORT_FORMATS[0];
+  const extension = fileFormat.extensions[0];
 
   const handleExport = async () => {
     setIsExporting(true);
     try {
-      if (fileFormat === 'freeshow-show') {
-        if (exportType === 'zip') {
-          const zip = new JSZip();
-          songs.forEach(song => {
-            const fileContent = exportToShowFile(song, song.sections);
-            const safeTitle = (song.title || 'untitled').replace(/[^a-z0-9]/gi, '_').toLowerCase();
-            zip.file(`${safeTitle}.show`, fileContent);
-          });
-          const blob = await zip.generateAsync({ type: 'blob' });
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = 'songs_export.zip';
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-          notifications.show({ title: 'Success', message: 'Exported as ZIP', color: 'green' });
-        } else {
-          // Multiple files: trigger download for each
-          songs.forEach(song => {
-            const fileContent = exportToShowFile(song, song.sections);
-            const safeTitle = (song.title || 'untitled').replace(/[^a-z0-9]/gi, '_').toLowerCase();
-            const blob = new Blob([fileContent], { type: 'application/json' });
-            const url = URL.createObjectURL(blob);
-            const link = document.createElement('a');
-            link.href = url;
-            link.download = `${safeTitle}.show`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(url);
-          });
-          notifications.show({ title: 'Success', message: 'Exported as multiple files', color: 'green' });
-        }
-      } else if (fileFormat === 'pdf') {
+      if (fileFormat.serializeAll) {
+        // One file holding every song, in the order they were selected
+        const fileContent = fileFormat.serializeAll(songs, projectName);
+        const safeName = toSafeName(projectName || 'project');
+        downloadBlob(new Blob([fileContent], { type: fileFormat.mimeType }), `${safeName}${extension}`);
+        notifications.show({ title: 'Success', message: `Exported as ${safeName}${extension}`, color: 'green' });
+      } else {
         const skipped: string[] = [];
-        if (exportType === 'zip') {
-          const zip = new JSZip();
-          for (const song of songs) {
-            try {
-              const pdfBlob = await exportToPDF(song);
-              const safeTitle = (song.title || 'untitled').replace(/[^a-z0-9]/gi, '_').toLowerCase();
-              zip.file(`${safeTitle}.pdf`, pdfBlob);
-            } catch (e: any) {
-              if (e && e.message && e.message.includes('WinAnsi')) {
-                skipped.push(song.title || 'Untitled Song');
-              } else {
-                throw e;
-              }
+        const zip = exportType === 'zip' ? new JSZip() : null;
+        for (const song of songs) {
+          try {
+            const output = await fileFormat.serialize!(song, {});
+            const blob = typeof output === 'string' ? new Blob([output], { type: fileFormat.mimeType }) : output;
+            const fileName = `${toSafeName(song.title || 'untitled')}${extension}`;
+            if (zip) {
+              zip.file(fileName, blob);
+            } else {
+              // Multiple files: trigger download for each
+              downloadBlob(blob, fileName);
             }
-          }
-          const blob = await zip.generateAsync({ type: 'blob' });
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = 'songs_export.zip';
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-          let msg = 'Exported as ZIP';
-          if (skipped.length) {
-            msg += `. Skipped: ${skipped.join(', ')} (contains characters not supported by the current PDF font)`;
-          }
-          notifications.show({ title: 'Success', message: msg, color: skipped.length ? 'yellow' : 'green', autoClose: 8000 });
-        } else {
-          // Multiple files: trigger download for each
-          for (const song of songs) {
-            try {
-              const pdfBlob = await exportToPDF(song);
-              const safeTitle = (song.title || 'untitled').replace(/[^a-z0-9]/gi, '_').toLowerCase();
-              const url = URL.createObjectURL(pdfBlob);
-              const link = document.createElement('a');
-              link.href = url;
-              link.download = `${safeTitle}.pdf`;
-              document.body.appendChild(link);
-              link.click();
-              document.body.removeChild(link);
-              URL.revokeObjectURL(url);
-            } catch (e: any) {
-              if (e && e.message && e.message.includes('WinAnsi')) {
-                skipped.push(song.title || 'Untitled Song');
-              } else {
-                throw e;
-              }
+          } catch (e) {
+            // The PDF font can't write every character
+            if (e instanceof Error && e.message.includes('WinAnsi')) {
+              skipped.push(song.title || 'Untitled Song');
+            } else {
+              throw e;
             }
           }
-          let msg = 'Exported as multiple files';
-          if (skipped.length) {
-            msg += `. Skipped: ${skipped.join(', ')} (contains characters not supported by the current PDF font)`;
-          }
-          notifications.show({ title: 'Success', message: msg, color: skipped.length ? 'yellow' : 'green', autoClose: 8000 });
         }
+        if (zip) {
+          downloadBlob(await zip.generateAsync({ type: 'blob' }), 'songs_export.zip');
+        }
+        let msg = zip ? 'Exported as ZIP' : 'Exported as multiple files';
+        if (skipped.length) {
+          msg += `. Skipped: ${skipped.join(', ')} (contains characters not supported by the current PDF font)`;
+        }
+        notifications.show({ title: 'Success', message: msg, color: skipped.length ? 'yellow' : 'green', autoClose: 8000 });
       }
       onClose();
     } catch (error) {
@@ -129,27 +97,34 @@ export function BulkExportModal({ opened, onClose, songs }: BulkExportModalProps
       <Stack>
         <Select
           label="File format"
-          data={[
-            { value: 'freeshow-show', label: 'FreeShow (.show)' },
-            { value: 'pdf', label: 'PDF Chord Chart (.pdf)' },
-          ]}
-          value={fileFormat}
-          onChange={v => setFileFormat(v as 'freeshow-show' | 'pdf')}
+          data={EXPORT_FORMATS.map(format => ({ value: format.id, label: getFormatLabel(format) }))}
+          value={fileFormat.id}
+          onChange={v => setFileFormatId(v || EXPORT_FORMATS[0].id)}
           radius="sm"
           variant="filled"
         />
-        <Radio.Group
-          label="Export as"
-          value={exportType}
-          onChange={v => setExportType(v as 'zip' | 'multiple')}
-        >
-          <Group>
-            <Radio value="zip" label="Download as ZIP" />
-            <Radio value="multiple" label="Download as multiple files" />
-          </Group>
-        </Radio.Group>
+        {fileFormat.serializeAll ? (
+          <TextInput
+            label="Project name"
+            value={projectName}
+            onChange={e => setProjectName(e.currentTarget.value)}
+            radius="sm"
+            variant="filled"
+          />
+        ) : (
+          <Radio.Group
+            label="Export as"
+            value={exportType}
+            onChange={v => setExportType(v as 'zip' | 'multiple')}
+          >
+            <Group>
+              <Radio value="zip" label="Download as ZIP" />
+              <Radio value="multiple" label="Download as multiple files" />
+            </Group>
+          </Radio.Group>
+        )}
         <Text size="sm" color="dimmed">
-          This will export {songs.length} song{songs.length !== 1 ? 's' : ''} as {fileFormat === 'pdf' ? 'PDF chord charts' : 'FreeShow .show files'}.
+          This will export {songs.length} song{songs.length !== 1 ? 's' : ''} as {getFormatDescription(fileFormat)}.
         </Text>
         <Group justify="flex-end">
           <Button variant="default" onClick={onClose} disabled={isExporting}>Cancel</Button>
@@ -0,0 +1,45 @@
+import { Group, Select, SegmentedControl } from '@mantine/core';
+import type { ChordDisplayMode } from '../types/song';
+
+interface CapoControlProps {
+  capo: number;
+  onCapoChange: (capo: number) => void;
+  chordDisplay: ChordDisplayMode;
+  onChordDisplayChange: (mode: ChordDisplayMode) => void;
+  isViewMode?: boolean;
+}
+
+const CAPO_OPTIONS = [
+  { value: '0', label: 'No capo' },
+  ...Array.from({ length: 11 }, (_, i) => ({ value: String(i + 1), label: `Capo ${i + 1}` }))
+];
+
+export function CapoControl({ capo, onCapoChange, chordDisplay, onChordDisplayChange, isViewMode }: CapoControlProps) {
+  return (
+    <Group gap="xs" align="flex-end" wrap="nowrap">
+      <Select
+        label="Capo"
+        data={CAPO_OPTIONS}
+        value={String(capo || 0)}
+        onChange={(value) => onCapoChange(parseInt(value || '0', 10))}
+        allowDeselect={false}
+        readOnly={isViewMode}
+        size="md"
+        w={130}
+      />
+      {/* Chord display only matters once there is a capo; it can be changed in view mode too */}
+      {capo > 0 && (
+        <SegmentedControl
+          data={[
+            { label: 'Concert', value: 'concert' },
+            { label: 'Shapes', value: 'shape' },
+            { label: 'Both', value: 'both' }
+          ]}
+          value={chordDisplay}
+          onChange={(value) => onChordDisplayChange(value as ChordDisplayMode)}
+          size="sm"
+        />
+      )}
+    </Group>
+  );
+}
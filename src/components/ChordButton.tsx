@@ -1,15 +1,26 @@
 import { Button, ButtonProps } from '@mantine/core';
 import React from 'react';
 import './ChordButton.css';
+import type { ChordDisplayMode, ChordNotation } from '../types/song';
+import { formatChordForDisplay, transposeChord } from '../utils/transpose';
+import type { Transposition } from '../utils/transpose';
+import { chordToNotation } from '../utils/numberSystem';
 
 interface ChordButtonProps extends Omit<ButtonProps, 'children'> {
   chord: string;
   onClick?: (chord: string) => void;
+  capo?: number;
+  display?: ChordDisplayMode; // Show the concert chord, the capo shape or both
+  notation?: ChordNotation; // Show the chord as a number relative to songKey
+  songKey?: string;
+  transposition?: Transposition; // Show the chord transposed, e.g. to the song's transposed key
 }
 
-export function ChordButton({ chord, style, onClick, readOnly = false, ...props }: ChordButtonProps & { readOnly?: boolean }) {
+export function ChordButton({ chord, style, onClick, capo = 0, display = 'concert', notation = 'chords', songKey, transposition, readOnly = false, ...props }: ChordButtonProps & { readOnly?: boolean }) {
   // Store the original chord text for transposition
   const originalChord = chord;
+  // The chord as played without a capo, in the key the song is shown in
+  const concertChord = transposition ? transposeChord(chord, transposition.semitones, transposition.targetKey) : chord;
   
   // Handle drag start event
   const handleDragStart = (e: React.DragEvent<HTMLButtonElement>) => {
@@ -63,7 +74,9 @@ export function ChordButton({ chord, style, onClick, readOnly = false, ...props
       onDragEnd={readOnly ? undefined : handleDragEnd}
       {...props}
     >
-      {chord}
+      {notation !== 'chords' && songKey
+        ? chordToNotation(chord, songKey, notation)
+        : formatChordForDisplay(concertChord, capo, display)}
     </Button>
   );
 }
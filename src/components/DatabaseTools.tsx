@@ -1,7 +1,14 @@
 import { useState } from 'react';
 import { Button, Group, Modal, TextInput, Stack, Text, Radio, FileButton } from '@mantine/core';
-import { IconDownload, IconUpload, IconBrandGithub } from '@tabler/icons-react';
+import { Link } from 'react-router-dom';
+import { IconDownload, IconUpload, IconBrandGithub, IconCopy, IconArchive, IconStethoscope } from '@tabler/icons-react';
 import { exportDatabase, importDatabaseFromFile, importDatabaseFromUrl } from '../utils/dbExportImport';
+import { useStorage } from '../context/StorageContext';
+import { useSettings } from '../context/SettingsContext';
+import { RestoreBackupModal } from './RestoreBackupModal';
+import { ImportReportModal } from './ImportReportModal';
+import { IntegrityCheckModal } from './IntegrityCheckModal';
+import type { ImportReport } from '../utils/importValidation';
 
 interface DatabaseToolsProps {
   onComplete?: () => void; // Optional callback for when import/export completes
@@ -10,7 +17,13 @@ interface DatabaseToolsProps {
 }
 
 export function DatabaseTools({ onComplete, opened, onClose }: DatabaseToolsProps) {
+  const { storage, refreshSongs, syncNow } = useStorage();
+  const { settings } = useSettings();
   const [importModalOpen, setImportModalOpen] = useState(false);
+  const [restoreModalOpen, setRestoreModalOpen] = useState(false);
+  const [integrityModalOpen, setIntegrityModalOpen] = useState(false);
+  // Shown after an import that repaired or left out songs
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
   const [githubUrlModalOpen, setGithubUrlModalOpen] = useState(false);
   const [githubUrl, setGithubUrl] = useState('');
   const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
@@ -19,20 +32,29 @@ export function DatabaseTools({ onComplete, opened, onClose }: DatabaseToolsProp
   const handleExport = async () => {
     setIsLoading(true);
     try {
-      await exportDatabase();
+      await exportDatabase(storage, settings);
       if (onComplete) onComplete();
     } finally {
       setIsLoading(false);
     }
   };
 
+  const showReportIfNeeded = (report: ImportReport | null) => {
+    if (report && (report.repaired.length > 0 || report.rejected.length > 0)) {
+      setImportReport(report);
+    }
+  };
+
   const handleFileImport = async (file: File | null) => {
     if (!file) return;
     
     setIsLoading(true);
     try {
-      await importDatabaseFromFile(file, importMode);
+      const report = await importDatabaseFromFile(storage, file, importMode);
+      await refreshSongs();
+      syncNow();
       setImportModalOpen(false);
+      showReportIfNeeded(report);
       if (onComplete) onComplete();
     } finally {
       setIsLoading(false);
@@ -44,9 +66,12 @@ export function DatabaseTools({ onComplete, opened, onClose }: DatabaseToolsProp
     
     setIsLoading(true);
     try {
-      await importDatabaseFromUrl(githubUrl, importMode);
+      const report = await importDatabaseFromUrl(storage, githubUrl, importMode);
+      await refreshSongs();
+      syncNow();
       setGithubUrlModalOpen(false);
       setGithubUrl('');
+      showReportIfNeeded(report);
       if (onComplete) onComplete();
     } finally {
       setIsLoading(false);
@@ -63,9 +88,9 @@ export function DatabaseTools({ onComplete, opened, onClose }: DatabaseToolsProp
     >
       <Stack gap="md">
         <Text c="dimmed" size="sm">
-          Export your entire song collection or import songs from a file or GitHub URL.
+          Back up your whole library, with setlists, settings and tag colors, or restore a backup.
         </Text>
-        
+
         <Group grow>
           <Button
             leftSection={<IconDownload size={16} />}
@@ -73,9 +98,23 @@ export function DatabaseTools({ onComplete, opened, onClose }: DatabaseToolsProp
             loading={isLoading}
             variant="light"
           >
-            Export Database
+            Back Up Library
           </Button>
-          
+
+          <Button
+            leftSection={<IconArchive size={16} />}
+            onClick={() => setRestoreModalOpen(true)}
+            variant="light"
+          >
+            Restore Backup
+          </Button>
+        </Group>
+
+        <Text c="dimmed" size="sm">
+          Import songs from a file or GitHub URL.
+        </Text>
+        
+        <Group grow>
           <FileButton onChange={handleFileImport} accept=".json">
             {(props) => (
               <Button
@@ -99,8 +138,53 @@ export function DatabaseTools({ onComplete, opened, onClose }: DatabaseToolsProp
             Import from GitHub
           </Button>
         </Group>
+
+        <Text c="dimmed" size="sm">
+          Find songs that were imported more than once and merge the copies, or check every song for
+          chords that no longer fit their lyrics.
+        </Text>
+        <Group grow>
+          <Button
+            component={Link}
+            to="/duplicates"
+            leftSection={<IconCopy size={16} />}
+            variant="light"
+            onClick={onClose}
+          >
+            Find Duplicates
+          </Button>
+
+          <Button
+            leftSection={<IconStethoscope size={16} />}
+            onClick={() => setIntegrityModalOpen(true)}
+            variant="light"
+          >
+            Check Library
+          </Button>
+        </Group>
       </Stack>
 
+      <RestoreBackupModal
+        opened={restoreModalOpen}
+        onClose={() => setRestoreModalOpen(false)}
+        onComplete={onComplete}
+      />
+
+      {integrityModalOpen && (
+        <IntegrityCheckModal
+          opened
+          onClose={() => setIntegrityModalOpen(false)}
+        />
+      )}
+
+      {importReport && (
+        <ImportReportModal
+          opened
+          onClose={() => setImportReport(null)}
+          report={importReport}
+        />
+      )}
+
       {/* Import Options Modal */}
       <Modal 
         opened={importModalOpen} 
@@ -1,21 +1,30 @@
 import * as React from 'react';
-import { Modal, Stack, Text, Textarea, Button, Group, SegmentedControl, Select } from '@mantine/core';
+import { Modal, Stack, Text, Textarea, Button, Group, SegmentedControl, Select, Checkbox } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
-import { Section } from '../types/song';
-import { exportToFreeshowText, exportToUltimateGuitarText, exportToShowFile } from '../utils/exporters';
-import { exportToPDF } from '../utils/exportToPDF';
+import { ChordNotation, Section, Song } from '../types/song';
+import { getExportKey } from '../utils/exporters';
+import { detectKey, getTransposition, transposeSections } from '../utils/transpose';
+import { getExportFormats, getFormat, getFormatLabel } from '../utils/formatRegistry';
 
 interface ExportModalProps {
   opened: boolean;
   onClose: () => void;
   sections: Section[];
+  song?: Song; // Current song, used for metadata such as key and tempo
 }
 
-export function ExportModal({ opened, onClose, sections }: ExportModalProps) {
+const TEXT_FORMATS = getExportFormats('text');
+const FILE_FORMATS = getExportFormats('file');
+
+export function ExportModal({ opened, onClose, sections, song }: ExportModalProps) {
   const [exportType, setExportType] = React.useState<'text' | 'file'>('text');
-  const [textFormat, setTextFormat] = React.useState<'freeshow' | 'ultimate-guitar'>('freeshow');
-  const [fileFormat, setFileFormat] = React.useState<'freeshow-show' | 'pdf'>('freeshow-show');
+  const [textFormatId, setTextFormatId] = React.useState(TEXT_FORMATS[0].id);
+  const [fileFormatId, setFileFormatId] = React.useState(FILE_FORMATS[0].id);
   const [exportedText, setExportedText] = React.useState('');
+  const [capoShapes, setCapoShapes] = React.useState(false);
+  const [notation, setNotation] = React.useState<ChordNotation>('chords');
+  const textFormat = getFormat(textFormatId) || TEXT_FORMATS[0];
+  const fileFormat = getFormat(fileFormatId) || FILE_FORMATS[0];
 
   React.useEffect(() => {
     if (opened) {
@@ -28,27 +37,22 @@ export function ExportModal({ opened, onClose, sections }: ExportModalProps) {
         prepareFileExport();
       }
     }
-  }, [opened, textFormat, fileFormat, exportType]); // Re-export when format or export type changes
+  }, [opened, textFormatId, fileFormatId, exportType, notation]); // Re-export when format, export type or notation changes
+
+  // Get the key the exported chords are in, for numbering them
+  const getNotationKey = (exportSections: Section[]) => {
+    return (song && getExportKey(song)) || detectKey(exportSections.flatMap(section => section.chords.map(chord => chord.text)));
+  };
 
-  // Get updated sections with transposed chords from the DOM
+  // Get the sections with their chords transposed the way the editor shows
+  // them. These are concert chords, not the capo shapes that might be on screen.
   const getUpdatedSections = () => {
-    return [...sections].map(section => {
-      // Create a deep copy to avoid modifying the original
-      const sectionCopy = { ...section, chords: [...section.chords] };
-      
-      // Update chord text with current transposed values from DOM
-      sectionCopy.chords = sectionCopy.chords.map(chord => {
-        // Find the corresponding DOM element
-        const chordElement = document.querySelector(`[data-original="${chord.text}"]`);
-        if (chordElement && chordElement.textContent) {
-          // Use the current displayed chord text (which may be transposed)
-          return { ...chord, text: chordElement.textContent };
-        }
-        return chord;
-      });
-      
-      return sectionCopy;
-    });
+    const originalKey = song?.originalKey || detectKey(sections.flatMap(section => section.chords.map(chord => chord.text))) || 'C';
+    const transposition = getTransposition(song?.transposedKey, originalKey);
+    if (!transposition) {
+      return sections.map(section => ({ ...section, chords: [...section.chords] }));
+    }
+    return transposeSections(sections, transposition.semitones, transposition.targetKey);
   };
 
   // Get song metadata from the DOM
@@ -65,47 +69,48 @@ export function ExportModal({ opened, onClose, sections }: ExportModalProps) {
 
   // Prepare file export without downloading
   const prepareFileExport = () => {
-    try {
-      // Just update the preview text without triggering download
-      if (fileFormat === 'freeshow-show') {
-        setExportedText('FreeShow .show file format - click Save File to download');
-      } else if (fileFormat === 'pdf') {
-        setExportedText('PDF chord chart - click Save File to download');
-      }
-    } catch (error) {
-      console.error('Failed to prepare file export:', error);
-      setExportedText('Error preparing file export');
-    }
+    // Just update the preview text without triggering download
+    setExportedText(`${getFormatLabel(fileFormat)} - click Save File to download`);
+  };
+
+  // The song as it is shown, with the transposed chords and edited metadata
+  const getExportSong = (): Song => {
+    const updatedSections = getUpdatedSections();
+    const { title, artist } = getSongMetadata();
+    return {
+      id: 'temp-id',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      tags: [],
+      ...song,
+      title,
+      artist,
+      sections: updatedSections
+    };
   };
 
   // Handle text export
-  const handleTextExport = () => {
+  const handleTextExport = async () => {
     try {
-      const updatedSections = getUpdatedSections();
-      const { title, artist } = getSongMetadata();
-      
-      let text = '';
-      
-      if (textFormat === 'freeshow') {
-        text = exportToFreeshowText(updatedSections);
-      } else if (textFormat === 'ultimate-guitar') {
-        text = exportToUltimateGuitarText(updatedSections, title, artist);
+      const songData = getExportSong();
+      const text = await textFormat.serialize!(songData, { notation, key: getNotationKey(songData.sections) });
+      if (typeof text !== 'string') {
+        throw new Error(`${textFormat.name} can't be copied as text`);
       }
-      
+
       setExportedText(text);
       
       // Copy to clipboard automatically for text formats
-      navigator.clipboard.writeText(text).then(() => {
-        // Only show notification when first opened, not on every change
-        if (opened) {
-          notifications.show({
-            title: 'Success',
-            message: 'Copied to clipboard',
-            color: 'green',
-            autoClose: 2000 // Close after 2 seconds
-          });
-        }
-      });
+      await navigator.clipboard.writeText(text);
+      // Only show notification when first opened, not on every change
+      if (opened) {
+        notifications.show({
+          title: 'Success',
+          message: 'Copied to clipboard',
+          color: 'green',
+          autoClose: 2000 // Close after 2 seconds
+        });
+      }
     } catch (error) {
       console.error('Failed to export text:', error);
       notifications.show({
@@ -117,72 +122,34 @@ export function ExportModal({ opened, onClose, sections }: ExportModalProps) {
   };
 
   // Handle file export with download
-  const handleFileExport = () => {
+  const handleFileExport = async () => {
     try {
-      const updatedSections = getUpdatedSections();
-      const { title, artist, fileName } = getSongMetadata();
-      
-      const songData = {
-        id: 'temp-id',
-        title,
-        artist,
-        sections: updatedSections,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        tags: []
-      };
-      
-      let text = '';
-      let fileData: Blob | null = null;
-      let fileExtension = '';
-      
-      if (fileFormat === 'freeshow-show') {
-        text = exportToShowFile(songData, updatedSections);
-        fileExtension = '.show';
-        fileData = new Blob([text], { type: 'application/json' });
-      } else if (fileFormat === 'pdf') {
-        fileExtension = '.pdf';
-      }
-      
-      if (fileFormat === 'pdf') {
-        // Generate PDF and trigger download
-        exportToPDF(songData).then((pdfBlob) => {
-          const url = URL.createObjectURL(pdfBlob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = `${fileName}${fileExtension}`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-          notifications.show({
-            title: 'Success',
-            message: `Saved as ${fileName}${fileExtension}`,
-            color: 'green',
-            autoClose: 2000
-          });
-        });
-        return;
-      }
+      const songData = getExportSong();
+      const { fileName } = getSongMetadata();
+      const output = await fileFormat.serialize!(songData, {
+        capoShapes,
+        notation,
+        key: getNotationKey(songData.sections)
+      });
+      const fileData = typeof output === 'string' ? new Blob([output], { type: fileFormat.mimeType }) : output;
+      const fullName = `${fileName}${fileFormat.extensions[0]}`;
+
+      // Create download link and trigger it
+      const url = URL.createObjectURL(fileData);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fullName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
       
-      if (fileData) {
-        // Create download link and trigger it
-        const url = URL.createObjectURL(fileData);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `${fileName}${fileExtension}`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        
-        notifications.show({
-          title: 'Success',
-          message: `Saved as ${fileName}${fileExtension}`,
-          color: 'green',
-          autoClose: 2000
-        });
-      }
+      notifications.show({
+        title: 'Success',
+        message: `Saved as ${fullName}`,
+        color: 'green',
+        autoClose: 2000
+      });
     } catch (error) {
       console.error('Failed to export file:', error);
       notifications.show({
@@ -202,6 +169,23 @@ export function ExportModal({ opened, onClose, sections }: ExportModalProps) {
     }
   };
 
+  // Chord notation choice for the formats that support numbers
+  const notationSelect = (
+    <Select
+      label="Chord notation"
+      value={notation}
+      onChange={(value: string | null) => setNotation((value as ChordNotation) || 'chords')}
+      data={[
+        { value: 'chords', label: 'Chords (C, G, Am)' },
+        { value: 'nashville', label: 'Nashville numbers (1, 5, 6m)' },
+        { value: 'roman', label: 'Roman numerals (I, V, vi)' },
+      ]}
+      variant="filled"
+      radius="sm"
+      mb="xs"
+    />
+  );
+
   return (
     <Modal
       opened={opened}
@@ -230,18 +214,16 @@ export function ExportModal({ opened, onClose, sections }: ExportModalProps) {
           <>
             <Select
               label="Text format"
-              value={textFormat}
-              onChange={(value: string | null) => setTextFormat((value as 'freeshow' | 'ultimate-guitar') || 'freeshow')}
-              data={[
-                { value: 'freeshow', label: 'FreeShow Format' },
-                { value: 'ultimate-guitar', label: 'Ultimate Guitar Format' },
-              ]}
+              value={textFormat.id}
+              onChange={(value: string | null) => setTextFormatId(value || TEXT_FORMATS[0].id)}
+              data={TEXT_FORMATS.map(format => ({ value: format.id, label: `${format.name} Format` }))}
               variant="filled"
               radius="sm"
               mb="xs"
             />
+            {textFormat.supportsNotation && notationSelect}
             <Text size="sm" c="dimmed">
-              The {textFormat === 'freeshow' ? 'FreeShow' : 'Ultimate Guitar'} formatted text will be automatically copied to your clipboard.
+              The {textFormat.name} formatted text will be automatically copied to your clipboard.
             </Text>
             <Textarea
               value={exportedText}
@@ -254,16 +236,21 @@ export function ExportModal({ opened, onClose, sections }: ExportModalProps) {
           <>
             <Select
               label="File format"
-              value={fileFormat}
-              onChange={(value: string | null) => setFileFormat((value as 'freeshow-show' | 'pdf') || 'freeshow-show')}
-              data={[
-                { value: 'freeshow-show', label: 'FreeShow (.show)' },
-                { value: 'pdf', label: 'PDF Chord Chart (.pdf)' },
-              ]}
+              value={fileFormat.id}
+              onChange={(value: string | null) => setFileFormatId(value || FILE_FORMATS[0].id)}
+              data={FILE_FORMATS.map(format => ({ value: format.id, label: getFormatLabel(format) }))}
               variant="filled"
               radius="sm"
               mb="xs"
             />
+            {fileFormat.supportsNotation && notationSelect}
+            {fileFormat.supportsCapoShapes && !!song?.capo && notation === 'chords' && (
+              <Checkbox
+                label={`Print capo ${song.capo} chord shapes instead of concert chords`}
+                checked={capoShapes}
+                onChange={(e) => setCapoShapes(e.currentTarget.checked)}
+              />
+            )}
             <Text size="sm" c="dimmed">
               Select a file format and click Save File to download.
             </Text>
@@ -0,0 +1,35 @@
+import { Mark, Text } from '@mantine/core';
+import type { ReactNode } from 'react';
+import type { SearchField, SearchSnippet } from '../utils/searchIndex';
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  firstLine: 'First line',
+  chorusFirstLine: 'Chorus',
+  lyrics: 'Lyrics'
+};
+
+/**
+ * The line of a song that matched a search, with the matched words marked.
+ * Renders nothing for songs that matched on their title or artist only.
+ */
+export function HighlightedSnippet({ snippet }: { snippet?: SearchSnippet }) {
+  if (!snippet) return null;
+
+  const parts: ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > position) parts.push(snippet.text.slice(position, start));
+    parts.push(<Mark key={index}>{snippet.text.slice(start, end)}</Mark>);
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+
+  return (
+    <Text size="sm" lineClamp={1}>
+      <Text span size="xs" c="dimmed" fw={600}>{FIELD_LABELS[snippet.field]}:</Text>{' '}
+      <Text span fs="italic" inherit>{parts}</Text>
+    </Text>
+  );
+}
@@ -0,0 +1,168 @@
+import { Stack, Group, Text, TextInput, Select, ActionIcon, Tooltip, Menu, Badge, Grid, Alert } from '@mantine/core';
+import { IconArrowUp, IconArrowDown, IconCut, IconArrowMergeAltLeft, IconAlertTriangle } from '@tabler/icons-react';
+import { SongSection } from './SongSection';
+import { TagInput } from './TagInput';
+import { useStorage } from '../context/StorageContext';
+import { detectKey } from '../utils/transpose';
+import { canShiftChords, countChords, mergeWithNext, moveChord, setSectionType, shiftChords, splitSection } from '../utils/importPreview';
+import type { ImportDraft, ImportDraftDetails } from '../utils/importPreview';
+import type { Section } from '../types/song';
+
+interface ImportPreviewProps {
+  draft: ImportDraft;
+  onChange: (draft: ImportDraft) => void;
+}
+
+const SECTION_TYPES: { value: Section['type']; label: string }[] = [
+  { value: 'verse', label: 'Verse' },
+  { value: 'chorus', label: 'Chorus' },
+  { value: 'pre-chorus', label: 'Pre-Chorus' },
+  { value: 'bridge', label: 'Bridge' },
+  { value: 'intro', label: 'Intro' },
+  { value: 'outro', label: 'Outro' },
+  { value: 'tag', label: 'Tag' },
+  { value: 'break', label: 'Break' }
+];
+
+// Longest lyric shown for a split point before it is cut short
+const SPLIT_LABEL_LENGTH = 40;
+
+/**
+ * An imported song as it will be saved, with its details editable and tools
+ * to correct how the sections were read: change a section's type, split it
+ * before a line, merge it with the next one, move its chords a line up or
+ * down, or drag a single chord to where it belongs
+ */
+export function ImportPreview({ draft, onChange }: ImportPreviewProps) {
+  const { songs } = useStorage();
+  const allTags = Array.from(new Set(songs.flatMap(song => song.tags || []))).sort();
+  const detectedKey = detectKey(draft.sections.flatMap(section => section.chords.map(chord => chord.text)));
+
+  const setDetail = <K extends keyof ImportDraftDetails>(field: K, value: ImportDraftDetails[K]) =>
+    onChange({ ...draft, [field]: value });
+
+  return (
+    <Stack gap="md">
+      <Group gap="xs">
+        <Badge variant="light">{draft.formatName}</Badge>
+        <Text size="sm" c="dimmed">
+          {draft.source} - {draft.sections.length} sections, {countChords(draft)} chords
+        </Text>
+      </Group>
+
+      <Grid gutter="sm">
+        <Grid.Col span={{ base: 12, sm: 6 }}>
+          <TextInput label="Title" value={draft.title} onChange={(e) => setDetail('title', e.currentTarget.value)} />
+        </Grid.Col>
+        <Grid.Col span={{ base: 12, sm: 6 }}>
+          <TextInput label="Artist" value={draft.artist} onChange={(e) => setDetail('artist', e.currentTarget.value)} />
+        </Grid.Col>
+        <Grid.Col span={{ base: 6, sm: 3 }}>
+          <TextInput
+            label="Key"
+            value={draft.key}
+            placeholder={detectedKey}
+            description={!draft.key && detectedKey ? `Detected from the chords: ${detectedKey}` : undefined}
+            onChange={(e) => setDetail('key', e.currentTarget.value)}
+          />
+        </Grid.Col>
+        <Grid.Col span={{ base: 6, sm: 3 }}>
+          <TextInput label="Tempo" value={draft.tempo} onChange={(e) => setDetail('tempo', e.currentTarget.value)} />
+        </Grid.Col>
+        <Grid.Col span={{ base: 12, sm: 6 }}>
+          <TagInput label="Tags" value={draft.tags} onChange={(tags) => setDetail('tags', tags)} suggestions={allTags} />
+        </Grid.Col>
+      </Grid>
+
+      {draft.sections.length === 0 && (
+        <Alert color="red" icon={<IconAlertTriangle size={16} />}>
+          No sections were found, so there is nothing to import
+        </Alert>
+      )}
+      {draft.sections.length > 0 && countChords(draft) === 0 && (
+        <Alert color="yellow" icon={<IconAlertTriangle size={16} />}>
+          No chords were found. The song will be imported as lyrics only.
+        </Alert>
+      )}
+
+      <Text size="xs" c="dimmed">
+        Drag a chord to move it to another line or position.
+      </Text>
+
+      {draft.sections.map((section, index) => {
+        const lines = section.content.split('\n');
+        return (
+          <Stack key={section.id || index} gap={4}>
+            <Group gap="xs">
+              <Select
+                size="xs"
+                w={140}
+                data={SECTION_TYPES}
+                value={section.type}
+                onChange={(value) => value && onChange(setSectionType(draft, index, value as Section['type']))}
+                allowDeselect={false}
+                aria-label="Section type"
+              />
+              <Tooltip label="Move chords up a line">
+                <ActionIcon
+                  variant="subtle"
+                  disabled={!canShiftChords(section, -1)}
+                  onClick={() => onChange(shiftChords(draft, index, -1))}
+                >
+                  <IconArrowUp size={16} />
+                </ActionIcon>
+              </Tooltip>
+              <Tooltip label="Move chords down a line">
+                <ActionIcon
+                  variant="subtle"
+                  disabled={!canShiftChords(section, 1)}
+                  onClick={() => onChange(shiftChords(draft, index, 1))}
+                >
+                  <IconArrowDown size={16} />
+                </ActionIcon>
+              </Tooltip>
+              <Menu shadow="md" width={300} position="bottom-start">
+                <Menu.Target>
+                  <Tooltip label="Split section">
+                    <ActionIcon variant="subtle" disabled={lines.length < 2}>
+                      <IconCut size={16} />
+                    </ActionIcon>
+                  </Tooltip>
+                </Menu.Target>
+                <Menu.Dropdown>
+                  <Menu.Label>Start a new section at</Menu.Label>
+                  {lines.slice(1).map((line, i) => (
+                    <Menu.Item key={i} onClick={() => onChange(splitSection(draft, index, i + 1))}>
+                      <Text size="sm" truncate>
+                        {line.trim()
+                          ? (line.length > SPLIT_LABEL_LENGTH ? `${line.slice(0, SPLIT_LABEL_LENGTH)}...` : line)
+                          : `Blank line ${i + 2}`}
+                      </Text>
+                    </Menu.Item>
+                  ))}
+                </Menu.Dropdown>
+              </Menu>
+              <Tooltip label="Merge with the next section">
+                <ActionIcon
+                  variant="subtle"
+                  disabled={index === draft.sections.length - 1}
+                  onClick={() => onChange(mergeWithNext(draft, index))}
+                >
+                  <IconArrowMergeAltLeft size={16} />
+                </ActionIcon>
+              </Tooltip>
+            </Group>
+            <SongSection
+              type={section.type}
+              number={section.number}
+              content={section.content}
+              chords={section.chords}
+              songKey={draft.key || detectedKey}
+              onChordMove={(chordId, line, position) => onChange(moveChord(draft, index, chordId, line, position))}
+            />
+          </Stack>
+        );
+      })}
+    </Stack>
+  );
+}
@@ -0,0 +1,75 @@
+import { Modal, Stack, Group, Text, Button, Badge, Accordion, List } from '@mantine/core';
+import type { ImportProblem, ImportReport } from '../utils/importValidation';
+
+interface ImportProblemListProps {
+  problems: ImportProblem[];
+  label: string;
+  color: string;
+}
+
+/**
+ * Songs that were repaired or left out, each opening to show why
+ */
+export function ImportProblemList({ problems, label, color }: ImportProblemListProps) {
+  if (problems.length === 0) return null;
+
+  return (
+    <Stack gap={4}>
+      <Group gap="xs">
+        <Text size="sm" fw={500}>{label}</Text>
+        <Badge size="sm" variant="light" color={color}>{problems.length}</Badge>
+      </Group>
+      <Accordion variant="contained" chevronPosition="left">
+        {problems.map(problem => (
+          <Accordion.Item key={problem.index} value={String(problem.index)}>
+            <Accordion.Control>
+              <Text size="sm" truncate>{problem.title}</Text>
+            </Accordion.Control>
+            <Accordion.Panel>
+              <List size="xs" spacing={2}>
+                {problem.messages.map((message, index) => (
+                  <List.Item key={index}>{message}</List.Item>
+                ))}
+              </List>
+            </Accordion.Panel>
+          </Accordion.Item>
+        ))}
+      </Accordion>
+    </Stack>
+  );
+}
+
+interface ImportReportModalProps {
+  opened: boolean;
+  onClose: () => void;
+  report: ImportReport;
+}
+
+/**
+ * What an import did: how many songs came in, which were repaired on the
+ * way and which were left out, with the reasons
+ */
+export function ImportReportModal({ opened, onClose, report }: ImportReportModalProps) {
+  return (
+    <Modal opened={opened} onClose={onClose} title="Import Report" size="lg" centered>
+      <Stack gap="md">
+        <Group gap="xs">
+          <Badge variant="light" color="green">{report.imported} imported</Badge>
+          {report.repaired.length > 0 && (
+            <Badge variant="light" color="yellow">{report.repaired.length} repaired</Badge>
+          )}
+          {report.rejected.length > 0 && (
+            <Badge variant="light" color="red">{report.rejected.length} left out</Badge>
+          )}
+        </Group>
+
+        <ImportProblemList problems={report.rejected} label="Left out" color="red" />
+        <ImportProblemList problems={report.repaired} label="Repaired" color="yellow" />
+
+        <Group justify="flex-end">
+          <Button onClick={onClose}>Done</Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
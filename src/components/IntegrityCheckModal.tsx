@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { Modal, Stack, Group, Text, Button, Badge, Paper, SegmentedControl, List, Alert } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconCircleCheck } from '@tabler/icons-react';
+import { useStorage } from '../context/StorageContext';
+import { SongConflictError } from '../utils/storageInterface';
+import { INTEGRITY_PROBLEMS, checkLibrary, repairSong } from '../utils/integrity';
+import type { IntegrityFix, IntegrityFixes, IntegrityProblem, IntegrityProblemKind } from '../utils/integrity';
+
+interface IntegrityCheckModalProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+// Problems listed for each kind before the rest are summed up
+const PREVIEW_LIMIT = 5;
+
+const KINDS = Object.keys(INTEGRITY_PROBLEMS) as IntegrityProblemKind[];
+
+// Fix each kind of problem the first way offered unless another is picked
+const getDefaultFixes = (): IntegrityFixes =>
+  Object.fromEntries(KINDS.map(kind => [kind, INTEGRITY_PROBLEMS[kind].fixes[0].fix]));
+
+/**
+ * Scan every song for chords that no longer fit their lyrics and other
+ * leftovers of editing, then fix them in bulk. Each kind of problem is
+ * listed with a preview and a choice of how to fix it, or to leave it.
+ */
+export function IntegrityCheckModal({ opened, onClose }: IntegrityCheckModalProps) {
+  const { songs, storage, refreshSongs, syncNow } = useStorage();
+  const [fixes, setFixes] = useState<IntegrityFixes>(getDefaultFixes);
+  const [isFixing, setIsFixing] = useState(false);
+
+  // Rescanned whenever the songs change, including after fixing
+  const problems = useMemo(() => checkLibrary(songs), [songs]);
+  const problemsByKind = useMemo(() => {
+    const grouped = new Map<IntegrityProblemKind, IntegrityProblem[]>();
+    for (const problem of problems) {
+      grouped.set(problem.kind, [...(grouped.get(problem.kind) || []), problem]);
+    }
+    return grouped;
+  }, [problems]);
+
+  // Songs with a problem that is set to be fixed
+  const songIdsToFix = useMemo(
+    () => new Set(problems.filter(problem => fixes[problem.kind]).map(problem => problem.songId)),
+    [problems, fixes]
+  );
+
+  const setFix = (kind: IntegrityProblemKind, fix: string) =>
+    setFixes(prev => ({ ...prev, [kind]: fix === 'leave' ? undefined : fix as IntegrityFix }));
+
+  const handleFix = async () => {
+    setIsFixing(true);
+    let fixed = 0;
+    let skipped = 0;
+    try {
+      for (const song of songs) {
+        if (!songIdsToFix.has(song.id)) continue;
+        try {
+          // Leave songs alone that were saved since the scan
+          await storage.updateSong(
+            { ...repairSong(song, fixes), updatedAt: new Date().toISOString() },
+            { expectedUpdatedAt: song.updatedAt }
+          );
+          fixed++;
+        } catch (error) {
+          if (!(error instanceof SongConflictError)) throw error;
+          skipped++;
+        }
+      }
+
+      notifications.show({
+        title: 'Library Fixed',
+        message: `Fixed ${fixed} ${fixed === 1 ? 'song' : 'songs'}` +
+          (skipped ? `, ${skipped} changed elsewhere and left for the next check` : ''),
+        color: 'green'
+      });
+    } catch (error) {
+      console.error('Failed to fix library:', error);
+      notifications.show({
+        title: 'Error',
+        message: `Fixing stopped after ${fixed} ${fixed === 1 ? 'song' : 'songs'}`,
+        color: 'red'
+      });
+    } finally {
+      await refreshSongs();
+      syncNow();
+      setIsFixing(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Check Library" size="lg" centered>
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          Checked {songs.length} songs for chords that no longer fit their lyrics and other leftovers of editing.
+        </Text>
+
+        {problems.length === 0 ? (
+          <Alert color="green" icon={<IconCircleCheck size={16} />}>
+            No problems found
+          </Alert>
+        ) : KINDS.map(kind => {
+          const kindProblems = problemsByKind.get(kind) || [];
+          if (kindProblems.length === 0) return null;
+          const { label, description, fixes: options } = INTEGRITY_PROBLEMS[kind];
+          const songCount = new Set(kindProblems.map(problem => problem.songId)).size;
+
+          return (
+            <Paper key={kind} withBorder p="sm">
+              <Stack gap="xs">
+                <Group gap="xs">
+                  <Text fw={500}>{label}</Text>
+                  <Badge variant="light" color="yellow">
+                    {kindProblems.length} in {songCount} {songCount === 1 ? 'song' : 'songs'}
+                  </Badge>
+                </Group>
+                <Text size="sm" c="dimmed">{description}</Text>
+                <List size="xs" spacing={2}>
+                  {kindProblems.slice(0, PREVIEW_LIMIT).map((problem, index) => (
+                    <List.Item key={index}>
+                      <Text span size="xs" fw={500}>{problem.songTitle}</Text> - {problem.preview}
+                    </List.Item>
+                  ))}
+                </List>
+                {kindProblems.length > PREVIEW_LIMIT && (
+                  <Text size="xs" c="dimmed">and {kindProblems.length - PREVIEW_LIMIT} more</Text>
+                )}
+                <SegmentedControl
+                  size="xs"
+                  value={fixes[kind] || 'leave'}
+                  onChange={value => setFix(kind, value)}
+                  data={[
+                    ...options.map(option => ({ value: option.fix, label: option.label })),
+                    { value: 'leave', label: 'Leave' }
+                  ]}
+                />
+              </Stack>
+            </Paper>
+          );
+        })}
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>Close</Button>
+          {problems.length > 0 && (
+            <Button onClick={handleFix} loading={isFixing} disabled={songIdsToFix.size === 0}>
+              Fix {songIdsToFix.size} {songIdsToFix.size === 1 ? 'Song' : 'Songs'}
+            </Button>
+          )}
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
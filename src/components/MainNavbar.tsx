@@ -1,7 +1,8 @@
-import { NavLink, Stack, Box, Flex } from '@mantine/core';
+import { NavLink, Stack, Box, Flex, Badge } from '@mantine/core';
 import { Link, useLocation } from 'react-router-dom';
-import { IconHome, IconMusic, IconSettings } from '@tabler/icons-react';
+import { IconHome, IconMusic, IconPlaylist, IconSettings, IconTrash } from '@tabler/icons-react';
 import { StorageModeIndicator } from './StorageModeIndicator';
+import { useStorage } from '../context/StorageContext';
 
 interface MainNavbarProps {
   onNavClick?: () => void;
@@ -9,6 +10,7 @@ interface MainNavbarProps {
 
 export function MainNavbar({ onNavClick }: MainNavbarProps) {
   const location = useLocation();
+  const { trashedSongs } = useStorage();
 
   return (
     <Flex direction="column" h="100%" p="md">
@@ -34,6 +36,27 @@ export function MainNavbar({ onNavClick }: MainNavbarProps) {
           py="xs"
           onClick={onNavClick}
         />
+        <NavLink
+          component={Link}
+          to="/setlists"
+          label="Setlists"
+          leftSection={<IconPlaylist size={20} />}
+          active={location.pathname.startsWith('/setlists')}
+          variant="filled"
+          py="xs"
+          onClick={onNavClick}
+        />
+        <NavLink
+          component={Link}
+          to="/trash"
+          label="Trash"
+          leftSection={<IconTrash size={20} />}
+          rightSection={trashedSongs.length > 0 && <Badge size="sm" variant="light" color="gray">{trashedSongs.length}</Badge>}
+          active={location.pathname === '/trash'}
+          variant="filled"
+          py="xs"
+          onClick={onNavClick}
+        />
         <NavLink
           component={Link}
           to="/settings"
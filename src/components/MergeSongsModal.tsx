@@ -0,0 +1,159 @@
+import { useMemo, useState } from 'react';
+import { Modal, Stack, Group, Text, Button, Radio, Table, ScrollArea, Badge, Alert } from '@mantine/core';
+import { IconAlertTriangle } from '@tabler/icons-react';
+import type { Song } from '../types/song';
+import { getDefaultMergeChoices, getMergeSectionRows, getSongChordKey, mergeSongs } from '../utils/duplicates';
+import type { MergeChoices } from '../utils/duplicates';
+import { MERGE_FIELDS } from '../utils/songMerge';
+import type { MergeField } from '../utils/songMerge';
+
+interface MergeSongsModalProps {
+  opened: boolean;
+  onClose: () => void;
+  songs: Song[];
+  onMerge: (merged: Song, duplicateIds: string[]) => Promise<void>;
+}
+
+// First lines of a section, enough to tell versions apart
+const previewSection = (content: string) =>
+  content.split('\n').filter(line => line.trim()).slice(0, 2).join(' / ');
+
+/**
+ * Merge copies of a song: pick the copy to keep and, for each detail and
+ * each section, which copy to take it from. The other copies are deleted.
+ */
+export function MergeSongsModal({ opened, onClose, songs, onMerge }: MergeSongsModalProps) {
+  const [choices, setChoices] = useState<MergeChoices>(() => getDefaultMergeChoices(songs));
+  const [isMerging, setIsMerging] = useState(false);
+
+  const sectionRows = useMemo(() => getMergeSectionRows(songs), [songs]);
+  const keys = useMemo(() => [...new Set(songs.map(getSongChordKey).filter(Boolean))], [songs]);
+
+  const setField = (field: MergeField, songId: string) =>
+    setChoices(prev => ({ ...prev, fields: { ...prev.fields, [field]: songId } }));
+  const setSection = (key: string, songId: string | null) =>
+    setChoices(prev => ({ ...prev, sections: { ...prev.sections, [key]: songId } }));
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    try {
+      await onMerge(mergeSongs(songs, choices), songs.filter(song => song.id !== choices.keepId).map(song => song.id));
+      onClose();
+    } catch (error) {
+      // Error notification is shown by the storage context
+      console.error('Failed to merge songs:', error);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const keptSections = Object.values(choices.sections).filter(Boolean).length;
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Merge Songs" size="xl" centered>
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          Choose which copy each detail and section comes from. The merged song replaces the copy
+          you keep, setlists are moved over to it, and the other copies go to the trash.
+        </Text>
+
+        {keys.length > 1 && (
+          <Alert color="yellow" icon={<IconAlertTriangle size={16} />}>
+            The copies are in different keys ({keys.join(', ')}). Sections are transposed to the
+            key of the copy you take the key from.
+          </Alert>
+        )}
+
+        <ScrollArea type="auto">
+          <Table verticalSpacing="xs" withColumnBorders>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th />
+                {songs.map((song, index) => (
+                  <Table.Th key={song.id} miw={180}>
+                    <Stack gap={4}>
+                      <Text size="sm" fw={600}>Copy {index + 1}</Text>
+                      <Text size="xs" c="dimmed">Added {new Date(song.createdAt).toLocaleDateString()}</Text>
+                      <Radio
+                        size="xs"
+                        label="Keep this one"
+                        checked={choices.keepId === song.id}
+                        onChange={() => setChoices(prev => ({ ...prev, keepId: song.id }))}
+                      />
+                    </Stack>
+                  </Table.Th>
+                ))}
+                <Table.Th />
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {MERGE_FIELDS.map(({ field, label, describe }) => (
+                <Table.Tr key={field}>
+                  <Table.Td><Text size="sm" fw={500}>{label}</Text></Table.Td>
+                  {songs.map(song => (
+                    <Table.Td key={song.id}>
+                      <Radio
+                        size="xs"
+                        label={describe(song) || <Text span size="xs" c="dimmed">None</Text>}
+                        checked={choices.fields[field] === song.id}
+                        onChange={() => setField(field, song.id)}
+                        styles={{ label: { wordBreak: 'break-word' } }}
+                      />
+                    </Table.Td>
+                  ))}
+                  <Table.Td />
+                </Table.Tr>
+              ))}
+
+              {sectionRows.map(row => (
+                <Table.Tr key={row.key}>
+                  <Table.Td><Text size="sm" fw={500}>{row.label}</Text></Table.Td>
+                  {songs.map(song => {
+                    const section = row.sections[song.id];
+                    return (
+                      <Table.Td key={song.id}>
+                        {section && (
+                          <Radio
+                            size="xs"
+                            label={
+                              <Stack gap={2}>
+                                <Text size="xs" lineClamp={2}>{previewSection(section.content) || 'No lyrics'}</Text>
+                                <Badge size="xs" variant="light" color={section.chords.length > 0 ? 'blue' : 'gray'}>
+                                  {section.chords.length} {section.chords.length === 1 ? 'chord' : 'chords'}
+                                </Badge>
+                              </Stack>
+                            }
+                            checked={choices.sections[row.key] === song.id}
+                            onChange={() => setSection(row.key, song.id)}
+                          />
+                        )}
+                      </Table.Td>
+                    );
+                  })}
+                  <Table.Td>
+                    <Radio
+                      size="xs"
+                      label="Leave out"
+                      checked={choices.sections[row.key] === null}
+                      onChange={() => setSection(row.key, null)}
+                    />
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+
+        <Group justify="space-between">
+          <Text size="sm" c="dimmed">
+            {keptSections} {keptSections === 1 ? 'section' : 'sections'}, {songs.length - 1} {songs.length === 2 ? 'copy' : 'copies'} moved to the trash
+          </Text>
+          <Group>
+            <Button variant="default" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleMerge} loading={isMerging} disabled={keptSections === 0}>Merge</Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Modal, Stack, Group, Text, Button, Radio, FileButton, Paper, Alert } from '@mantine/core';
+import { IconUpload, IconAlertTriangle } from '@tabler/icons-react';
+import { useStorage } from '../context/StorageContext';
+import { ImportProblemList } from './ImportReportModal';
+import { BACKUP_EXTENSION, BackupError, readBackup } from '../utils/backup';
+import type { Backup, RestoreMode } from '../utils/backup';
+
+interface RestoreBackupModalProps {
+  opened: boolean;
+  onClose: () => void;
+  onComplete?: () => void;
+}
+
+/**
+ * Restore a backup archive: pick the file, see what is in it, and choose
+ * what happens to songs that are already in the library
+ */
+export function RestoreBackupModal({ opened, onClose, onComplete }: RestoreBackupModalProps) {
+  const { restoreBackup } = useStorage();
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('upsert');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleFile = async (file: File | null) => {
+    if (!file) return;
+    setBackup(null);
+    setReadError(null);
+    try {
+      setBackup(await readBackup(file));
+    } catch (error) {
+      console.error('Failed to read backup:', error);
+      setReadError(error instanceof BackupError ? error.message : 'The file could not be read');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setIsRestoring(true);
+    try {
+      await restoreBackup(backup, mode);
+      setBackup(null);
+      onClose();
+      if (onComplete) onComplete();
+    } catch (error) {
+      // Error notification is shown by the storage context
+      console.error('Failed to restore backup:', error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Restore Backup" centered>
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          Choose a {BACKUP_EXTENSION} backup, or a JSON export from an older version.
+        </Text>
+
+        <FileButton onChange={handleFile} accept={`${BACKUP_EXTENSION},.zip,.json`}>
+          {(props) => (
+            <Button {...props} variant="light" leftSection={<IconUpload size={16} />}>
+              Choose Backup
+            </Button>
+          )}
+        </FileButton>
+
+        {readError && (
+          <Alert color="red" icon={<IconAlertTriangle size={16} />}>
+            {readError}
+          </Alert>
+        )}
+
+        {backup && (
+          <>
+            <Paper withBorder p="sm">
+              <Stack gap={4}>
+                <Text size="sm" fw={500}>
+                  Backup from {new Date(backup.manifest.createdAt).toLocaleString()}
+                </Text>
+                <Text size="sm">
+                  {backup.songs.length} songs, {backup.setlists.length} setlists
+                  {backup.settings ? ', settings' : ''}
+                  {Object.keys(backup.tagColors).length > 0 ? ', tag colors' : ''}
+                </Text>
+                {backup.sourceVersion < backup.manifest.schemaVersion && (
+                  <Text size="xs" c="dimmed">
+                    Made by an older version of the app and upgraded for restoring
+                  </Text>
+                )}
+              </Stack>
+            </Paper>
+
+            <ImportProblemList problems={backup.rejected} label="Can't be restored" color="red" />
+            <ImportProblemList problems={backup.repaired} label="Repaired when restoring" color="yellow" />
+
+            <Radio.Group
+              label="Songs already in your library"
+              value={mode}
+              onChange={(value) => setMode(value as RestoreMode)}
+            >
+              <Stack mt="xs">
+                <Radio value="upsert" label="Update - Replace them with the version in the backup" />
+                <Radio value="skip" label="Skip - Keep them as they are and only add missing songs" />
+                <Radio
+                  value="replace"
+                  label="Replace everything - Songs not in the backup go to the trash"
+                  color="red"
+                />
+              </Stack>
+            </Radio.Group>
+          </>
+        )}
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={handleRestore}
+            loading={isRestoring}
+            disabled={!backup}
+            color={mode === 'replace' ? 'red' : 'blue'}
+          >
+            Restore
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,183 @@
+import { useMemo, useState } from 'react';
+import { Paper, Stack, Group, Title, Text, Select, Button, Badge, Box, SimpleGrid, Loader, Center, ScrollArea } from '@mantine/core';
+import { IconArrowBackUp } from '@tabler/icons-react';
+import type { SongRevision } from '../types/song';
+import { diffChartLines, diffSongFields, songToChartLines } from '../utils/revisions';
+import type { RevisionDiffRow } from '../utils/revisions';
+
+interface SongHistoryProps {
+  revisions: SongRevision[];
+  isLoading: boolean;
+  onRestore: (revision: SongRevision) => void;
+  isViewMode?: boolean;
+}
+
+// Background of each side of a diff row
+const DIFF_COLORS: Record<RevisionDiffRow['type'], { left?: string; right?: string }> = {
+  same: {},
+  removed: { left: 'var(--mantine-color-red-light)' },
+  added: { right: 'var(--mantine-color-green-light)' },
+  changed: { left: 'var(--mantine-color-yellow-light)', right: 'var(--mantine-color-yellow-light)' }
+};
+
+const describeRevision = (revision: SongRevision) =>
+  `${new Date(revision.createdAt).toLocaleString()} - ${revision.author || 'Saved on this device'}`;
+
+function DiffLine({ text, background }: { text?: string; background?: string }) {
+  return (
+    <Box
+      px="xs"
+      style={{
+        fontFamily: 'monospace',
+        fontSize: 13,
+        whiteSpace: 'pre',
+        minHeight: '1.5em',
+        backgroundColor: background
+      }}
+    >
+      {text ?? ''}
+    </Box>
+  );
+}
+
+interface RevisionPickerProps {
+  label: string;
+  revisions: SongRevision[];
+  selected: SongRevision;
+  onSelect: (id: string) => void;
+  onRestore: () => void;
+  isViewMode?: boolean;
+}
+
+function RevisionPicker({ label, revisions, selected, onSelect, onRestore, isViewMode }: RevisionPickerProps) {
+  return (
+    <Stack gap={4}>
+      <Select
+        label={label}
+        data={revisions.map(revision => ({ value: revision.id, label: describeRevision(revision) }))}
+        value={selected.id}
+        onChange={value => value && onSelect(value)}
+        allowDeselect={false}
+      />
+      <Group justify="space-between" gap="xs">
+        <Text size="xs" c="dimmed" truncate>{selected.snapshot.title || 'Untitled'}</Text>
+        <Button
+          size="xs"
+          variant="light"
+          leftSection={<IconArrowBackUp size={14} />}
+          onClick={onRestore}
+          disabled={isViewMode}
+        >
+          Restore this version
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
+
+/**
+ * Saved versions of a song, with a side by side diff of any two of them and
+ * a button to restore either one
+ */
+export function SongHistory({ revisions, isLoading, onRestore, isViewMode }: SongHistoryProps) {
+  const [leftId, setLeftId] = useState<string | null>(null);
+  const [rightId, setRightId] = useState<string | null>(null);
+
+  // Compare the two newest versions until others are picked
+  const right = revisions.find(revision => revision.id === rightId) || revisions[0];
+  const left = revisions.find(revision => revision.id === leftId) || revisions[1] || revisions[0];
+
+  const chartDiff = useMemo(
+    () => left && right ? diffChartLines(songToChartLines(left.snapshot), songToChartLines(right.snapshot)) : [],
+    [left, right]
+  );
+  const fieldChanges = useMemo(
+    () => left && right ? diffSongFields(left.snapshot, right.snapshot) : [],
+    [left, right]
+  );
+
+  if (isLoading) {
+    return (
+      <Center p="xl">
+        <Loader size="sm" />
+      </Center>
+    );
+  }
+
+  if (!left || !right) {
+    return (
+      <Paper withBorder p="md">
+        <Text size="sm" c="dimmed">
+          No saved versions yet. A version is kept each time the song is saved.
+        </Text>
+      </Paper>
+    );
+  }
+
+  const changedLines = chartDiff.filter(row => row.type !== 'same').length;
+
+  return (
+    <Paper withBorder p="md">
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Title order={3}>History</Title>
+          <Badge variant="light">{revisions.length} {revisions.length === 1 ? 'version' : 'versions'}</Badge>
+        </Group>
+
+        <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="md">
+          <RevisionPicker
+            label="Compare"
+            revisions={revisions}
+            selected={left}
+            onSelect={setLeftId}
+            onRestore={() => onRestore(left)}
+            isViewMode={isViewMode}
+          />
+          <RevisionPicker
+            label="With"
+            revisions={revisions}
+            selected={right}
+            onSelect={setRightId}
+            onRestore={() => onRestore(right)}
+            isViewMode={isViewMode}
+          />
+        </SimpleGrid>
+
+        {left.id === right.id ? (
+          <Text size="sm" c="dimmed">Pick two different versions to see what changed.</Text>
+        ) : (
+          <>
+            {fieldChanges.length > 0 && (
+              <Stack gap={4}>
+                {fieldChanges.map(change => (
+                  <Text key={change.field} size="sm">
+                    <Text span fw={600}>{change.field}:</Text>{' '}
+                    <Text span c="red" td="line-through">{change.before || 'none'}</Text>{' '}
+                    <Text span c="green">{change.after || 'none'}</Text>
+                  </Text>
+                ))}
+              </Stack>
+            )}
+
+            <Text size="sm" c="dimmed">
+              {changedLines === 0 ? 'Lyrics and chords are the same.' : `${changedLines} ${changedLines === 1 ? 'line' : 'lines'} changed`}
+            </Text>
+
+            {changedLines > 0 && (
+              <ScrollArea type="auto">
+                <Box style={{ display: 'grid', gridTemplateColumns: 'minmax(max-content, 1fr) minmax(max-content, 1fr)', columnGap: 8 }}>
+                  {chartDiff.map((row, index) => (
+                    <Box key={index} style={{ display: 'contents' }}>
+                      <DiffLine text={row.left} background={DIFF_COLORS[row.type].left} />
+                      <DiffLine text={row.right} background={DIFF_COLORS[row.type].right} />
+                    </Box>
+                  ))}
+                </Box>
+              </ScrollArea>
+            )}
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
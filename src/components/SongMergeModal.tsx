@@ -0,0 +1,196 @@
+import { useMemo, useState } from 'react';
+import { Modal, Stack, Group, Text, Button, Radio, Badge, Paper, SimpleGrid, Box, ScrollArea, Title } from '@mantine/core';
+import type { Section, Song } from '../types/song';
+import { applyThreeWayMerge, mergeThreeWay } from '../utils/songMerge';
+import type { MergeField, MergeSide, SectionMerge, ThreeWayChoices, ThreeWayStatus } from '../utils/songMerge';
+import { diffChartLines, songToChartLines } from '../utils/revisions';
+
+interface SongMergeModalProps {
+  opened: boolean;
+  onClose: () => void;
+  base: Song; // The version the editor opened
+  mine: Song; // The version being saved
+  theirs: Song; // The version saved elsewhere in the meantime
+  onMerge: (merged: Song) => Promise<void>;
+}
+
+const STATUS_LABELS: Record<Exclude<ThreeWayStatus, 'same' | 'conflict'>, string> = {
+  mine: 'Your change',
+  theirs: 'Their change',
+  merged: 'Chords merged'
+};
+
+// Chord chart of one section, chords above lyrics
+const sectionToChartLines = (song: Song, section?: Section) =>
+  section ? songToChartLines({ ...song, sections: [section] }) : [];
+
+function ChartColumn({ label, lines, changed }: { label: string; lines: (string | undefined)[]; changed: boolean[] }) {
+  return (
+    <Stack gap={4}>
+      <Text size="xs" fw={600} c="dimmed">{label}</Text>
+      <ScrollArea type="auto">
+        {lines.length === 0 ? (
+          <Text size="sm" c="dimmed" fs="italic">Removed</Text>
+        ) : lines.map((line, index) => (
+          <Box
+            key={index}
+            px="xs"
+            style={{
+              fontFamily: 'monospace',
+              fontSize: 13,
+              whiteSpace: 'pre',
+              minHeight: '1.5em',
+              backgroundColor: changed[index] ? 'var(--mantine-color-yellow-light)' : undefined
+            }}
+          >
+            {line ?? ''}
+          </Box>
+        ))}
+      </ScrollArea>
+    </Stack>
+  );
+}
+
+interface SectionConflictProps {
+  section: SectionMerge;
+  mine: Song;
+  theirs: Song;
+  choice: MergeSide | 'both';
+  onChoose: (choice: MergeSide | 'both') => void;
+}
+
+function SectionConflict({ section, mine, theirs, choice, onChoose }: SectionConflictProps) {
+  // Line the two versions up so the lines that differ can be marked
+  const rows = useMemo(
+    () => diffChartLines(sectionToChartLines(mine, section.mine), sectionToChartLines(theirs, section.theirs)),
+    [mine, theirs, section]
+  );
+  const myLines = section.mine ? rows.map(row => row.left) : [];
+  const theirLines = section.theirs ? rows.map(row => row.right) : [];
+  const changed = rows.map(row => row.type !== 'same');
+
+  return (
+    <Paper withBorder p="sm">
+      <Stack gap="xs">
+        <Text fw={500}>{section.label}</Text>
+        <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="sm">
+          <ChartColumn label="Yours" lines={myLines} changed={changed} />
+          <ChartColumn label="Theirs" lines={theirLines} changed={changed} />
+        </SimpleGrid>
+        <Radio.Group value={choice} onChange={value => onChoose(value as MergeSide | 'both')}>
+          <Group gap="md">
+            <Radio size="xs" value="mine" label={section.mine ? 'Keep yours' : 'Leave it removed'} />
+            <Radio size="xs" value="theirs" label={section.theirs ? 'Keep theirs' : 'Remove it'} />
+            {section.mine && section.theirs && <Radio size="xs" value="both" label="Keep both" />}
+          </Group>
+        </Radio.Group>
+      </Stack>
+    </Paper>
+  );
+}
+
+/**
+ * Shown when a save finds that the song was changed somewhere else since it
+ * was opened. Changes made on only one side are merged by themselves, as are
+ * chord changes to different chords of the same section; what was changed
+ * differently on both sides is shown side by side to choose between.
+ */
+export function SongMergeModal({ opened, onClose, base, mine, theirs, onMerge }: SongMergeModalProps) {
+  const merge = useMemo(() => mergeThreeWay(base, mine, theirs), [base, mine, theirs]);
+  const [choices, setChoices] = useState<ThreeWayChoices>({ fields: {}, sections: {} });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fieldConflicts = merge.fields.filter(field => field.status === 'conflict');
+  const sectionConflicts = merge.sections.filter(section => section.status === 'conflict');
+  const automatic = [
+    ...merge.fields.filter(field => field.status !== 'same' && field.status !== 'conflict'),
+    ...merge.sections.filter(section => section.status !== 'same' && section.status !== 'conflict')
+  ] as { label: string; status: keyof typeof STATUS_LABELS }[];
+
+  const setField = (field: MergeField, side: MergeSide) =>
+    setChoices(prev => ({ ...prev, fields: { ...prev.fields, [field]: side } }));
+  const setSection = (id: string, side: MergeSide | 'both') =>
+    setChoices(prev => ({ ...prev, sections: { ...prev.sections, [id]: side } }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onMerge(applyThreeWayMerge(mine, theirs, merge, choices));
+      onClose();
+    } catch (error) {
+      // Error notification is shown by the editor
+      console.error('Failed to save merged song:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Song Changed Elsewhere" size="xl" centered>
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          This song was saved {theirs.updatedAt ? `at ${new Date(theirs.updatedAt).toLocaleString()} ` : ''}
+          somewhere else while you were editing it. Changes only one of you made are combined below;
+          choose what to keep where you both changed the same thing.
+        </Text>
+
+        {automatic.length > 0 && (
+          <Stack gap={4}>
+            <Title order={5}>Combined automatically</Title>
+            <Group gap="xs">
+              {automatic.map((item, index) => (
+                <Badge key={index} variant="light" color={item.status === 'theirs' ? 'grape' : 'blue'}>
+                  {item.label}: {STATUS_LABELS[item.status]}
+                </Badge>
+              ))}
+            </Group>
+          </Stack>
+        )}
+
+        {fieldConflicts.length > 0 && (
+          <Stack gap="xs">
+            <Title order={5}>Details</Title>
+            {fieldConflicts.map(({ field, label, mine: myValue, theirs: theirValue }) => (
+              <Radio.Group
+                key={field}
+                label={label}
+                value={choices.fields[field] || 'mine'}
+                onChange={value => setField(field, value as MergeSide)}
+              >
+                <Group gap="md" mt={4}>
+                  <Radio size="xs" value="mine" label={`Yours: ${myValue || 'None'}`} styles={{ label: { wordBreak: 'break-word' } }} />
+                  <Radio size="xs" value="theirs" label={`Theirs: ${theirValue || 'None'}`} styles={{ label: { wordBreak: 'break-word' } }} />
+                </Group>
+              </Radio.Group>
+            ))}
+          </Stack>
+        )}
+
+        {sectionConflicts.length > 0 && (
+          <Stack gap="xs">
+            <Title order={5}>Sections</Title>
+            {sectionConflicts.map(section => (
+              <SectionConflict
+                key={section.id}
+                section={section}
+                mine={mine}
+                theirs={theirs}
+                choice={choices.sections[section.id] || 'mine'}
+                onChoose={side => setSection(section.id, side)}
+              />
+            ))}
+          </Stack>
+        )}
+
+        {fieldConflicts.length === 0 && sectionConflicts.length === 0 && (
+          <Text size="sm">Your changes and theirs don't overlap, so nothing is lost by combining them.</Text>
+        )}
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} loading={isSaving}>Save Merged</Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -2,7 +2,8 @@ import React from 'react';
 import { Paper, Text, Box, Stack } from '@mantine/core';
 import { ChordButton } from './ChordButton';
 import { useSettings } from '../context/SettingsContext';
-import { Chord } from '../types/song';
+import { Chord, ChordDisplayMode, ChordNotation } from '../types/song';
+import type { Transposition } from '../utils/transpose';
 import './SongSection.css';
 
 interface SongSectionProps {
@@ -12,9 +13,15 @@ interface SongSectionProps {
   chords: Chord[];
   onChordClick?: (chord: string) => void;
   onChordMove?: (chordId: string, lineIndex: number, newPosition: number) => void;
+  repeat?: number; // How many times the arrangement plays this section in a row
+  capo?: number;
+  chordDisplay?: ChordDisplayMode;
+  notation?: ChordNotation;
+  songKey?: string; // Key the chords are numbered from
+  transposition?: Transposition; // Show the chords transposed
 }
 
-export function SongSection({ type, content, number, chords, onChordClick, onChordMove, readOnly = false }: SongSectionProps & { readOnly?: boolean }) {
+export function SongSection({ type, content, number, chords, onChordClick, onChordMove, repeat, capo, chordDisplay, notation, songKey, transposition, readOnly = false }: SongSectionProps & { readOnly?: boolean }) {
   const { settings } = useSettings();
   const sectionColor = settings.colors[type] || 'blue';
   
@@ -148,7 +155,7 @@ export function SongSection({ type, content, number, chords, onChordClick, onCho
           size="sm"
           style={{ color: isHexColor ? sectionColor : `var(--mantine-color-${sectionColor}-7)` }}
         >
-          {type}{number ? ` ${number}` : ''}
+          {type}{number ? ` ${number}` : ''}{repeat && repeat > 1 ? ` ×${repeat}` : ''}
         </Text>
 
         <Stack gap={0}>
@@ -203,6 +210,11 @@ export function SongSection({ type, content, number, chords, onChordClick, onCho
             padding: 0,
           }}
           onClick={() => onChordClick?.(chord.text)}
+          capo={capo}
+          display={chordDisplay}
+          notation={notation}
+          songKey={songKey}
+          transposition={transposition}
           readOnly={readOnly}
         />
       ))}
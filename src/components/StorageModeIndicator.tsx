@@ -1,50 +1,26 @@
-import { useState, useEffect } from 'react';
-import { Group, Badge, Button, Text, Alert, Modal, Stack } from '@mantine/core';
-import { IconCloud, IconDeviceFloppy, IconLogin, IconLogout, IconAlertTriangle, IconArrowUp } from '@tabler/icons-react';
+import { useState } from 'react';
+import { Group, Badge, Button, Text, Alert, Stack, ActionIcon, Tooltip } from '@mantine/core';
+import { IconCloud, IconDeviceFloppy, IconLogin, IconLogout, IconAlertTriangle, IconRefresh, IconCloudOff } from '@tabler/icons-react';
 import { useAuth } from '../context/AuthContext';
 import { useStorage } from '../context/StorageContext';
 import { StorageMode } from '../utils/storageInterface';
+import type { SyncStatus } from '../utils/storageInterface';
 import { LoginModal } from './LoginModal';
+import { SyncConflictModal } from './SyncConflictModal';
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  local: 'Not syncing',
+  synced: 'Synced',
+  syncing: 'Syncing...',
+  offline: 'Offline',
+  error: 'Sync failed'
+};
 
 export function StorageModeIndicator() {
   const { isAuthenticated, logout, user } = useAuth();
-  const { storageMode, hasLocalData, migrateLocalToCloud } = useStorage();
+  const { storageMode, syncState, syncNow } = useStorage();
   const [loginModalOpened, setLoginModalOpened] = useState(false);
-  const [migrationModalOpened, setMigrationModalOpened] = useState(false);
-  const [, setLocalDataExists] = useState(false);
-  const [isMigrating, setIsMigrating] = useState(false);
-
-  // Check for local data when authentication changes
-  useEffect(() => {
-    if (isAuthenticated) {
-      checkLocalData();
-    }
-  }, [isAuthenticated]);
-
-  const checkLocalData = async () => {
-    try {
-      const hasData = await hasLocalData();
-      setLocalDataExists(hasData);
-      if (hasData) {
-        setMigrationModalOpened(true);
-      }
-    } catch (error) {
-      console.error('Failed to check local data:', error);
-    }
-  };
-
-  const handleMigration = async () => {
-    setIsMigrating(true);
-    try {
-      await migrateLocalToCloud();
-      setLocalDataExists(false);
-      setMigrationModalOpened(false);
-    } catch (error) {
-      console.error('Migration failed:', error);
-    } finally {
-      setIsMigrating(false);
-    }
-  };
+  const [conflictModalOpened, setConflictModalOpened] = useState(false);
 
   const handleLogout = async () => {
     try {
@@ -79,6 +55,41 @@ export function StorageModeIndicator() {
             <Text size="sm" fw={500} ta="center" truncate>
               {user?.email}
             </Text>
+            <Group gap={4} justify="center" wrap="nowrap">
+              {syncState.status === 'offline' && <IconCloudOff size={14} />}
+              <Text size="xs" c={syncState.status === 'error' ? 'red' : 'dimmed'}>
+                {SYNC_STATUS_LABELS[syncState.status]}
+                {syncState.pendingChanges > 0 && ` - ${syncState.pendingChanges} pending`}
+              </Text>
+              <Tooltip label="Sync now" withArrow>
+                <ActionIcon
+                  size="xs"
+                  variant="subtle"
+                  onClick={syncNow}
+                  loading={syncState.status === 'syncing'}
+                  disabled={syncState.status === 'offline'}
+                >
+                  <IconRefresh size={12} />
+                </ActionIcon>
+              </Tooltip>
+            </Group>
+            {syncState.status === 'error' && syncState.error && (
+              <Text size="xs" c="red" ta="center" lineClamp={3} title={syncState.error}>
+                {syncState.error}
+              </Text>
+            )}
+            {syncState.conflicts.length > 0 && (
+              <Button
+                size="xs"
+                color="orange"
+                variant="light"
+                leftSection={<IconAlertTriangle size={14} />}
+                onClick={() => setConflictModalOpened(true)}
+                fullWidth
+              >
+                {syncState.conflicts.length} sync {syncState.conflicts.length === 1 ? 'conflict' : 'conflicts'}
+              </Button>
+            )}
             <Button
               size="xs"
               variant="subtle"
@@ -101,7 +112,7 @@ export function StorageModeIndicator() {
               Login
             </Button>
             <Text size="xs" c="dimmed" ta="center">
-              Login for cloud storage
+              Login to sync across devices
             </Text>
           </Stack>
         )}
@@ -116,6 +127,7 @@ export function StorageModeIndicator() {
           >
             <Text size="xs">
               Songs saved locally - will be lost if you clear browser data
+              {syncState.pendingChanges > 0 && '. Login to back them up to the cloud.'}
             </Text>
           </Alert>
         )}
@@ -124,56 +136,13 @@ export function StorageModeIndicator() {
       <LoginModal
         opened={loginModalOpened}
         onClose={() => setLoginModalOpened(false)}
-        onLoginSuccess={() => {
-          setLoginModalOpened(false);
-          checkLocalData();
-        }}
+        onLoginSuccess={() => setLoginModalOpened(false)}
       />
 
-      <Modal
-        opened={migrationModalOpened}
-        onClose={() => setMigrationModalOpened(false)}
-        title="Migrate Local Songs?"
-        centered
-        closeOnClickOutside={false}
-        closeOnEscape={false}
-      >
-        <Stack gap="md">
-          <Alert
-            icon={<IconArrowUp size={16} />}
-            color="blue"
-            variant="light"
-          >
-            <Text size="sm">
-              You have songs saved locally from when you weren't logged in. 
-              Would you like to migrate them to cloud storage?
-            </Text>
-          </Alert>
-
-          <Text size="sm" c="dimmed">
-            This will copy your local songs to the cloud and then remove them from local storage.
-            Your songs will then be accessible from any device.
-          </Text>
-
-          <Group justify="flex-end" gap="sm">
-            <Button
-              variant="subtle"
-              color="gray"
-              onClick={() => setMigrationModalOpened(false)}
-              disabled={isMigrating}
-            >
-              Skip for Now
-            </Button>
-            <Button
-              leftSection={<IconArrowUp size={16} />}
-              onClick={handleMigration}
-              loading={isMigrating}
-            >
-              Migrate to Cloud
-            </Button>
-          </Group>
-        </Stack>
-      </Modal>
+      <SyncConflictModal
+        opened={conflictModalOpened}
+        onClose={() => setConflictModalOpened(false)}
+      />
     </>
   );
 }
\ No newline at end of file
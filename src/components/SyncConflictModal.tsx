@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { Modal, Stack, Group, Paper, Text, Button, Badge, Alert, SimpleGrid } from '@mantine/core';
+import { IconAlertTriangle, IconCloud, IconDeviceTablet } from '@tabler/icons-react';
+import type { Song, Setlist } from '../types/song';
+import type { SyncConflict, SyncRecord } from '../utils/storageInterface';
+import { getNewerSide } from '../utils/syncEngine';
+import { useStorage } from '../context/StorageContext';
+
+interface SyncConflictModalProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+// Title of whichever side of the conflict still exists
+const getConflictTitle = (conflict: SyncConflict) => {
+  const record = conflict.local || conflict.remote;
+  if (!record) return 'Untitled';
+  return conflict.kind === 'song' ? (record as Song).title : (record as Setlist).name;
+};
+
+// Short description of one version, enough to tell the two apart
+const describeRecord = (kind: SyncConflict['kind'], record: SyncRecord) => {
+  if (kind === 'song') {
+    const song = record as Song;
+    const firstLine = song.sections[0]?.content.split('\n')[0] || '';
+    return [
+      song.artist,
+      `${song.sections.length} sections`,
+      firstLine
+    ].filter(Boolean);
+  }
+  const setlist = record as Setlist;
+  return [
+    setlist.date,
+    `${setlist.entries.length} songs`
+  ].filter(Boolean);
+};
+
+interface ConflictSideProps {
+  label: string;
+  icon: ReactNode;
+  kind: SyncConflict['kind'];
+  record: SyncRecord | null;
+  isNewer: boolean;
+  onKeep: () => void;
+  disabled: boolean;
+}
+
+function ConflictSide({ label, icon, kind, record, isNewer, onKeep, disabled }: ConflictSideProps) {
+  return (
+    <Paper withBorder p="sm">
+      <Stack gap={4}>
+        <Group justify="space-between" gap="xs">
+          <Group gap={6}>
+            {icon}
+            <Text size="sm" fw={600}>{label}</Text>
+          </Group>
+          {isNewer && <Badge size="xs" color="green" variant="light">Newer</Badge>}
+        </Group>
+        {record ? (
+          <>
+            <Text size="xs" c="dimmed">
+              Changed {new Date(record.updatedAt).toLocaleString()}
+            </Text>
+            {describeRecord(kind, record).map((line, index) => (
+              <Text key={index} size="sm" truncate>{line}</Text>
+            ))}
+          </>
+        ) : (
+          <Text size="sm" c="red">Deleted</Text>
+        )}
+        <Button size="xs" variant="light" mt="xs" onClick={onKeep} disabled={disabled}>
+          {record ? 'Keep this version' : 'Keep deleted'}
+        </Button>
+      </Stack>
+    </Paper>
+  );
+}
+
+export function SyncConflictModal({ opened, onClose }: SyncConflictModalProps) {
+  const { syncState, resolveConflict, resolveAllConflictsByNewest } = useStorage();
+  const [isResolving, setIsResolving] = useState(false);
+  const { conflicts } = syncState;
+
+  const handleResolve = async (resolve: () => Promise<void>) => {
+    setIsResolving(true);
+    try {
+      await resolve();
+    } catch (error) {
+      console.error('Failed to resolve sync conflict:', error);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Sync Conflicts" size="lg" centered>
+      <Stack gap="md">
+        {conflicts.length === 0 ? (
+          <Text size="sm" c="dimmed">No conflicts - everything is in sync.</Text>
+        ) : (
+          <>
+            <Alert icon={<IconAlertTriangle size={16} />} color="orange" variant="light">
+              <Text size="sm">
+                These were changed on this device and on another one since they last synced.
+                Choose which version to keep for each.
+              </Text>
+            </Alert>
+
+            {conflicts.map(conflict => {
+              const newerSide = getNewerSide(conflict);
+              return (
+                <Stack key={conflict.id} gap="xs">
+                  <Group gap="xs">
+                    <Text fw={600}>{getConflictTitle(conflict)}</Text>
+                    <Badge size="xs" variant="outline">{conflict.kind}</Badge>
+                  </Group>
+                  <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="sm">
+                    <ConflictSide
+                      label="This device"
+                      icon={<IconDeviceTablet size={16} />}
+                      kind={conflict.kind}
+                      record={conflict.local}
+                      isNewer={newerSide === 'local'}
+                      onKeep={() => handleResolve(() => resolveConflict(conflict.id, 'local'))}
+                      disabled={isResolving}
+                    />
+                    <ConflictSide
+                      label="Cloud"
+                      icon={<IconCloud size={16} />}
+                      kind={conflict.kind}
+                      record={conflict.remote}
+                      isNewer={newerSide === 'remote'}
+                      onKeep={() => handleResolve(() => resolveConflict(conflict.id, 'remote'))}
+                      disabled={isResolving}
+                    />
+                  </SimpleGrid>
+                </Stack>
+              );
+            })}
+
+            <Group justify="flex-end">
+              <Button
+                variant="default"
+                onClick={() => handleResolve(resolveAllConflictsByNewest)}
+                loading={isResolving}
+              >
+                Keep Newer for All
+              </Button>
+            </Group>
+          </>
+        )}
+      </Stack>
+    </Modal>
+  );
+}
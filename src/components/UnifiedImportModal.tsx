@@ -1,19 +1,31 @@
 import * as React from 'react';
-import { Modal, Stack, Text, Textarea, Button, Group, Tabs, FileButton, Box, Progress } from '@mantine/core';
+import { Modal, Stack, Text, Textarea, TextInput, Button, Group, Tabs, FileButton, Box, Progress, Checkbox, Badge, Paper } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
-import { IconFileText, IconUpload, IconCheck, IconX } from '@tabler/icons-react';
-import { parseUltimateGuitarText, parseFreeshowText, parseShowFile, parseXMLFile } from '../utils/parsers';
-import { saveSong } from '../utils/appwriteDb';
-import { NoChordWarningModal } from './NoChordWarningModal';
-import { toTitleCase } from '../utils/formatters';
+import { IconFileText, IconUpload, IconCheck, IconX, IconArrowLeft } from '@tabler/icons-react';
+import { FormatError, detectFormat, getImportAccept, getImportFormats, readFormatInput } from '../utils/formatRegistry';
+import { createImportDraft, countChords } from '../utils/importPreview';
+import type { ImportDraft } from '../utils/importPreview';
+import { useStorage } from '../context/StorageContext';
+import { ImportPreview } from './ImportPreview';
+import type { Arrangement, Section } from '../types/song';
 
 interface UnifiedImportModalProps {
   opened: boolean;
   onClose: () => void;
-  onImport: (sections: any[], metadata?: { title?: string; artist?: string }) => void;
+  onImport: (sections: Section[], metadata?: ImportMetadata) => void;
   onBatchComplete?: () => void;
 }
 
+export interface ImportMetadata {
+  title?: string;
+  artist?: string;
+  tags?: string[];
+  key?: string;
+  tempo?: string;
+  arrangements?: Arrangement[];
+  activeArrangementId?: string;
+}
+
 interface ImportResult {
   fileName: string;
   status: 'success' | 'error';
@@ -21,68 +33,81 @@ interface ImportResult {
   songId?: string;
 }
 
+// Where the import is at: choosing what to import, checking a single song,
+// going through the songs of several files, or saving them
+type ImportStep = 'input' | 'preview' | 'review' | 'results';
+
+const toImportMetadata = (draft: ImportDraft): ImportMetadata => ({
+  title: draft.title,
+  artist: draft.artist,
+  tags: draft.tags,
+  key: draft.key || undefined,
+  tempo: draft.tempo || undefined,
+  arrangements: draft.arrangements,
+  activeArrangementId: draft.activeArrangementId
+});
+
+/**
+ * Read a file into a draft for every song in it, or say why it couldn't be read
+ */
+async function readFileDrafts(file: File): Promise<ImportDraft[] | ImportResult> {
+  try {
+    const input = await readFormatInput(file);
+    const format = detectFormat(input);
+    if (!format?.parse) {
+      return { fileName: file.name, status: 'error', message: 'Not a format that can be imported' };
+    }
+    const songs = await format.parse(input);
+    if (songs.length === 0) {
+      return { fileName: file.name, status: 'error', message: 'No songs found in file' };
+    }
+    const fileTitle = file.name.replace(/\.[^/.]+$/, '');
+    return songs.map(song => createImportDraft(song, format, file.name, fileTitle));
+  } catch (error) {
+    console.error(`Error reading ${file.name}:`, error);
+    return {
+      fileName: file.name,
+      status: 'error',
+      message: 'Failed to read file: ' + (error instanceof Error ? error.message : 'Unknown error')
+    };
+  }
+}
+
+// "A, B and C"
+const listNames = (names: string[]) =>
+  names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+
 export function UnifiedImportModal({ opened, onClose, onImport, onBatchComplete }: UnifiedImportModalProps) {
+  const { storage, refreshSongs, syncNow } = useStorage();
   const [importText, setImportText] = React.useState('');
+  const [numberChartKey, setNumberChartKey] = React.useState('');
   const [isLoading, setIsLoading] = React.useState(false);
   const [results, setResults] = React.useState<ImportResult[]>([]);
   const [progress, setProgress] = React.useState(0);
-  const [isBatchMode, setIsBatchMode] = React.useState(false);
-  const [showNoChordWarning, setShowNoChordWarning] = React.useState(false);
-  const [pendingImport, setPendingImport] = React.useState<{
-    sections: any[],
-    metadata?: { title?: string; artist?: string },
-    fileName: string
-  } | null>(null);
+  const [step, setStep] = React.useState<ImportStep>('input');
+  const [drafts, setDrafts] = React.useState<ImportDraft[]>([]);
+  // Files that couldn't be read, listed with the songs to review
+  const [readErrors, setReadErrors] = React.useState<ImportResult[]>([]);
+  // The song opened from the review list
+  const [previewId, setPreviewId] = React.useState<string | null>(null);
 
   // Reset state when modal opens
   React.useEffect(() => {
     if (opened) {
       setImportText('');
+      setNumberChartKey('');
       setResults([]);
       setProgress(0);
       setIsLoading(false);
-      setIsBatchMode(false);
+      setStep('input');
+      setDrafts([]);
+      setReadErrors([]);
+      setPreviewId(null);
     }
   }, [opened]);
 
-  const detectFormat = (text: string): 'ultimate-guitar' | 'freeshow' | 'openlp' => {
-    // Check for Ultimate Guitar format (chords above lyrics)
-    const lines = text.split('\n');
-    let hasChordLine = false;
-    let hasSection = false;
-    let hasInlineChords = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (line.startsWith('[') && line.endsWith(']')) {
-        hasSection = true;
-      }
-      // Check for chord line (typical Ultimate Guitar format)
-      if (/^[A-Ga-g][#mb\d+\s\/]*/.test(line)) {
-        hasChordLine = true;
-      }
-      // Check for inline chords like [G] or [Am] within lyrics (FreeShow format)
-      if (/\[([A-G][#b]?(?:maj|min|m|aug|dim|sus|add|M)?(?:\d+)?(?:\/[A-G][#b]?)?)\]/.test(line)) {
-        hasInlineChords = true;
-      }
-    }
-
-    if (hasSection && hasInlineChords) {
-      return 'freeshow';
-    }
-
-    if (hasSection && hasChordLine) {
-      return 'ultimate-guitar';
-    }
-
-    // Default to FreeShow if it has sections but format is unclear
-    if (hasSection) {
-      return 'freeshow';
-    }
-
-    // Default to Ultimate Guitar for backward compatibility
-    return 'ultimate-guitar';
-  };
+  const updateDraft = (updated: ImportDraft) =>
+    setDrafts(prev => prev.map(draft => (draft.id === updated.id ? updated : draft)));
 
   const handleTextImport = async () => {
     try {
@@ -96,28 +121,26 @@ export function UnifiedImportModal({ opened, onClose, onImport, onBatchComplete
       }
 
       setIsLoading(true);
-      const format = detectFormat(importText);
+      // A key is only entered for number charts, which makes them the format
+      const input = { text: importText, key: numberChartKey.trim() || undefined };
+      const format = detectFormat(input);
+      if (!format?.parse) {
+        throw new FormatError('The text is not in a format that can be imported');
+      }
 
-      let sections: any[] = [];
-      if (format === 'ultimate-guitar') {
-        sections = parseUltimateGuitarText(importText);
-      } else if (format === 'freeshow') {
-        sections = parseFreeshowText(importText);
+      const [parsed] = await format.parse(input);
+      if (!parsed || parsed.sections.length === 0) {
+        throw new FormatError('No sections found in the text');
       }
 
-      onImport(sections);
-      setImportText('');
-      notifications.show({
-        title: 'Success',
-        message: 'Song imported successfully',
-        color: 'green'
-      });
-      onClose();
+      // Check the song before it is imported
+      setDrafts([createImportDraft(parsed, format, 'Pasted text')]);
+      setStep('preview');
     } catch (error) {
       console.error('Failed to import song:', error);
       notifications.show({
         title: 'Error',
-        message: 'Failed to import song',
+        message: error instanceof FormatError ? error.message : 'Failed to import song',
         color: 'red'
       });
     } finally {
@@ -128,198 +151,107 @@ export function UnifiedImportModal({ opened, onClose, onImport, onBatchComplete
   const handleFileImport = async (files: File[]) => {
     if (!files || files.length === 0) return;
 
-    // If only one file is selected, process it as a single import
-    if (files.length === 1) {
-      handleSingleFileImport(files[0]);
+    setIsLoading(true);
+    const newDrafts: ImportDraft[] = [];
+    const newErrors: ImportResult[] = [];
+    for (const file of files) {
+      const read = await readFileDrafts(file);
+      if (Array.isArray(read)) {
+        newDrafts.push(...read);
+      } else {
+        newErrors.push(read);
+      }
+    }
+    setIsLoading(false);
+
+    if (newDrafts.length === 0) {
+      notifications.show({
+        title: 'Error',
+        message: newErrors.length === 1 ? newErrors[0].message : 'None of the files could be imported',
+        color: 'red'
+      });
       return;
     }
 
-    // Multiple files selected - switch to batch mode
-    setIsBatchMode(true);
+    setDrafts(newDrafts);
+    setReadErrors(newErrors);
+    // A single song is checked and opened, several are reviewed and saved together
+    setStep(newDrafts.length === 1 && newErrors.length === 0 ? 'preview' : 'review');
+  };
+
+  const handleAccept = (draft: ImportDraft) => {
+    onImport(draft.sections, toImportMetadata(draft));
+    onClose();
+    notifications.show({
+      title: 'Success',
+      message: `Imported ${draft.title || draft.source} successfully`,
+      color: 'green'
+    });
+  };
+
+  const handleAcceptAll = async () => {
+    const accepted = drafts.filter(draft => draft.accepted && draft.sections.length > 0);
+    setStep('results');
+    setPreviewId(null);
     setIsLoading(true);
-    setResults([]);
-    
-    const fileArray = Array.from(files);
+    setProgress(0);
+
     let importedCount = 0;
-    const newResults: ImportResult[] = [];
+    const newResults: ImportResult[] = [...readErrors];
+    setResults([...newResults]);
 
-    for (const file of fileArray) {
+    for (const [index, draft] of accepted.entries()) {
+      const songTitle = draft.title || 'Untitled Song';
+      // Files holding several songs list each one
+      const resultName = drafts.filter(other => other.source === draft.source).length > 1
+        ? `${draft.source}: ${songTitle}`
+        : draft.source;
       try {
-        // Process the file based on extension
-        const fileExtension = file.name.split('.').pop()?.toLowerCase();
-        
-        if (fileExtension === 'show') {
-          // Read file content
-          const fileText = await file.text();
-          
-          // Parse the show file
-          const parsedShowFile = parseShowFile(fileText);
-          const { sections, title, artist } = parsedShowFile;
-          
-          if (sections.length === 0) {
-            newResults.push({
-              fileName: file.name,
-              status: 'error',
-              message: 'No sections found in file'
-            });
-            continue;
-          }
-          
-          // Save as a new song
-          const newId = await saveSong({
-            title: toTitleCase(title || file.name.replace('.show', '')),
-            artist: artist || '',
-            sections
-          });
-          
-          newResults.push({
-            fileName: file.name,
-            status: 'success',
-            message: 'Imported successfully',
-            songId: newId
-          });
-          
-          importedCount++;
-        } else if (fileExtension === 'xml') {
-          // Read file content
-          const fileText = await file.text();
-          
-          try {
-            // Parse the XML file
-            const parsedXMLFile = parseXMLFile(fileText);
-            const { sections, title, artist, tags } = parsedXMLFile;
-            
-            console.log('XML Import - Parsed file:', { title, artist, tags, sectionCount: sections.length });
-            
-            // Extract themes directly from XML content using regex
-            const themesMatch = fileText.match(/<themes>([\s\S]*?)<\/themes>/);
-            let extractedThemes: string[] = [];
-            
-            if (themesMatch && themesMatch[1]) {
-              const themeMatches = themesMatch[1].match(/<theme>([^<]+)<\/theme>/g);
-              if (themeMatches) {
-                extractedThemes = themeMatches.map(match => {
-                  return match.replace(/<theme>|<\/theme>/g, '').trim();
-                });
-                console.log('XML Import - Directly extracted themes:', extractedThemes);
-              }
-            }
-            
-            if (sections.length === 0) {
-              newResults.push({
-                fileName: file.name,
-                status: 'error',
-                message: 'No sections found in file'
-              });
-              continue;
-            }
-            
-            // Save as a new song with tags - use the extracted themes if available
-            const finalTags = extractedThemes.length > 0 ? extractedThemes : (tags || []);
-            console.log('XML Import - Final tags to save:', finalTags);
-            
-            // Make sure tags are properly formatted as an array of strings
-            // Force conversion to an array of strings and remove any empty values
-            const processedTags = Array.isArray(finalTags) 
-              ? finalTags
-                  .map(tag => String(tag).trim())
-                  .filter(tag => tag.length > 0)
-              : [];
-            console.log('XML Import - Processed tags:', processedTags);
-            
-            const songToSave = {
-              title: title || file.name.replace('.xml', ''),
-              artist: artist || '',
-              sections,
-              tags: processedTags
-            };
-            
-            console.log('XML Import - Saving song with tags:', songToSave.tags);
-            
-            // Debug: Log the exact type and structure of the tags
-            console.log('XML Import - Tags type:', typeof songToSave.tags);
-            console.log('XML Import - Tags is array:', Array.isArray(songToSave.tags));
-            console.log('XML Import - Tags stringified:', JSON.stringify(songToSave.tags));
-            
-            const newId = await saveSong(songToSave);
-            
-            newResults.push({
-              fileName: file.name,
-              status: 'success',
-              message: 'Imported successfully',
-              songId: newId
-            });
-            
-            importedCount++;
-          } catch (error) {
-            console.error(`Error parsing XML file ${file.name}:`, error);
-            newResults.push({
-              fileName: file.name,
-              status: 'error',
-              message: 'Failed to parse XML file: ' + (error instanceof Error ? error.message : 'Unknown error')
-            });
-          }
-        } else {
-          // For other file types
-          const fileText = await file.text();
-          const format = detectFormat(fileText);
-          
-          let sections: any[] = [];
-          if (format === 'ultimate-guitar') {
-            sections = parseUltimateGuitarText(fileText);
-          } else if (format === 'freeshow') {
-            sections = parseFreeshowText(fileText);
-          }
-          
-          if (sections.length === 0) {
-            newResults.push({
-              fileName: file.name,
-              status: 'error',
-              message: 'No sections found in file'
-            });
-            continue;
-          }
-          
-          // Save as a new song
-          const newId = await saveSong({
-            title: file.name.replace(/\.[^/.]+$/, ''),
-            artist: '',
-            sections
-          });
-          
-          newResults.push({
-            fileName: file.name,
-            status: 'success',
-            message: 'Imported successfully',
-            songId: newId
-          });
-          
-          importedCount++;
-        }
+        const newId = await storage.saveSong({
+          title: songTitle,
+          artist: draft.artist,
+          sections: draft.sections,
+          tags: draft.tags,
+          originalKey: draft.key || undefined,
+          tempo: draft.tempo || undefined,
+          arrangements: draft.arrangements,
+          activeArrangementId: draft.activeArrangementId
+        });
+
+        newResults.push({
+          fileName: resultName,
+          status: 'success',
+          message: 'Imported successfully',
+          songId: newId
+        });
+
+        importedCount++;
       } catch (error) {
-        console.error(`Error importing ${file.name}:`, error);
+        console.error(`Error importing ${songTitle} from ${draft.source}:`, error);
         newResults.push({
-          fileName: file.name,
+          fileName: resultName,
           status: 'error',
           message: error instanceof Error ? error.message : 'Unknown error'
         });
       }
-      
+
       // Update progress
-      setProgress(Math.round(((newResults.length) / fileArray.length) * 100));
+      setProgress(Math.round(((index + 1) / accepted.length) * 100));
       setResults([...newResults]);
     }
 
     setIsLoading(false);
-    
+
     // Show notification
     if (importedCount > 0) {
+      await refreshSongs();
+      syncNow();
       notifications.show({
         title: 'Import Complete',
-        message: `Successfully imported ${importedCount} of ${fileArray.length} songs`,
+        message: `Successfully imported ${importedCount} of ${accepted.length} songs`,
         color: 'green'
       });
-      
+
       // Refresh song list if callback provided
       if (onBatchComplete) {
         onBatchComplete();
@@ -333,247 +265,256 @@ export function UnifiedImportModal({ opened, onClose, onImport, onBatchComplete
     }
   };
 
-  const handleSingleFileImport = async (file: File) => {
-    try {
-      setIsLoading(true);
-      
-      // Read the file content as text
-      const fileText = await file.text();
-      
-      let sections: any[] = [];
-      let metadata: { title?: string; artist?: string } | undefined;
-      
-      // Determine the file type based on extension
-      const fileExtension = file.name.split('.').pop()?.toLowerCase();
-      
-      if (fileExtension === 'show') {
-        // Parse FreeShow .show file (JSON format)
-        const parsedShowFile = parseShowFile(fileText);
-        sections = parsedShowFile.sections;
-        
-        // Extract metadata from the show file
-        if (parsedShowFile.title || parsedShowFile.artist) {
-          metadata = {
-            title: parsedShowFile.title ? toTitleCase(parsedShowFile.title) : '',
-            artist: parsedShowFile.artist || ''
-          };
-        }
-      } else if (fileExtension === 'xml') {
-        // Parse XML file
-        const parsedXMLFile = parseXMLFile(fileText);
-        sections = parsedXMLFile.sections;
-        
-        // Extract metadata from the XML file
-        if (parsedXMLFile.title || parsedXMLFile.artist) {
-          metadata = {
-            title: parsedXMLFile.title ? toTitleCase(parsedXMLFile.title) : '',
-            artist: parsedXMLFile.artist || ''
-          };
-        }
-      } else {
-        // For text files, detect the format and parse accordingly
-        const format = detectFormat(fileText);
-        
-        if (format === 'ultimate-guitar') {
-          sections = parseUltimateGuitarText(fileText);
-        } else if (format === 'freeshow') {
-          sections = parseFreeshowText(fileText);
-        }
-      }
-      
-      if (sections.length === 0) {
-        throw new Error('No sections found in the imported file');
-      }
-      
-      // Check if this is an XML file with no chords
-      const isXmlFile = fileExtension === 'xml';
-      const hasNoChords = isXmlFile && sections.every(section => !section.chords || section.chords.length === 0);
-      
-      if (isXmlFile && hasNoChords) {
-        console.log('XML file has no chords, showing warning');
-        // Store the import data and show the warning
-        setPendingImport({ sections, metadata, fileName: file.name });
-        setShowNoChordWarning(true);
-      } else {
-        // Proceed with import directly
-        onImport(sections, metadata);
-        onClose();
-        notifications.show({
-          title: 'Success',
-          message: `Imported ${file.name} successfully`,
-          color: 'green'
-        });
-      }
-    } catch (error) {
-      console.error('Failed to import song file:', error);
-      notifications.show({
-        title: 'Error',
-        message: 'Failed to import song file: ' + (error instanceof Error ? error.message : 'Unknown error'),
-        color: 'red'
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  // Formats named in the instructions: anything not archived can be pasted,
+  // and files are named by their extensions, with plain text ones together
+  const textFormatNames = listNames(getImportFormats().filter(format => !format.binary).map(format => format.name));
+  const fileFormatNames = listNames([
+    ...getImportFormats()
+      .filter(format => !format.extensions.includes('.txt'))
+      .map(format => `${format.name} (${format.extensions.join(', ')})`),
+    'text (.txt)'
+  ]);
 
   const handleClose = () => {
     if (!isLoading) {
       onClose();
-      if (isBatchMode && results.some(r => r.status === 'success') && onBatchComplete) {
+      if (step === 'results' && results.some(r => r.status === 'success') && onBatchComplete) {
         onBatchComplete();
       }
     }
   };
 
+  const previewDraft = step === 'preview' ? drafts[0] : drafts.find(draft => draft.id === previewId);
+  const acceptedCount = drafts.filter(draft => draft.accepted && draft.sections.length > 0).length;
 
-  return (
-    <>
-      <Modal
-        opened={opened}
-        onClose={handleClose}
-        title="Import Song"
-        size="lg"
-        onKeyDown={(e) => {
-          if (e.ctrlKey && e.key === 'Enter') {
-            e.preventDefault();
-            if (!isLoading) {
-              if (importText.trim()) {
-                handleTextImport();
-              }
-            }
-          }
-        }}
-      >
-      {!isBatchMode ? (
-        <Tabs defaultValue="text">
-          <Tabs.List>
-            <Tabs.Tab value="text" leftSection={<IconFileText size="0.8rem" />}>
-              Text
-            </Tabs.Tab>
-            <Tabs.Tab value="file" leftSection={<IconUpload size="0.8rem" />}>
-              File
-            </Tabs.Tab>
-          </Tabs.List>
-
-          <Tabs.Panel value="text" pt="md">
-            <Stack>
-              <Text size="sm" c="dimmed">
-                Paste your song text below. Supports Ultimate Guitar and FreeShow formats.
-              </Text>
-              <Textarea
-                value={importText}
-                onChange={(e) => setImportText(e.target.value)}
-                placeholder="Paste song text here..."
-                minRows={10}
-                autosize
-              />
-              <Group justify="flex-end">
-                <Button variant="light" onClick={onClose} title="Cancel import operation">
-                  Cancel
-                </Button>
-                <Button onClick={handleTextImport} loading={isLoading} title="Import songs from text">
-                  Import
-                </Button>
-              </Group>
-            </Stack>
-          </Tabs.Panel>
-
-          <Tabs.Panel value="file" pt="md">
-            <Stack>
-              <Text size="sm" c="dimmed">
-                Upload song files. Supports .show (FreeShow), .xml, .txt, .cho, and .pro files.
-                Select multiple files to batch import.
-              </Text>
-              <Box py="md" style={{ display: 'flex', justifyContent: 'center' }}>
-                <FileButton onChange={handleFileImport} accept=".show,.xml,.txt,.cho,.pro" multiple>
-                  {(props) => <Button {...props} loading={isLoading} title="Choose song files to import">Select File(s)</Button>}
-                </FileButton>
-              </Box>
-              <Group justify="flex-end">
-                <Button variant="light" onClick={onClose} title="Cancel import operation">
-                  Cancel
-                </Button>
-              </Group>
-            </Stack>
-          </Tabs.Panel>
-        </Tabs>
-      ) : (
+  const renderInput = () => (
+    <Tabs defaultValue="text">
+      <Tabs.List>
+        <Tabs.Tab value="text" leftSection={<IconFileText size="0.8rem" />}>
+          Text
+        </Tabs.Tab>
+        <Tabs.Tab value="file" leftSection={<IconUpload size="0.8rem" />}>
+          File
+        </Tabs.Tab>
+      </Tabs.List>
+
+      <Tabs.Panel value="text" pt="md">
         <Stack>
           <Text size="sm" c="dimmed">
-            Importing multiple files. Please wait while the files are processed.
+            Paste your song text below. Supports {textFormatNames} formats.
           </Text>
-          
-          {progress > 0 && (
-            <Progress 
-              value={progress} 
-              size="md" 
-              striped={isLoading}
-              animated={isLoading}
-              color={progress === 100 ? 'green' : 'blue'}
-            />
-          )}
-          
-          {results.length > 0 && (
-            <Stack gap="xs">
-              <Text fw={500}>Import Results:</Text>
-              {results.map((result, index) => (
-                <Group key={index} justify="space-between" p="xs" style={{ 
-                  backgroundColor: result.status === 'success' ? 'rgba(0, 180, 0, 0.1)' : 'rgba(180, 0, 0, 0.1)',
-                  borderRadius: '4px'
-                }}>
-                  <Group>
-                    {result.status === 'success' ? (
-                      <IconCheck size={16} color="green" />
-                    ) : (
-                      <IconX size={16} color="red" />
-                    )}
-                    <Text size="sm">{result.fileName}</Text>
-                  </Group>
-                  <Text size="sm" c={result.status === 'success' ? 'green' : 'red'}>
-                    {result.message}
-                  </Text>
-                </Group>
-              ))}
-            </Stack>
-          )}
-          
+          <Textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder="Paste song text here..."
+            minRows={10}
+            autosize
+          />
+          <TextInput
+            label="Number chart key"
+            description="For Nashville number or Roman numeral charts: the key to turn the numbers into chords in"
+            placeholder="e.g. G"
+            value={numberChartKey}
+            onChange={(e) => setNumberChartKey(e.currentTarget.value)}
+            w={{ base: '100%', sm: 320 }}
+          />
+          <Group justify="flex-end">
+            <Button variant="light" onClick={onClose} title="Cancel import operation">
+              Cancel
+            </Button>
+            <Button onClick={handleTextImport} loading={isLoading} title="Check the song before importing it">
+              Preview
+            </Button>
+          </Group>
+        </Stack>
+      </Tabs.Panel>
+
+      <Tabs.Panel value="file" pt="md">
+        <Stack>
+          <Text size="sm" c="dimmed">
+            Upload song files. Supports {fileFormatNames} files.
+            Select multiple files to batch import.
+          </Text>
+          <Box py="md" style={{ display: 'flex', justifyContent: 'center' }}>
+            <FileButton onChange={handleFileImport} accept={getImportAccept()} multiple>
+              {(props) => <Button {...props} loading={isLoading} title="Choose song files to import">Select File(s)</Button>}
+            </FileButton>
+          </Box>
           <Group justify="flex-end">
-            <Button
-              variant="light"
-              onClick={handleClose}
-              disabled={isLoading}
-            >
-              {results.some(r => r.status === 'success') ? 'Done' : 'Cancel'}
+            <Button variant="light" onClick={onClose} title="Cancel import operation">
+              Cancel
             </Button>
           </Group>
         </Stack>
+      </Tabs.Panel>
+    </Tabs>
+  );
+
+  const renderPreview = (draft: ImportDraft) => (
+    <Stack>
+      <ImportPreview draft={draft} onChange={updateDraft} />
+      {step === 'preview' ? (
+        <Group justify="flex-end">
+          <Button variant="light" leftSection={<IconArrowLeft size={16} />} onClick={() => setStep('input')}>
+            Back
+          </Button>
+          <Button onClick={() => handleAccept(draft)} disabled={draft.sections.length === 0}>
+            Import
+          </Button>
+        </Group>
+      ) : (
+        <Group justify="space-between">
+          <Checkbox
+            label="Include in import"
+            checked={draft.accepted}
+            disabled={draft.sections.length === 0}
+            onChange={(e) => updateDraft({ ...draft, accepted: e.currentTarget.checked })}
+          />
+          <Button variant="light" leftSection={<IconArrowLeft size={16} />} onClick={() => setPreviewId(null)}>
+            Back to List
+          </Button>
+        </Group>
       )}
-      </Modal>
-      
-      {/* No Chord Warning Modal */}
-      <NoChordWarningModal
-        opened={showNoChordWarning}
-        onClose={() => setShowNoChordWarning(false)}
-        songTitle={pendingImport?.metadata?.title || 'Untitled Song'}
-        onCancel={() => {
-          setShowNoChordWarning(false);
-          setPendingImport(null);
-        }}
-        onContinue={() => {
-          if (pendingImport) {
-            // Proceed with the import
-            onImport(pendingImport.sections, pendingImport.metadata);
-            notifications.show({
-              title: 'Success',
-              message: `Imported ${pendingImport.fileName} successfully`,
-              color: 'green'
-            });
-            onClose();
-            setShowNoChordWarning(false);
-            setPendingImport(null);
+    </Stack>
+  );
+
+  const renderReview = () => (
+    <Stack>
+      <Text size="sm" c="dimmed">
+        Check the songs found in the files. Open one to correct its details or sections, untick any you don't want, then accept them all.
+      </Text>
+
+      {readErrors.map((result, index) => (
+        <Group key={`error-${index}`} justify="space-between" p="xs" style={{
+          backgroundColor: 'rgba(180, 0, 0, 0.1)',
+          borderRadius: '4px'
+        }}>
+          <Group>
+            <IconX size={16} color="red" />
+            <Text size="sm">{result.fileName}</Text>
+          </Group>
+          <Text size="sm" c="red">{result.message}</Text>
+        </Group>
+      ))}
+
+      {drafts.map(draft => {
+        const chordCount = countChords(draft);
+        return (
+          <Paper key={draft.id} withBorder p="xs">
+            <Group justify="space-between" wrap="nowrap">
+              <Group gap="sm" wrap="nowrap" style={{ minWidth: 0 }}>
+                <Checkbox
+                  checked={draft.accepted}
+                  disabled={draft.sections.length === 0}
+                  onChange={(e) => updateDraft({ ...draft, accepted: e.currentTarget.checked })}
+                  aria-label={`Import ${draft.title}`}
+                />
+                <Stack gap={0} style={{ minWidth: 0 }}>
+                  <Text size="sm" fw={500} truncate>
+                    {draft.title || 'Untitled Song'}{draft.artist ? ` - ${draft.artist}` : ''}
+                  </Text>
+                  <Text size="xs" c="dimmed" truncate>{draft.source}</Text>
+                </Stack>
+              </Group>
+              <Group gap="xs" wrap="nowrap">
+                <Badge variant="light">{draft.formatName}</Badge>
+                <Badge variant="light" color={draft.sections.length === 0 ? 'red' : 'gray'}>
+                  {draft.sections.length} sections
+                </Badge>
+                {draft.sections.length > 0 && chordCount === 0 && (
+                  <Badge variant="light" color="yellow">No chords</Badge>
+                )}
+                <Button size="xs" variant="light" onClick={() => setPreviewId(draft.id)}>
+                  Preview
+                </Button>
+              </Group>
+            </Group>
+          </Paper>
+        );
+      })}
+
+      <Group justify="flex-end">
+        <Button variant="light" leftSection={<IconArrowLeft size={16} />} onClick={() => setStep('input')}>
+          Back
+        </Button>
+        <Button onClick={handleAcceptAll} disabled={acceptedCount === 0}>
+          Accept All ({acceptedCount})
+        </Button>
+      </Group>
+    </Stack>
+  );
+
+  const renderResults = () => (
+    <Stack>
+      <Text size="sm" c="dimmed">
+        {isLoading ? 'Importing the songs. Please wait while they are saved.' : 'Import finished.'}
+      </Text>
+
+      {progress > 0 && (
+        <Progress
+          value={progress}
+          size="md"
+          striped={isLoading}
+          animated={isLoading}
+          color={progress === 100 ? 'green' : 'blue'}
+        />
+      )}
+
+      {results.length > 0 && (
+        <Stack gap="xs">
+          <Text fw={500}>Import Results:</Text>
+          {results.map((result, index) => (
+            <Group key={index} justify="space-between" p="xs" style={{
+              backgroundColor: result.status === 'success' ? 'rgba(0, 180, 0, 0.1)' : 'rgba(180, 0, 0, 0.1)',
+              borderRadius: '4px'
+            }}>
+              <Group>
+                {result.status === 'success' ? (
+                  <IconCheck size={16} color="green" />
+                ) : (
+                  <IconX size={16} color="red" />
+                )}
+                <Text size="sm">{result.fileName}</Text>
+              </Group>
+              <Text size="sm" c={result.status === 'success' ? 'green' : 'red'}>
+                {result.message}
+              </Text>
+            </Group>
+          ))}
+        </Stack>
+      )}
+
+      <Group justify="flex-end">
+        <Button
+          variant="light"
+          onClick={handleClose}
+          disabled={isLoading}
+        >
+          {results.some(r => r.status === 'success') ? 'Done' : 'Cancel'}
+        </Button>
+      </Group>
+    </Stack>
+  );
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={handleClose}
+      title={step === 'input' || step === 'results' ? 'Import Song' : 'Check Import'}
+      size={step === 'input' || step === 'results' ? 'lg' : 'xl'}
+      onKeyDown={(e) => {
+        if (e.ctrlKey && e.key === 'Enter') {
+          e.preventDefault();
+          if (!isLoading && step === 'input' && importText.trim()) {
+            handleTextImport();
           }
-        }}
-      />
-    </>
+        }
+      }}
+    >
+      {step === 'input' && renderInput()}
+      {(step === 'preview' || step === 'review') && previewDraft && renderPreview(previewDraft)}
+      {step === 'review' && !previewDraft && renderReview()}
+      {step === 'results' && renderResults()}
+    </Modal>
   );
 }
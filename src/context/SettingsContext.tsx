@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState } from 'react';
 
-interface Settings {
+export interface Settings {
   colors: {
     verse: string;
     chorus: string;
@@ -11,6 +11,7 @@ interface Settings {
     outro: string;
     'pre-chorus': string;
   };
+  trashRetentionDays?: number; // Days before trashed songs are purged, 0 for never
 }
 
 interface SettingsContextType {
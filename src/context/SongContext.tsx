@@ -1,6 +1,6 @@
 import { createContext, useContext, useState } from 'react';
 import type { ReactNode } from 'react';
-import { transposeChord, detectKey } from '../utils/transpose';
+import { detectKey, getTransposedKey, parseTransposeInput, transposeSections } from '../utils/transpose';
 
 import type { Song, Section } from '../types/song';
 
@@ -167,39 +167,12 @@ export function SongProvider({ children }: { children: ReactNode }) {
       return;
     }
 
-    // Calculate semitones to transpose
-    let semitones = 0;
-    if (transposeValue.startsWith('+') || transposeValue.startsWith('-')) {
-      semitones = parseInt(transposeValue, 10);
-    } else {
-      // It's a key name, calculate difference from original key
-      const fromKey = song.originalKey || 'C';
-      const toKey = transposeValue.trim();
-      
-      // Find index in chromatic scale
-      const notes = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-      const fromIndex = notes.indexOf(fromKey);
-      const toIndex = notes.indexOf(toKey);
-      
-      if (fromIndex !== -1 && toIndex !== -1) {
-        semitones = (toIndex - fromIndex + 12) % 12;
-      }
-    }
+    // Calculate semitones to transpose from the original key
+    const fromKey = song.originalKey || 'C';
+    const semitones = parseTransposeInput(transposeValue, fromKey);
 
-    // Apply transposition to all chords
-    const transposedSections = song.sections.map(section => {
-      const transposedChords = section.chords.map(chord => {
-        return {
-          ...chord,
-          text: transposeChord(chord.text, semitones)
-        };
-      });
-      
-      return {
-        ...section,
-        chords: transposedChords
-      };
-    });
+    // Apply transposition to all chords, spelled for the new key
+    const transposedSections = transposeSections(song.sections, semitones, getTransposedKey(transposeValue, fromKey));
 
     updateSong(id, { sections: transposedSections });
   };
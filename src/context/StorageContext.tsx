@@ -1,59 +1,272 @@
-import { createContext, useContext, useState, useEffect } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import type { ReactNode } from 'react';
-import type { Song } from '../types/song';
+import type { Song, Setlist, SongRevision } from '../types/song';
 import { StorageManager } from '../utils/storageManager';
-import { StorageMode } from '../utils/storageInterface';
+import { StorageMode, SongConflictError } from '../utils/storageInterface';
+import type { StorageService, SongUpdateOptions } from '../utils/storageInterface';
+import type { SyncState } from '../utils/syncEngine';
+import { getNewerSide } from '../utils/syncEngine';
 import { useAuth } from './AuthContext';
+import { useSettings } from './SettingsContext';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../utils/trash';
+import { SongSearchIndex } from '../utils/searchIndex';
+import { mergeTagColors } from '../utils/backup';
+import type { Backup, RestoreMode, RestoreReport } from '../utils/backup';
+import type { ImportReport } from '../utils/importValidation';
+import { getTagColors, saveTagColors } from '../utils/tagColors';
+import { ValidationError } from '../utils/validation';
+import { config, subscribeToDocuments } from '../utils/appwrite';
 import { notifications } from '@mantine/notifications';
 
+// A song changed on another device: the new version, or null when it was
+// deleted there
+export interface RemoteSongChange {
+  id: string;
+  song: Song | null;
+}
+
+type RemoteSongListener = (change: RemoteSongChange) => void;
+
 interface StorageContextType {
+  // Direct access for bulk imports, which report their own progress and
+  // call refreshSongs and syncNow when done
+  storage: StorageService;
   songs: Song[];
+  // Full-text index over songs, kept up to date with songs
+  searchIndex: SongSearchIndex;
   isLoading: boolean;
   storageMode: StorageMode;
   saveSong: (song: Omit<Song, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string>;
-  updateSong: (song: Song) => Promise<void>;
+  // Rejects with a SongConflictError, without a notification, when the song
+  // changed since expectedUpdatedAt so the caller can merge
+  updateSong: (song: Song, options?: SongUpdateOptions) => Promise<Song>;
   deleteSong: (id: string) => Promise<void>;
+  mergeSongs: (merged: Song, duplicateIds: string[]) => Promise<void>;
+  // Trash
+  trashedSongs: Song[];
+  restoreSong: (id: string) => Promise<void>;
+  purgeSongs: (ids: string[]) => Promise<void>;
   getSong: (id: string) => Promise<Song | null>;
+  getSongRevisions: (songId: string) => Promise<SongRevision[]>;
   refreshSongs: () => Promise<void>;
   exportData: () => Promise<string>;
-  importData: (json: string) => Promise<void>;
+  importData: (json: string) => Promise<ImportReport>;
   clearData: () => Promise<void>;
-  // Migration functions
-  hasLocalData: () => Promise<boolean>;
-  migrateLocalToCloud: () => Promise<{ success: number; failed: number }>;
+  // Put a backup's songs, setlists, settings and tag colors into the library
+  restoreBackup: (backup: Backup, mode: RestoreMode) => Promise<RestoreReport>;
+  // Setlists
+  setlists: Setlist[];
+  saveSetlist: (setlist: Omit<Setlist, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string>;
+  updateSetlist: (setlist: Setlist) => Promise<void>;
+  deleteSetlist: (id: string) => Promise<void>;
+  getSetlist: (id: string) => Promise<Setlist | null>;
+  refreshSetlists: () => Promise<void>;
+  // Sync
+  syncState: SyncState;
+  syncNow: () => Promise<void>;
+  resolveConflict: (conflictId: string, keep: 'local' | 'remote') => Promise<void>;
+  resolveAllConflictsByNewest: () => Promise<void>;
+  // Live updates
+  subscribeToRemoteSongChanges: (listener: RemoteSongListener) => () => void;
 }
 
+// A failed save, with what the store refused when the song didn't pass validation
+const describeSaveError = (error: unknown, message: string) =>
+  error instanceof ValidationError && error.details?.length ? `${message}: ${error.details.join(', ')}` : message;
+
 const StorageContext = createContext<StorageContextType | undefined>(undefined);
 
 export function StorageProvider({ children }: { children: ReactNode }) {
-  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { settings, updateSettings } = useSettings();
   const [songs, setSongs] = useState<Song[]>([]);
+  const [trashedSongs, setTrashedSongs] = useState<Song[]>([]);
+  const [setlists, setSetlists] = useState<Setlist[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [storageManager] = useState(() => new StorageManager());
+  const [searchIndex] = useState(() => new SongSearchIndex());
+  const [remoteSongListeners] = useState(() => new Set<RemoteSongListener>());
+  const [syncState, setSyncState] = useState<SyncState>(() => storageManager.getSyncState());
 
   // Determine storage mode based on authentication
   const storageMode = isAuthenticated ? StorageMode.CLOUD : StorageMode.LOCAL;
+  const userId = user ? user.$id : null;
+
+  useEffect(() => storageManager.subscribeToSync(setSyncState), [storageManager]);
+
+  // Index songs before they are shown, so searches run against the songs on
+  // screen. Only songs saved, changed by a sync or removed since the last
+  // update are re-indexed.
+  const applySongs = (allSongs: Song[]) => {
+    searchIndex.sync(allSongs);
+    setSongs(allSongs);
+  };
 
-  // Switch storage mode when authentication changes
+  // Move songs left in the database of older versions of the app into the
+  // local store, and say what was moved
+  const migrateLegacySongs = () => {
+    storageManager.migrateLegacyDatabase()
+      .then(async report => {
+        if (!report) return;
+        if (report.moved > 0) {
+          const allSongs = await storageManager.getAllSongs();
+          searchIndex.sync(allSongs);
+          setSongs(allSongs);
+          notifications.show({
+            title: 'Songs moved',
+            message: `Moved ${report.moved} ${report.moved === 1 ? 'song' : 'songs'} saved by an older version of SongBuilder`,
+            color: 'green'
+          });
+        }
+        if (report.invalid.length > 0) {
+          notifications.show({
+            title: 'Some songs could not be moved',
+            message: `${report.invalid.map(problem => problem.title || problem.id).join(', ')} could not be read from the older version's storage`,
+            color: 'orange',
+            autoClose: false
+          });
+        }
+      })
+      .catch(error => console.error('Failed to migrate legacy songs:', error));
+  };
+
+  // Switch to the local database of whoever is logged in, and the storage
+  // mode, when authentication changes. Songs always load from the local
+  // store; when logged in, sync now, whenever the connection comes back, and
+  // every minute. Changes other devices make are applied as they happen, one
+  // record at a time, instead of waiting for the next full sync.
   useEffect(() => {
-    if (!authLoading) {
-      storageManager.setMode(storageMode);
-      // Only refresh songs if we're not trying to use cloud storage without auth
-      if (storageMode === StorageMode.LOCAL || isAuthenticated) {
+    if (authLoading) return;
+
+    let active = true;
+    let stopSyncing: (() => void) | undefined;
+
+    const startSyncing = () => {
+      runSync();
+      const handleOffline = () => {
+        storageManager.refreshSyncState();
+      };
+      const interval = window.setInterval(runSync, 60000);
+      window.addEventListener('online', runSync);
+      window.addEventListener('offline', handleOffline);
+      const unsubscribe = subscribeToDocuments([config.songsCollectionId, config.setlistsCollectionId], change => {
+        const kind = change.collectionId === config.songsCollectionId ? 'song' : 'setlist';
+        storageManager.pullRecord(kind, change.documentId)
+          .then(async recordChanged => {
+            if (!recordChanged) return;
+            if (kind === 'song') {
+              await applyRemoteSongChange(change.documentId);
+            } else {
+              await refreshSetlists();
+            }
+          })
+          .catch(error => console.error('Failed to apply live update:', error));
+      });
+      return () => {
+        unsubscribe();
+        window.clearInterval(interval);
+        window.removeEventListener('online', runSync);
+        window.removeEventListener('offline', handleOffline);
+      };
+    };
+
+    storageManager.setUser(userId)
+      .then(() => {
+        // Auth changed again while switching; the next run takes over
+        if (!active) return;
+
+        storageManager.setMode(storageMode);
+        storageManager.setRevisionAuthor(user ? user.name || user.email : '');
+        migrateLegacySongs();
+        storageManager.purgeExpiredTrash(settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS)
+          .then(purged => {
+            if (purged > 0) reloadFromStore();
+          })
+          .catch(error => console.error('Failed to empty expired trash:', error));
         refreshSongs();
-      } else {
-        // Clear songs when switching to unauthenticated mode
-        setSongs([]);
-        setIsLoading(false);
-      }
+        refreshSetlists();
+        if (storageMode === StorageMode.CLOUD) {
+          stopSyncing = startSyncing();
+        }
+      })
+      .catch(error => {
+        console.error('Failed to switch local database:', error);
+        notifications.show({
+          title: 'Error',
+          message: 'Failed to load your songs on this device',
+          color: 'red'
+        });
+      });
+
+    return () => {
+      active = false;
+      stopSyncing?.();
+    };
+  }, [userId, authLoading, storageMode]);
+
+  // Patch one song changed elsewhere into the song lists and search index,
+  // and tell anyone editing it
+  const applyRemoteSongChange = async (id: string) => {
+    const [song, allTrashedSongs] = await Promise.all([
+      storageManager.getSong(id),
+      storageManager.getTrashedSongs()
+    ]);
+
+    if (song) {
+      searchIndex.updateSong(song);
+      setSongs(prev => prev.some(existing => existing.id === id)
+        ? prev.map(existing => existing.id === id ? song : existing)
+        : [...prev, song]);
+    } else {
+      searchIndex.removeSong(id);
+      setSongs(prev => prev.filter(existing => existing.id !== id));
     }
-  }, [isAuthenticated, authLoading, storageMode]);
+    setTrashedSongs(allTrashedSongs);
+    remoteSongListeners.forEach(listener => listener({ id, song }));
+  };
+
+  const subscribeToRemoteSongChanges = useCallback((listener: RemoteSongListener) => {
+    remoteSongListeners.add(listener);
+    return () => {
+      remoteSongListeners.delete(listener);
+    };
+  }, [remoteSongListeners]);
+
+  // Reload songs and setlists without the loading state, after a background
+  // sync has changed them
+  const reloadFromStore = async () => {
+    try {
+      const [allSongs, allTrashedSongs, allSetlists] = await Promise.all([
+        storageManager.getAllSongs(),
+        storageManager.getTrashedSongs(),
+        storageManager.getAllSetlists()
+      ]);
+      applySongs(allSongs);
+      setTrashedSongs(allTrashedSongs);
+      setSetlists(allSetlists.sort((a, b) => (b.date || '').localeCompare(a.date || '')));
+    } catch (error) {
+      console.error('Failed to reload after sync:', error);
+    }
+  };
+
+  // Push and pull in the background. Failures are shown by the sync status
+  // rather than interrupting the user.
+  const runSync = async () => {
+    const recordsChanged = await storageManager.sync();
+    if (recordsChanged) {
+      await reloadFromStore();
+    }
+  };
 
   const refreshSongs = async () => {
     try {
       setIsLoading(true);
-      const allSongs = await storageManager.getAllSongs();
-      setSongs(allSongs);
+      const [allSongs, allTrashedSongs] = await Promise.all([
+        storageManager.getAllSongs(),
+        storageManager.getTrashedSongs()
+      ]);
+      applySongs(allSongs);
+      setTrashedSongs(allTrashedSongs);
     } catch (error) {
       console.error('Failed to load songs:', error);
       notifications.show({
@@ -70,10 +283,11 @@ export function StorageProvider({ children }: { children: ReactNode }) {
     try {
       const id = await storageManager.saveSong(song);
       await refreshSongs(); // Refresh to show new song
+      runSync();
       
       notifications.show({
         title: 'Success',
-        message: `Song saved ${storageMode === StorageMode.CLOUD ? 'to cloud' : 'locally'}`,
+        message: storageMode === StorageMode.CLOUD ? 'Song saved' : 'Song saved locally',
         color: 'green'
       });
       
@@ -82,28 +296,34 @@ export function StorageProvider({ children }: { children: ReactNode }) {
       console.error('Failed to save song:', error);
       notifications.show({
         title: 'Error',
-        message: 'Failed to save song',
+        message: describeSaveError(error, 'Failed to save song'),
         color: 'red'
       });
       throw error;
     }
   };
 
-  const updateSong = async (song: Song): Promise<void> => {
+  const updateSong = async (song: Song, options?: SongUpdateOptions): Promise<Song> => {
     try {
-      await storageManager.updateSong(song);
+      const updatedSong = await storageManager.updateSong(song, options);
       await refreshSongs(); // Refresh to show updated song
+      runSync();
       
       notifications.show({
         title: 'Success',
         message: 'Song updated successfully',
         color: 'green'
       });
+
+      return updatedSong;
     } catch (error) {
+      // Left for the caller to merge
+      if (error instanceof SongConflictError) throw error;
+
       console.error('Failed to update song:', error);
       notifications.show({
         title: 'Error',
-        message: 'Failed to update song',
+        message: describeSaveError(error, 'Failed to update song'),
         color: 'red'
       });
       throw error;
@@ -114,10 +334,11 @@ export function StorageProvider({ children }: { children: ReactNode }) {
     try {
       await storageManager.deleteSong(id);
       await refreshSongs(); // Refresh to remove deleted song
+      runSync();
       
       notifications.show({
         title: 'Success',
-        message: 'Song deleted successfully',
+        message: 'Song moved to trash',
         color: 'green'
       });
     } catch (error) {
@@ -131,6 +352,92 @@ export function StorageProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Merge copies of a song into one: save the merged song over the copy
+  // being kept, point setlists at it instead of the other copies, then move
+  // the other copies to the trash
+  const mergeSongs = async (merged: Song, duplicateIds: string[]): Promise<void> => {
+    try {
+      await storageManager.updateSong(merged);
+
+      const duplicates = new Set(duplicateIds);
+      for (const setlist of await storageManager.getAllSetlists()) {
+        if (!setlist.entries.some(entry => duplicates.has(entry.songId))) continue;
+        await storageManager.updateSetlist({
+          ...setlist,
+          entries: setlist.entries.map(entry => duplicates.has(entry.songId) ? { ...entry, songId: merged.id } : entry)
+        });
+      }
+
+      for (const id of duplicateIds) {
+        await storageManager.deleteSong(id);
+      }
+      await refreshSongs();
+      await refreshSetlists();
+      runSync();
+
+      notifications.show({
+        title: 'Success',
+        message: `Merged ${duplicateIds.length + 1} copies of ${merged.title}`,
+        color: 'green'
+      });
+    } catch (error) {
+      console.error('Failed to merge songs:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to merge songs',
+        color: 'red'
+      });
+      throw error;
+    }
+  };
+
+  const restoreSong = async (id: string): Promise<void> => {
+    try {
+      await storageManager.restoreSong(id);
+      await refreshSongs();
+      runSync();
+
+      notifications.show({
+        title: 'Success',
+        message: 'Song restored',
+        color: 'green'
+      });
+    } catch (error) {
+      console.error('Failed to restore song:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to restore song',
+        color: 'red'
+      });
+      throw error;
+    }
+  };
+
+  // Delete songs in the trash for good
+  const purgeSongs = async (ids: string[]): Promise<void> => {
+    try {
+      for (const id of ids) {
+        await storageManager.purgeSong(id);
+      }
+      await refreshSongs();
+      runSync();
+
+      notifications.show({
+        title: 'Success',
+        message: ids.length === 1 ? 'Song deleted permanently' : `${ids.length} songs deleted permanently`,
+        color: 'green'
+      });
+    } catch (error) {
+      console.error('Failed to purge songs:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to delete songs permanently',
+        color: 'red'
+      });
+      throw error;
+    }
+  };
+
   const getSong = async (id: string): Promise<Song | null> => {
     try {
       return await storageManager.getSong(id);
@@ -140,20 +447,31 @@ export function StorageProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const getSongRevisions = async (songId: string): Promise<SongRevision[]> => {
+    try {
+      return await storageManager.getSongRevisions(songId);
+    } catch (error) {
+      console.error('Failed to get song revisions:', error);
+      return [];
+    }
+  };
+
   const exportData = async (): Promise<string> => {
     return storageManager.exportDB();
   };
 
-  const importData = async (json: string): Promise<void> => {
+  const importData = async (json: string): Promise<ImportReport> => {
     try {
-      await storageManager.importDB(json);
+      const report = await storageManager.importDB(json);
       await refreshSongs();
+      runSync();
       
       notifications.show({
         title: 'Success',
-        message: 'Data imported successfully',
-        color: 'green'
+        message: `Imported ${report.imported} songs` + (report.rejected.length ? `, ${report.rejected.length} left out` : ''),
+        color: report.rejected.length ? 'yellow' : 'green'
       });
+      return report;
     } catch (error) {
       console.error('Failed to import data:', error);
       notifications.show({
@@ -165,14 +483,48 @@ export function StorageProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const restoreBackup = async (backup: Backup, mode: RestoreMode): Promise<RestoreReport> => {
+    try {
+      const report = await storageManager.restoreBackup(backup.songs, backup.setlists, mode);
+      // Skipping keeps what is already set up here, apart from colors for
+      // tags that don't have one yet
+      if (backup.settings && mode !== 'skip') {
+        updateSettings(backup.settings);
+      }
+      saveTagColors(mergeTagColors(getTagColors(), backup.tagColors, mode));
+
+      await refreshSongs();
+      await refreshSetlists();
+      runSync();
+
+      notifications.show({
+        title: 'Backup Restored',
+        message: `${report.added} songs added, ${report.updated} updated` +
+          (report.skipped ? `, ${report.skipped} already here` : '') +
+          (report.removed ? `, ${report.removed} moved to the trash` : ''),
+        color: 'green'
+      });
+      return report;
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to restore backup',
+        color: 'red'
+      });
+      throw error;
+    }
+  };
+
   const clearData = async (): Promise<void> => {
     try {
       await storageManager.clearDatabase();
       await refreshSongs();
+      runSync();
       
       notifications.show({
         title: 'Success',
-        message: 'All data cleared',
+        message: 'All songs moved to trash',
         color: 'green'
       });
     } catch (error) {
@@ -186,60 +538,182 @@ export function StorageProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const hasLocalData = async (): Promise<boolean> => {
-    return storageManager.hasLocalData();
+  const refreshSetlists = async () => {
+    try {
+      const allSetlists = await storageManager.getAllSetlists();
+      // Most recent service first
+      setSetlists(allSetlists.sort((a, b) => (b.date || '').localeCompare(a.date || '')));
+    } catch (error) {
+      console.error('Failed to load setlists:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to load setlists',
+        color: 'red'
+      });
+    }
   };
 
-  const migrateLocalToCloud = async (): Promise<{ success: number; failed: number }> => {
+  const saveSetlist = async (setlist: Omit<Setlist, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
     try {
-      const result = await storageManager.migrateLocalToCloud();
-      
-      if (result.success > 0) {
-        await refreshSongs(); // Refresh to show migrated songs
-        
-        notifications.show({
-          title: 'Migration Complete',
-          message: `Successfully migrated ${result.success} songs to cloud storage`,
-          color: 'green'
-        });
+      const id = await storageManager.saveSetlist(setlist);
+      await refreshSetlists();
+      runSync();
+
+      notifications.show({
+        title: 'Success',
+        message: storageMode === StorageMode.CLOUD ? 'Setlist saved' : 'Setlist saved locally',
+        color: 'green'
+      });
+
+      return id;
+    } catch (error) {
+      console.error('Failed to save setlist:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to save setlist',
+        color: 'red'
+      });
+      throw error;
+    }
+  };
+
+  const updateSetlist = async (setlist: Setlist): Promise<void> => {
+    try {
+      await storageManager.updateSetlist(setlist);
+      await refreshSetlists();
+      runSync();
+
+      notifications.show({
+        title: 'Success',
+        message: 'Setlist updated successfully',
+        color: 'green'
+      });
+    } catch (error) {
+      console.error('Failed to update setlist:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to update setlist',
+        color: 'red'
+      });
+      throw error;
+    }
+  };
+
+  const deleteSetlist = async (id: string): Promise<void> => {
+    try {
+      await storageManager.deleteSetlist(id);
+      await refreshSetlists();
+      runSync();
+
+      notifications.show({
+        title: 'Success',
+        message: 'Setlist deleted successfully',
+        color: 'green'
+      });
+    } catch (error) {
+      console.error('Failed to delete setlist:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to delete setlist',
+        color: 'red'
+      });
+      throw error;
+    }
+  };
+
+  // Stable, so pages can load a setlist from an effect without reloading it
+  // (and losing unsaved edits) every time the provider renders
+  const getSetlist = useCallback(async (id: string): Promise<Setlist | null> => {
+    try {
+      return await storageManager.getSetlist(id);
+    } catch (error) {
+      console.error('Failed to get setlist:', error);
+      return null;
+    }
+  }, [storageManager]);
+
+  const syncNow = async (): Promise<void> => {
+    await runSync();
+    const { status, error } = storageManager.getSyncState();
+    if (status === 'error') {
+      notifications.show({
+        title: 'Sync Failed',
+        message: error || 'Could not reach the cloud',
+        color: 'red'
+      });
+    }
+  };
+
+  const resolveConflict = async (conflictId: string, keep: 'local' | 'remote'): Promise<void> => {
+    try {
+      const recordsChanged = await storageManager.resolveConflict(conflictId, keep);
+      if (recordsChanged) {
+        await reloadFromStore();
       }
-      
-      if (result.failed > 0) {
-        notifications.show({
-          title: 'Migration Issues',
-          message: `${result.failed} songs failed to migrate`,
-          color: 'orange'
-        });
+      runSync();
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to resolve conflict',
+        color: 'red'
+      });
+      throw error;
+    }
+  };
+
+  // Keep whichever side changed most recently for every conflict
+  const resolveAllConflictsByNewest = async (): Promise<void> => {
+    try {
+      for (const conflict of syncState.conflicts) {
+        await storageManager.resolveConflict(conflict.id, getNewerSide(conflict));
       }
-      
-      return result;
+      await reloadFromStore();
+      runSync();
     } catch (error) {
-      console.error('Migration failed:', error);
+      console.error('Failed to resolve conflicts:', error);
       notifications.show({
-        title: 'Migration Failed',
-        message: 'Failed to migrate local songs to cloud',
+        title: 'Error',
+        message: 'Failed to resolve conflicts',
         color: 'red'
       });
-      return { success: 0, failed: 0 };
+      throw error;
     }
   };
 
   return (
     <StorageContext.Provider
       value={{
+        storage: storageManager,
         songs,
+        searchIndex,
         isLoading: isLoading || authLoading,
         storageMode,
         saveSong,
         updateSong,
         deleteSong,
+        mergeSongs,
+        trashedSongs,
+        restoreSong,
+        purgeSongs,
         getSong,
+        getSongRevisions,
         refreshSongs,
         exportData,
         importData,
         clearData,
-        hasLocalData,
-        migrateLocalToCloud
+        restoreBackup,
+        setlists,
+        saveSetlist,
+        updateSetlist,
+        deleteSetlist,
+        getSetlist,
+        refreshSetlists,
+        syncState,
+        syncNow,
+        resolveConflict,
+        resolveAllConflictsByNewest,
+        subscribeToRemoteSongChanges
       }}
     >
       {children}
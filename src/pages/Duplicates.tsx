@@ -0,0 +1,111 @@
+import * as React from 'react';
+import { Container, Title, Text, Button, Stack, Group, Paper, Skeleton, Badge, Anchor } from '@mantine/core';
+import { useMediaQuery } from '@mantine/hooks';
+import { Link } from 'react-router-dom';
+import { IconArrowMerge, IconX } from '@tabler/icons-react';
+import { useStorage } from '../context/StorageContext';
+import { MergeSongsModal } from '../components/MergeSongsModal';
+import { findDuplicateGroups } from '../utils/duplicates';
+import type { DuplicateGroup } from '../utils/duplicates';
+
+export function Duplicates() {
+  const { songs, isLoading, mergeSongs } = useStorage();
+  // Groups marked as not being duplicates, hidden until the page is left
+  const [dismissed, setDismissed] = React.useState<Set<string>>(new Set());
+  const [mergingGroup, setMergingGroup] = React.useState<DuplicateGroup | null>(null);
+
+  const isMobile = useMediaQuery('(max-width: 48em)');
+
+  const groups = React.useMemo(
+    () => findDuplicateGroups(songs).filter(group => !dismissed.has(group.id)),
+    [songs, dismissed]
+  );
+
+  return (
+    <Container size="lg">
+      <Stack gap="xl">
+        <Title order={1}>Duplicates</Title>
+
+        <Text size="sm" c="dimmed">
+          Songs with the same title or mostly the same lyrics, for example the same song imported from
+          two places. Merge them to keep the best of each copy.
+        </Text>
+
+        {isLoading ? (
+          <Stack gap="sm">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} height={120} radius="sm" />
+            ))}
+          </Stack>
+        ) : groups.length > 0 ? (
+          <Stack gap="md">
+            {groups.map(group => (
+              <Paper p="md" withBorder shadow="sm" key={group.id}>
+                <Stack gap="sm">
+                  <Group justify="space-between" align="center">
+                    <Group gap="xs">
+                      <Text fw={500} size="lg">{group.songs[0].title || 'Untitled'}</Text>
+                      <Badge variant="light" color={group.lyricSimilarity >= 0.8 ? 'green' : 'yellow'}>
+                        {Math.round(group.lyricSimilarity * 100)}% same lyrics
+                      </Badge>
+                    </Group>
+                    <Group gap="xs">
+                      <Button
+                        variant="light"
+                        leftSection={<IconArrowMerge size={16} />}
+                        onClick={() => setMergingGroup(group)}
+                        size={isMobile ? "sm" : "md"}
+                      >
+                        Merge
+                      </Button>
+                      <Button
+                        variant="subtle"
+                        color="gray"
+                        leftSection={<IconX size={16} />}
+                        onClick={() => setDismissed(prev => new Set(prev).add(group.id))}
+                        size={isMobile ? "sm" : "md"}
+                      >
+                        {isMobile ? 'Skip' : 'Not Duplicates'}
+                      </Button>
+                    </Group>
+                  </Group>
+                  <Stack gap={4}>
+                    {group.songs.map(song => {
+                      const chordCount = song.sections.reduce((total, section) => total + section.chords.length, 0);
+                      return (
+                        <Text key={song.id} size="sm">
+                          <Anchor component={Link} to={`/songs/${song.id}?mode=view`} size="sm">
+                            {song.title || 'Untitled'}
+                          </Anchor>
+                          <Text span size="sm" c="dimmed">
+                            {song.artist ? ` · ${song.artist}` : ''}
+                            {` · ${song.sections.length} sections, ${chordCount} chords`}
+                            {` · Added ${new Date(song.createdAt).toLocaleDateString()}`}
+                          </Text>
+                        </Text>
+                      );
+                    })}
+                  </Stack>
+                </Stack>
+              </Paper>
+            ))}
+          </Stack>
+        ) : (
+          <Paper withBorder p="xl">
+            <Text size="lg" c="dimmed" ta="center">No duplicates found</Text>
+          </Paper>
+        )}
+      </Stack>
+
+      {mergingGroup && (
+        <MergeSongsModal
+          key={mergingGroup.id}
+          opened
+          onClose={() => setMergingGroup(null)}
+          songs={mergingGroup.songs}
+          onMerge={mergeSongs}
+        />
+      )}
+    </Container>
+  );
+}
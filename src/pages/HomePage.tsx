@@ -3,13 +3,15 @@ import { Container, Title, Text, Button, Stack, Group, Paper, Skeleton, TextInpu
 import { Link, useNavigate } from 'react-router-dom';
 import { IconPlus, IconUpload, IconClock, IconSearch } from '@tabler/icons-react';
 import { UnifiedImportModal } from '../components/UnifiedImportModal';
+import type { ImportMetadata } from '../components/UnifiedImportModal';
 import { toTitleCase } from '../utils/formatters';
 import type { Section } from '../types/song';
 import { useStorage } from '../context/StorageContext';
+import { HighlightedSnippet } from '../components/HighlightedSnippet';
 
 export function HomePage() {
   const navigate = useNavigate();
-  const { songs, isLoading, saveSong } = useStorage();
+  const { songs, searchIndex, isLoading, saveSong } = useStorage();
   const [importModalOpen, setImportModalOpen] = React.useState(false);
   const [searchQuery, setSearchQuery] = React.useState('');
 
@@ -47,7 +49,17 @@ export function HomePage() {
       .slice(0, 5);
   }, [songs]);
 
-  const handleImport = async (sections: Section[], metadata?: { title?: string; artist?: string }) => {
+  // Songs matching the search, best match first, with the line that matched
+  const searchResults = React.useMemo(() => {
+    if (!searchQuery.trim()) return [];
+    const songsById = new Map(songs.map(song => [song.id, song]));
+    return searchIndex.search(searchQuery).flatMap(result => {
+      const song = songsById.get(result.songId);
+      return song ? [{ song, snippet: result.snippet }] : [];
+    });
+  }, [searchIndex, songs, searchQuery]);
+
+  const handleImport = async (sections: Section[], metadata?: ImportMetadata) => {
     try {
       console.log('HomePage handleImport received metadata:', metadata);
       
@@ -55,7 +67,12 @@ export function HomePage() {
       const newId = await saveSong({
         title: toTitleCase(metadata?.title || 'New Song'),
         artist: metadata?.artist || '',
-        sections
+        sections,
+        tags: metadata?.tags || [],
+        originalKey: metadata?.key,
+        tempo: metadata?.tempo,
+        arrangements: metadata?.arrangements,
+        activeArrangementId: metadata?.activeArrangementId
       });
       
       // Navigate to the song editor
@@ -153,24 +170,7 @@ export function HomePage() {
             ) : searchQuery ? (
               // When searching, show all matching songs
               <Stack gap="sm">
-                {songs
-                  .filter(song => {
-                    const query = searchQuery.toLowerCase();
-                    
-                    // Check title and artist
-                    if (
-                      song.title.toLowerCase().includes(query) || 
-                      song.artist.toLowerCase().includes(query)
-                    ) {
-                      return true;
-                    }
-                    
-                    // Check lyrics in all sections
-                    return song.sections.some(section => 
-                      section.content.toLowerCase().includes(query)
-                    );
-                  })
-                  .map(song => (
+                {searchResults.map(({ song, snippet }) => (
                   <Paper
                     key={song.id}
                     withBorder
@@ -190,6 +190,7 @@ export function HomePage() {
                       <Stack gap={0}>
                         <Text fw={500} size="lg">{song.title}</Text>
                         <Text size="sm" c="dimmed">{song.artist}</Text>
+                        <HighlightedSnippet snippet={snippet} />
                       </Stack>
                       <Text size="xs" c="dimmed">
                         {song.updatedAt ? new Date(song.updatedAt).toLocaleString() : 'Never'}
@@ -197,22 +198,7 @@ export function HomePage() {
                     </Group>
                   </Paper>
                 ))}
-                {songs.filter(song => {
-                  const query = searchQuery.toLowerCase();
-                  
-                  // Check title and artist
-                  if (
-                    song.title.toLowerCase().includes(query) || 
-                    song.artist.toLowerCase().includes(query)
-                  ) {
-                    return true;
-                  }
-                  
-                  // Check lyrics in all sections
-                  return song.sections.some(section => 
-                    section.content.toLowerCase().includes(query)
-                  );
-                }).length === 0 && (
+                {searchResults.length === 0 && (
                   <Text c="dimmed" ta="center" py="xl">
                     No songs found matching '{searchQuery}'.
                   </Text>
@@ -0,0 +1,322 @@
+import * as React from 'react';
+import { Container, Title, Text, Button, Stack, Group, Paper, ActionIcon, TextInput, Textarea, NumberInput, Select, Skeleton, Anchor } from '@mantine/core';
+import { useMediaQuery } from '@mantine/hooks';
+import { notifications } from '@mantine/notifications';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { IconArrowLeft, IconDeviceFloppy, IconDownload, IconGripVertical, IconTrash } from '@tabler/icons-react';
+import { useStorage } from '../context/StorageContext';
+import { exportToProjectFile } from '../utils/exporters';
+import type { Setlist, SetlistEntry, Song } from '../types/song';
+
+export function SetlistEditor() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { songs, getSetlist, updateSetlist } = useStorage();
+  const [setlist, setSetlist] = React.useState<Setlist | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [dragIndex, setDragIndex] = React.useState<number | null>(null);
+  const [dropIndex, setDropIndex] = React.useState<number | null>(null);
+
+  // Responsive: is mobile
+  const isMobile = useMediaQuery('(max-width: 48em)');
+
+  // Load the setlist when the page opens
+  const loadSetlist = React.useCallback(() => {
+    if (!id) return;
+
+    setIsLoading(true);
+    getSetlist(id)
+      .then(setSetlist)
+      .finally(() => setIsLoading(false));
+  }, [id, getSetlist]);
+
+  React.useEffect(() => {
+    loadSetlist();
+  }, [loadSetlist]);
+
+  const songsById = React.useMemo(() => {
+    return new Map<string, Song>(songs.map(song => [song.id, song]));
+  }, [songs]);
+
+  const songOptions = React.useMemo(() => {
+    return [...songs]
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .map(song => ({
+        value: song.id,
+        label: song.artist ? `${song.title} - ${song.artist}` : song.title
+      }));
+  }, [songs]);
+
+  const updateEntry = (entryId: string, changes: Partial<SetlistEntry>) => {
+    setSetlist(prev => prev && {
+      ...prev,
+      entries: prev.entries.map(entry => entry.id === entryId ? { ...entry, ...changes } : entry)
+    });
+  };
+
+  const removeEntry = (entryId: string) => {
+    setSetlist(prev => prev && {
+      ...prev,
+      entries: prev.entries.filter(entry => entry.id !== entryId)
+    });
+  };
+
+  const addSong = (songId: string | null) => {
+    if (!songId) return;
+    setSetlist(prev => prev && {
+      ...prev,
+      entries: [...prev.entries, { id: crypto.randomUUID(), songId }]
+    });
+  };
+
+  // Move the dragged entry to the position it was dropped on
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) {
+      setDragIndex(null);
+      setDropIndex(null);
+      return;
+    }
+
+    setSetlist(prev => {
+      if (!prev) return prev;
+      const entries = [...prev.entries];
+      const [moved] = entries.splice(dragIndex, 1);
+      entries.splice(targetIndex, 0, moved);
+      return { ...prev, entries };
+    });
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleSave = async () => {
+    if (!setlist) return;
+    try {
+      setIsSaving(true);
+      await updateSetlist(setlist);
+    } catch (error) {
+      // Error notification is shown by the storage context
+      console.error('Failed to save setlist:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Export the setlist as a FreeShow project, each song in its planned key
+  const handleExportProject = () => {
+    if (!setlist) return;
+    try {
+      const projectSongs = setlist.entries
+        .filter(entry => songsById.has(entry.songId))
+        .map(entry => ({ song: songsById.get(entry.songId)!, key: entry.key }));
+
+      const fileContent = exportToProjectFile(setlist.name, projectSongs);
+      const safeName = (setlist.name || 'setlist').replace(/[^a-z0-9]/gi, '_').toLowerCase();
+      const blob = new Blob([fileContent], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${safeName}.project`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      notifications.show({
+        title: 'Success',
+        message: `Saved as ${safeName}.project`,
+        color: 'green',
+        autoClose: 2000
+      });
+    } catch (error) {
+      console.error('Failed to export setlist:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to export setlist',
+        color: 'red'
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Container size="lg">
+        <Stack gap="sm">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} height={60} radius="sm" />
+          ))}
+        </Stack>
+      </Container>
+    );
+  }
+
+  if (!setlist) {
+    return (
+      <Container size="lg">
+        <Paper withBorder p="xl">
+          <Stack align="center" gap="md">
+            <Text size="lg" c="dimmed" ta="center">Setlist not found</Text>
+            <Button variant="light" leftSection={<IconArrowLeft size={16} />} onClick={() => navigate('/setlists')}>
+              Back to Setlists
+            </Button>
+          </Stack>
+        </Paper>
+      </Container>
+    );
+  }
+
+  return (
+    <Container size="lg">
+      <Stack gap="xl">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <ActionIcon variant="subtle" onClick={() => navigate('/setlists')} title="Back to setlists">
+              <IconArrowLeft size={20} />
+            </ActionIcon>
+            <Title order={1}>{setlist.name || 'Untitled Setlist'}</Title>
+          </Group>
+          <Group>
+            <Button
+              variant="light"
+              leftSection={<IconDownload size={16} />}
+              onClick={handleExportProject}
+              disabled={setlist.entries.length === 0}
+              size={isMobile ? "sm" : "md"}
+            >
+              {isMobile ? "Export" : "Export FreeShow Project"}
+            </Button>
+            <Button
+              leftSection={<IconDeviceFloppy size={16} />}
+              onClick={handleSave}
+              loading={isSaving}
+              size={isMobile ? "sm" : "md"}
+            >
+              Save
+            </Button>
+          </Group>
+        </Group>
+
+        <Group grow align="flex-start">
+          <TextInput
+            label="Name"
+            value={setlist.name}
+            onChange={(e) => {
+              const name = e.currentTarget.value;
+              setSetlist(prev => prev && { ...prev, name });
+            }}
+          />
+          <TextInput
+            label="Date"
+            type="date"
+            value={setlist.date}
+            onChange={(e) => {
+              const date = e.currentTarget.value;
+              setSetlist(prev => prev && { ...prev, date });
+            }}
+          />
+        </Group>
+
+        <Textarea
+          label="Notes"
+          placeholder="Service notes, team, rehearsal times..."
+          value={setlist.notes || ''}
+          onChange={(e) => {
+            const notes = e.currentTarget.value;
+            setSetlist(prev => prev && { ...prev, notes });
+          }}
+          autosize
+          minRows={2}
+        />
+
+        <Stack gap="sm">
+          <Title order={3}>Songs</Title>
+          {setlist.entries.length === 0 && (
+            <Text c="dimmed" size="sm">No songs yet. Add songs below, then drag them into running order.</Text>
+          )}
+          {setlist.entries.map((entry, index) => {
+            const song = songsById.get(entry.songId);
+            return (
+              <Paper
+                key={entry.id}
+                p="sm"
+                withBorder
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = 'move';
+                  if (dropIndex !== index) setDropIndex(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(index);
+                }}
+                style={{
+                  opacity: dragIndex === index ? 0.5 : 1,
+                  borderColor: dropIndex === index && dragIndex !== index ? 'var(--mantine-color-blue-filled)' : undefined
+                }}
+              >
+                <Group wrap={isMobile ? 'wrap' : 'nowrap'} gap="sm">
+                  <IconGripVertical size={18} style={{ cursor: 'grab', flexShrink: 0 }} />
+                  <Text fw={500} w={24}>{index + 1}.</Text>
+                  <Stack gap={0} style={{ flex: 1, minWidth: 150 }}>
+                    {song ? (
+                      <Anchor component={Link} to={`/songs/${song.id}?mode=view`} fw={500}>
+                        {song.title}
+                      </Anchor>
+                    ) : (
+                      <Text fw={500} c="red">Missing song</Text>
+                    )}
+                    {song?.artist && <Text size="xs" c="dimmed">{song.artist}</Text>}
+                  </Stack>
+                  <TextInput
+                    placeholder={song?.originalKey || 'Key'}
+                    value={entry.key || ''}
+                    onChange={(e) => updateEntry(entry.id, { key: e.currentTarget.value || undefined })}
+                    w={70}
+                    aria-label="Key"
+                  />
+                  <NumberInput
+                    placeholder="Capo"
+                    value={entry.capo ?? ''}
+                    onChange={(value) => updateEntry(entry.id, { capo: typeof value === 'number' && value > 0 ? value : undefined })}
+                    min={0}
+                    max={11}
+                    w={80}
+                    aria-label="Capo"
+                  />
+                  <TextInput
+                    placeholder="Notes"
+                    value={entry.notes || ''}
+                    onChange={(e) => updateEntry(entry.id, { notes: e.currentTarget.value })}
+                    style={{ flex: 1, minWidth: 120 }}
+                    aria-label="Notes"
+                  />
+                  <ActionIcon color="red" variant="light" onClick={() => removeEntry(entry.id)} title="Remove from setlist">
+                    <IconTrash size={16} />
+                  </ActionIcon>
+                </Group>
+              </Paper>
+            );
+          })}
+
+          <Select
+            placeholder="Add a song..."
+            data={songOptions}
+            value={null}
+            onChange={addSong}
+            searchable
+            nothingFoundMessage="No songs found"
+          />
+        </Stack>
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,139 @@
+import * as React from 'react';
+import { Container, Title, Text, Button, Stack, Group, Paper, ActionIcon, Skeleton, Menu } from '@mantine/core';
+import { useMediaQuery } from '@mantine/hooks';
+import { useNavigate } from 'react-router-dom';
+import { IconPlus, IconTrash, IconDots, IconEdit } from '@tabler/icons-react';
+import { useStorage } from '../context/StorageContext';
+
+export function SetlistList() {
+  const navigate = useNavigate();
+  const { setlists, isLoading, saveSetlist, deleteSetlist } = useStorage();
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  // Responsive: is mobile
+  const isMobile = useMediaQuery('(max-width: 48em)');
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      const today = new Date().toISOString().split('T')[0];
+      const id = await saveSetlist({
+        name: `Service ${new Date().toLocaleDateString()}`,
+        date: today,
+        entries: []
+      });
+      navigate(`/setlists/${id}`);
+    } catch (error) {
+      // Error notification is shown by the storage context
+      console.error('Failed to create setlist:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSetlist(id);
+    } catch (error) {
+      console.error('Failed to delete setlist:', error);
+    }
+  };
+
+  return (
+    <Container size="lg">
+      <Stack gap="xl">
+        <Group justify="space-between">
+          <Title order={1}>Setlists</Title>
+          <Button
+            leftSection={<IconPlus size={16} />}
+            onClick={handleCreate}
+            loading={isCreating}
+            size={isMobile ? "sm" : "md"}
+          >
+            {isMobile ? "New" : "New Setlist"}
+          </Button>
+        </Group>
+
+        {isLoading ? (
+          <Stack gap="sm">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} height={80} radius="sm" />
+            ))}
+          </Stack>
+        ) : setlists.length > 0 ? (
+          <Stack gap="md">
+            {setlists.map(setlist => (
+              <Paper
+                p="md"
+                withBorder
+                shadow="sm"
+                key={setlist.id}
+                onClick={(e) => {
+                  // Only navigate if not clicking a button or menu
+                  if (
+                    !(e.target as HTMLElement).closest('button') &&
+                    !(e.target as HTMLElement).closest('[role="menu"]')
+                  ) {
+                    navigate(`/setlists/${setlist.id}`);
+                  }
+                }}
+                style={{ cursor: 'pointer' }}
+              >
+                <Group justify="space-between" align="center">
+                  <Stack gap={4}>
+                    <Text fw={500} size="lg">{setlist.name}</Text>
+                    <Text size="sm" c="dimmed">
+                      {setlist.date ? new Date(`${setlist.date}T00:00:00`).toLocaleDateString() : 'No date'}
+                      {' · '}
+                      {setlist.entries.length} song{setlist.entries.length !== 1 ? 's' : ''}
+                    </Text>
+                  </Stack>
+                  <Group gap="xs">
+                    <Button
+                      onClick={() => navigate(`/setlists/${setlist.id}`)}
+                      variant="light"
+                      leftSection={<IconEdit size={16} />}
+                      size={isMobile ? "sm" : "md"}
+                    >
+                      Edit
+                    </Button>
+                    <Menu shadow="md" width={200}>
+                      <Menu.Target>
+                        <ActionIcon variant="light" size={isMobile ? "md" : "sm"}>
+                          <IconDots size={16} />
+                        </ActionIcon>
+                      </Menu.Target>
+                      <Menu.Dropdown>
+                        <Menu.Item
+                          color="red"
+                          leftSection={<IconTrash size={16} />}
+                          onClick={() => handleDelete(setlist.id)}
+                        >
+                          Delete
+                        </Menu.Item>
+                      </Menu.Dropdown>
+                    </Menu>
+                  </Group>
+                </Group>
+              </Paper>
+            ))}
+          </Stack>
+        ) : (
+          <Paper withBorder p="xl">
+            <Stack align="center" gap="md">
+              <Text size="lg" c="dimmed" ta="center">No setlists yet</Text>
+              <Button
+                variant="light"
+                leftSection={<IconPlus size={16} />}
+                onClick={handleCreate}
+                loading={isCreating}
+              >
+                Plan Your First Service
+              </Button>
+            </Stack>
+          </Paper>
+        )}
+      </Stack>
+    </Container>
+  );
+}
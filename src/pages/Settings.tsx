@@ -1,4 +1,5 @@
-import { Title, Stack, ColorInput, Text, Divider, Grid, Card, Button } from '@mantine/core';
+import { Title, Stack, ColorInput, Text, Divider, Grid, Card, Button, Select } from '@mantine/core';
+import { DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_OPTIONS } from '../utils/trash';
 import { useSettings } from '../context/SettingsContext';
 
 export function Settings() {
@@ -161,6 +162,21 @@ export function Settings() {
           </div>
         </Stack>
       </Card>
+
+      <Card withBorder radius="md">
+        <Title order={2} mb="md">Trash</Title>
+        <Divider mb="lg" />
+
+        <Select
+          label="Delete songs in the trash after"
+          description="Deleted songs can be restored from the trash until then"
+          data={TRASH_RETENTION_OPTIONS}
+          value={String(settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS)}
+          onChange={(value) => value !== null && updateSettings({ ...settings, trashRetentionDays: Number(value) })}
+          allowDeselect={false}
+          maw={300}
+        />
+      </Card>
     </Stack>
   );
 }
@@ -1,22 +1,30 @@
 import { useEffect, useState, lazy, Suspense, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { Stack, Title, TextInput, Button, Group, ActionIcon, Text, Paper, Modal, Grid, Menu, Tooltip, Tabs, Loader, Center } from '@mantine/core';
+import { Stack, Title, TextInput, Button, Group, ActionIcon, Text, Paper, Modal, Grid, Menu, Tooltip, Tabs, Loader, Center, SegmentedControl, Alert } from '@mantine/core';
 import { useMediaQuery } from '@mantine/hooks';
 import { notifications } from '@mantine/notifications';
-import { IconArrowLeft, IconUpload, IconDownload, IconMusic, IconPlus, IconArrowUp, IconArrowDown, IconTrash, IconNotes, IconEdit } from '@tabler/icons-react';
+import { IconArrowLeft, IconUpload, IconDownload, IconMusic, IconPlus, IconArrowUp, IconArrowDown, IconTrash, IconNotes, IconEdit, IconAlertTriangle, IconHistory, IconRefresh } from '@tabler/icons-react';
 import '../components/SectionControls.css';
 import { ArtistInput } from '../components/ArtistInput';
 import { useStorage } from '../context/StorageContext';
+import type { RemoteSongChange } from '../context/StorageContext';
 import { SongSection } from '../components/SongSection';
-import { Section, Song } from '../types/song';
+import { ChordDisplayMode, ChordNotation, Section, Song, SongRevision } from '../types/song';
 
 import { InlineEditor } from '../components/InlineEditor';
 import TransposeControl from '../components/TransposeControl';
 import { TagInput } from '../components/TagInput';
 // Removed SongContext import - using Appwrite directly
-import { detectKey } from '../utils/transpose';
+import { detectKey, getTransposition } from '../utils/transpose';
 import { SongNotes } from '../components/SongNotes';
+import { SongHistory } from '../components/SongHistory';
+import { ArrangementControl } from '../components/ArrangementControl';
+import { CapoControl } from '../components/CapoControl';
+import { ensureSectionIds, getActiveArrangement, pruneArrangements } from '../utils/arrangements';
 import { useValidation, ValidationError, sanitizeTextContent } from '../utils/validation';
+import type { ImportMetadata } from '../components/UnifiedImportModal';
+import { SongMergeModal } from '../components/SongMergeModal';
+import { SongConflictError } from '../utils/storageInterface';
 
 // Lazy load modal components
 const UnifiedImportModal = lazy(() => import('../components/UnifiedImportModal').then(m => ({ default: m.UnifiedImportModal })));
@@ -33,7 +41,7 @@ const ModalLoader = () => (
 export function SongEditor() {
   const navigate = useNavigate();
   const { id } = useParams();
-  const { getSong, saveSong, updateSong } = useStorage();
+  const { getSong, saveSong, updateSong, getSongRevisions, subscribeToRemoteSongChanges } = useStorage();
   const { validateSongMetadata } = useValidation();
   const isMobile = useMediaQuery('(max-width: 48em)');
 
@@ -57,8 +65,21 @@ export function SongEditor() {
   const [isSaving, setIsSaving] = useState(false);
   const [contentChanged, setContentChanged] = useState(false);
   const [activeTab, setActiveTab] = useState<string | null>('sections');
+  const [revisions, setRevisions] = useState<SongRevision[]>([]);
+  const [revisionsLoading, setRevisionsLoading] = useState(false);
+  // A newer version of this song saved on another device while it is open
+  const [remoteChange, setRemoteChange] = useState<RemoteSongChange | null>(null);
+  // The saved version the open song was last loaded from or saved as. Saves
+  // only go through if the stored song is still this version.
+  const [baseSong, setBaseSong] = useState<Song | null>(null);
+  // A save that found the song changed elsewhere, waiting to be merged
+  const [pendingMerge, setPendingMerge] = useState<{ base: Song; mine: Song; theirs: Song } | null>(null);
   const [textEditorOpen, setTextEditorOpen] = useState(false);
   const [isViewMode, setIsViewMode] = useState(false);
+  // Whether chords show in concert pitch, as capo shapes, or both
+  const [chordDisplay, setChordDisplay] = useState<ChordDisplayMode>('both');
+  // Whether chords show as written or as numbers relative to the key
+  const [notation, setNotation] = useState<ChordNotation>('chords');
 
   const [editingSectionIndex, setEditingSectionIndex] = useState<number | null>(null);
 
@@ -92,6 +113,9 @@ export function SongEditor() {
 
   // Load song if editing existing
   useEffect(() => {
+    setRemoteChange(null);
+    setPendingMerge(null);
+    setBaseSong(null);
     if (id) {
       // Check URL for view mode parameter
       const urlParams = new URLSearchParams(window.location.search);
@@ -101,7 +125,8 @@ export function SongEditor() {
       // Load directly from the database to avoid context issues
       getSong(id).then(loadedSong => {
         if (loadedSong) {
-          setSong(loadedSong);
+          setBaseSong(loadedSong);
+          setSong({ ...loadedSong, sections: ensureSectionIds(loadedSong.sections) });
           // Only update local state if loading a new song (id change)
           setTitle(loadedSong.title || '');
           setArtist(loadedSong.artist || '');
@@ -134,6 +159,15 @@ export function SongEditor() {
     }
   }, [id]);
   
+  // Hear about this song changing on another device while it is open. The
+  // open version is left alone until the user picks one.
+  useEffect(() => {
+    if (!id) return;
+    return subscribeToRemoteSongChanges(change => {
+      if (change.id === id) setRemoteChange(change);
+    });
+  }, [id, subscribeToRemoteSongChanges]);
+
   // Set up autosave timer (every 2 minutes) and immediate save on navigation
   useEffect(() => {
     // Don't autosave if we're just loading the song initially
@@ -173,11 +207,18 @@ export function SongEditor() {
     }
     // Set a flag that content has changed and needs saving
     setContentChanged(true);
-  }, [song.sections, title, artist, tags, notes]); // Only trigger on section or local state changes
+  }, [song.sections, song.arrangements, song.activeArrangementId, song.capo, title, artist, tags, notes]); // Only trigger on section, arrangement, capo or local state changes
   
-  const handleImport = (sections: Section[], metadata?: { title?: string; artist?: string }) => {
-    // Update song sections
-    setSong(prev => ({ ...prev, sections }));
+  const handleImport = (sections: Section[], metadata?: ImportMetadata) => {
+    // Update song sections (and the key, if the file declared one)
+    setSong(prev => ({
+      ...prev,
+      sections: ensureSectionIds(sections),
+      originalKey: metadata?.key || prev.originalKey,
+      tempo: metadata?.tempo || prev.tempo,
+      arrangements: metadata?.arrangements,
+      activeArrangementId: metadata?.activeArrangementId
+    }));
     // If metadata is provided from the import (e.g., from .show files), update title and artist
     if (metadata) {
       if (metadata.title) {
@@ -186,6 +227,9 @@ export function SongEditor() {
       if (metadata.artist) {
         setArtist(metadata.artist || '');
       }
+      if (metadata.tags && metadata.tags.length > 0) {
+        setTags(metadata.tags);
+      }
     }
     setImportModalOpen(false);
   };
@@ -195,8 +239,9 @@ export function SongEditor() {
     // Create a counter for each section type
     const typeCounters: Record<string, number> = {};
     
-    // Go through each section and update its number
-    return sections.map(section => {
+    // Go through each section and update its number (new sections also get
+    // the id arrangements refer to them by)
+    return ensureSectionIds(sections).map(section => {
       // Initialize counter for this type if it doesn't exist
       if (!typeCounters[section.type]) {
         typeCounters[section.type] = 1;
@@ -219,8 +264,10 @@ export function SongEditor() {
   const autoSave = async () => {
     if (isSaving) return; // Prevent multiple simultaneous saves
     if (!contentChanged) return; // Don't save if nothing has changed
+    if (pendingMerge) return; // Wait for the merge to be settled
     
     setIsSaving(true);
+    let keepChanges = false;
     try {
       // Update section numbers
       const numberedSections = updateSectionNumbers([...song.sections]);
@@ -232,7 +279,8 @@ export function SongEditor() {
         artist: artist, // Use the separate artist state
         tags: tags, // Use the separate tags state
         notes: notes, // Use the separate notes state
-        sections: numberedSections // Use the numbered sections
+        sections: numberedSections, // Use the numbered sections
+        arrangements: pruneArrangements(song.arrangements, numberedSections) // Drop references to deleted sections
       };
 
       // Validate metadata before saving
@@ -250,59 +298,8 @@ export function SongEditor() {
         }
       }
 
-      // --- Transpose chords to match transposedKey if set ---
-      if (updatedSong.transposedKey && updatedSong.originalKey && updatedSong.sections) {
-        const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-        const fromIndex = NOTES.indexOf(updatedSong.originalKey);
-        const toIndex = NOTES.indexOf(updatedSong.transposedKey);
-        let semitones = 0;
-        if (fromIndex !== -1 && toIndex !== -1) {
-          semitones = (toIndex - fromIndex + 12) % 12;
-        }
-        function transposeChord(chord: string, semitones: number): string {
-          const FLAT_TO_SHARP: Record<string, string> = {
-            'Db': 'C#', 'Eb': 'D#', 'Gb': 'F#', 'Ab': 'G#', 'Bb': 'A#',
-          };
-          function normalizeChord(chord: string): string {
-            for (const [flat, sharp] of Object.entries(FLAT_TO_SHARP)) {
-              if (chord.startsWith(flat)) {
-                return chord.replace(flat, sharp);
-              }
-            }
-            return chord;
-          }
-          function extractRoot(chord: string): string {
-            if (chord.length > 1 && chord[1] === '#') return chord.substring(0, 2);
-            return chord[0];
-          }
-          function extractSuffix(chord: string): string {
-            if (chord.length > 1 && chord[1] === '#') return chord.substring(2);
-            return chord.substring(1);
-          }
-          const normalizedChord = normalizeChord(chord);
-          if (normalizedChord.includes('/')) {
-            const [mainChord, bassNote] = normalizedChord.split('/');
-            const transposedMain = transposeChord(mainChord, semitones);
-            const transposedBass = transposeChord(bassNote, semitones);
-            return `${transposedMain}/${transposedBass}`;
-          }
-          const rootNote = extractRoot(normalizedChord);
-          const suffix = extractSuffix(normalizedChord);
-          const rootIndex = NOTES.indexOf(rootNote);
-          if (rootIndex === -1) return chord;
-          const transposedIndex = (rootIndex + semitones + 12) % 12;
-          return NOTES[transposedIndex] + suffix;
-        }
-        // Transpose all chords in all sections
-        updatedSong.sections = updatedSong.sections.map(section => ({
-          ...section,
-          chords: section.chords.map(chordObj => ({
-            ...chordObj,
-            text: transposeChord(chordObj.text, semitones),
-          }))
-        }));
-      }
-      // --- END transpose logic ---
+      // Chords are always stored in the original key; transposedKey only
+      // changes how they are shown and exported
       
       // If this is the first save, store the original sections
       if (!updatedSong.originalSections) {
@@ -347,14 +344,29 @@ export function SongEditor() {
           updatedAt: new Date().toISOString()
         };
         
-        await updateSong(songToUpdate);
+        try {
+          setBaseSong(await updateSong(songToUpdate, { expectedUpdatedAt: baseSong?.updatedAt }));
+        } catch (error) {
+          if (!(error instanceof SongConflictError) || !baseSong) throw error;
+          // Saved somewhere else since it was opened: merge instead of
+          // overwriting, and keep the changes marked as unsaved until then
+          setPendingMerge({ base: baseSong, mine: songToUpdate, theirs: error.current });
+          keepChanges = true;
+          return;
+        }
+        if (activeTab === 'history') {
+          loadRevisions();
+        }
       } else {
         const newId = await saveSong({
           title: updatedSong.title,
           artist: updatedSong.artist,
           sections: updatedSong.sections,
           tags: updatedSong.tags,
-          notes: updatedSong.notes
+          notes: updatedSong.notes,
+          arrangements: updatedSong.arrangements,
+          activeArrangementId: updatedSong.activeArrangementId,
+          capo: updatedSong.capo
         });
         navigate(`/songs/${newId}`);
       }
@@ -375,10 +387,108 @@ export function SongEditor() {
       });
     } finally {
       setIsSaving(false);
-      setContentChanged(false); // Reset the content changed flag after saving
+      if (!keepChanges) {
+        setContentChanged(false); // Reset the content changed flag after saving
+      }
+    }
+  };
+
+  // Save the merge of the open song with the version saved elsewhere. If it
+  // was saved again in the meantime, merge against that version instead.
+  const saveMergedSong = async (merged: Song) => {
+    if (!id || !pendingMerge) return;
+    try {
+      const savedSong = await updateSong(
+        { ...merged, id, updatedAt: new Date().toISOString() },
+        { expectedUpdatedAt: pendingMerge.theirs.updatedAt }
+      );
+      showSong(savedSong);
+      setPendingMerge(null);
+      setRemoteChange(null);
+    } catch (error) {
+      if (error instanceof SongConflictError) {
+        setPendingMerge({ ...pendingMerge, theirs: error.current });
+        notifications.show({
+          title: 'Song Changed Again',
+          message: 'The song was saved elsewhere again. Check the merge once more.',
+          color: 'yellow'
+        });
+      }
+      throw error;
+    }
+  };
+
+  // Load the saved versions of the song for the History tab
+  const loadRevisions = async () => {
+    if (!id) return;
+    setRevisionsLoading(true);
+    try {
+      setRevisions(await getSongRevisions(id));
+    } finally {
+      setRevisionsLoading(false);
+    }
+  };
+
+  const handleTabChange = (tab: string | null) => {
+    setActiveTab(tab);
+    if (tab === 'history') {
+      loadRevisions();
     }
   };
 
+  // Put a saved version back, keeping the song's id and creation date. The
+  // restore is saved straight away, so it becomes the newest version.
+  const restoreRevision = async (revision: SongRevision) => {
+    if (!id) return;
+
+    const restoredSong: Song = {
+      ...revision.snapshot,
+      id,
+      createdAt: song.createdAt,
+      updatedAt: new Date().toISOString(),
+      sections: ensureSectionIds(revision.snapshot.sections)
+    };
+
+    // Restoring is a deliberate overwrite, so it isn't checked against
+    // changes made elsewhere
+    let savedSong: Song;
+    try {
+      savedSong = await updateSong(restoredSong);
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+      return;
+    }
+
+    showSong(savedSong);
+    loadRevisions();
+  };
+
+  // Open a saved version of the song in the editor
+  const showSong = (savedSong: Song) => {
+    setBaseSong(savedSong);
+    setSong({ ...savedSong, sections: ensureSectionIds(savedSong.sections) });
+    setTitle(savedSong.title || '');
+    setArtist(savedSong.artist || '');
+    setTags(savedSong.tags || []);
+    setNotes(savedSong.notes || '');
+  };
+
+  // Replace what is open with the version saved on the other device
+  const reloadRemoteVersion = () => {
+    const remoteSong = remoteChange?.song;
+    if (!remoteSong) return;
+    showSong(remoteSong);
+    setRemoteChange(null);
+  };
+
+  // Keep the open version; saving it makes it the newest again, over the
+  // version saved on the other device
+  const keepLocalVersion = () => {
+    setBaseSong(remoteChange?.song || null);
+    setRemoteChange(null);
+    setContentChanged(true);
+  };
+
   // ESC key shortcut: close modals or save & navigate back
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
@@ -402,6 +512,14 @@ export function SongEditor() {
     return () => document.removeEventListener('keydown', handleEsc);
   }, [textEditorOpen, importModalOpen, exportModalOpen, contentChanged, navigate]);
 
+  // View mode plays the sections in the order of the chosen arrangement
+  const activeArrangement = getActiveArrangement(song);
+
+  // Numbers are counted from the key the stored chords are written in
+  const songKey = song.originalKey || detectKey(song.sections.flatMap(section => section.chords.map(chord => chord.text)));
+  // Chords are shown in the key the song is transposed to
+  const transposition = getTransposition(song.transposedKey, songKey || 'C');
+
   return (
     <Stack>
       <Group justify="space-between" align="center" wrap="wrap" gap="sm">
@@ -515,19 +633,31 @@ export function SongEditor() {
             <Grid>
               <Grid.Col span={12}>
                 {id && (
-                  <TransposeControl
-                    transposedKey={song.transposedKey || ''}
-                    originalKey={song.originalKey}
-                    onChange={(val: string) => {
-                      // Always update the song's transposedKey with the new value
-                      setSong(prev => {
-                        const updated = { ...prev, transposedKey: val };
-                        return updated;
-                      });
-                      setContentChanged(true);
-                    }}
-                    isViewMode={isViewMode}
-                  />
+                  <Group align="flex-end" gap="md" wrap="wrap">
+                    <TransposeControl
+                      transposedKey={song.transposedKey || ''}
+                      sections={song.sections}
+                      onChange={(val: string) => {
+                        // Always update the song's transposedKey with the new value
+                        setSong(prev => {
+                          const updated = { ...prev, transposedKey: val };
+                          return updated;
+                        });
+                        setContentChanged(true);
+                      }}
+                      isViewMode={isViewMode}
+                    />
+                    <CapoControl
+                      capo={song.capo || 0}
+                      onCapoChange={(capo) => {
+                        setSong(prev => ({ ...prev, capo: capo || undefined }));
+                        setContentChanged(true);
+                      }}
+                      chordDisplay={chordDisplay}
+                      onChordDisplayChange={setChordDisplay}
+                      isViewMode={isViewMode}
+                    />
+                  </Group>
                 )}
               </Grid.Col>
               <Grid.Col span={12}>
@@ -568,14 +698,26 @@ export function SongEditor() {
         </Grid>
       </Paper>
 
-      <Tabs value={activeTab} onChange={setActiveTab}>
+      <Tabs value={activeTab} onChange={handleTabChange}>
         <Stack gap="sm">
           <Group justify="space-between" align="center" wrap="wrap">
             <Tabs.List>
               <Tabs.Tab value="sections" leftSection={<IconMusic size={16} />}>Sections</Tabs.Tab>
               <Tabs.Tab value="notes" leftSection={<IconNotes size={16} />}>Notes</Tabs.Tab>
+              {id && <Tabs.Tab value="history" leftSection={<IconHistory size={16} />}>History</Tabs.Tab>}
             </Tabs.List>
             <Group gap="xs" wrap="nowrap">
+              <SegmentedControl
+                data={[
+                  { label: 'C G Am', value: 'chords' },
+                  { label: '1 5 6m', value: 'nashville' },
+                  { label: 'I V vi', value: 'roman' }
+                ]}
+                value={notation}
+                onChange={(value) => setNotation(value as ChordNotation)}
+                size="xs"
+                title="Chord notation"
+              />
               <Button
                 variant="light"
                 leftSection={<IconEdit size={16} />}
@@ -596,10 +738,89 @@ export function SongEditor() {
           </Group>
         </Stack>
 
+        {remoteChange && (
+          <Alert
+            color="blue"
+            variant="light"
+            icon={<IconRefresh size={16} />}
+            title={remoteChange.song ? 'This song was updated elsewhere' : 'This song was deleted elsewhere'}
+            mt="md"
+          >
+            <Stack gap="xs" align="flex-start">
+              <Text size="sm">
+                {remoteChange.song
+                  ? 'A newer version was saved on another device. Reload it, or keep the version open here and save over it.'
+                  : 'It was moved to the trash on another device. Keeping your version saves it again.'}
+              </Text>
+              <Group gap="xs">
+                {remoteChange.song && (
+                  <Button size="xs" variant="light" onClick={reloadRemoteVersion}>
+                    Reload
+                  </Button>
+                )}
+                <Button size="xs" variant="subtle" onClick={keepLocalVersion}>
+                  Keep mine
+                </Button>
+              </Group>
+            </Stack>
+          </Alert>
+        )}
+
         <Tabs.Panel value="sections" pt="md">
+          <Stack gap="sm" mb="sm">
+            {song.truncated && (
+              <Alert color="orange" variant="light" icon={<IconAlertTriangle size={16} />} title="This song may be incomplete">
+                <Stack gap="xs" align="flex-start">
+                  <Text size="sm">
+                    An older version of SongBuilder shortened this song to fit the cloud size limit, which may have
+                    removed lyrics, line breaks or chords. Compare it with your original and fix anything missing.
+                  </Text>
+                  <Button
+                    size="xs"
+                    variant="light"
+                    color="orange"
+                    onClick={() => {
+                      setSong(prev => ({ ...prev, truncated: false }));
+                      setContentChanged(true);
+                    }}
+                  >
+                    I've checked it
+                  </Button>
+                </Stack>
+              </Alert>
+            )}
+            <ArrangementControl
+              sections={song.sections}
+              arrangements={song.arrangements || []}
+              activeArrangementId={song.activeArrangementId}
+              onChange={(arrangements, activeArrangementId) => {
+                setSong(prev => ({ ...prev, arrangements, activeArrangementId }));
+              }}
+              isViewMode={isViewMode}
+            />
+          </Stack>
           <Paper p={0} style={{ backgroundColor: 'var(--mantine-color-dark-6)', border: 'none', boxShadow: 'none' }}>
             <Stack gap="xs">
-              {song.sections.map((section, index) => (
+              {isViewMode && activeArrangement ? activeArrangement.items.map((item, index) => {
+                const section = song.sections.find(other => other.id === item.sectionId);
+                if (!section) return null;
+                return (
+                  <div key={`${item.sectionId}-${index}`} className="section-container">
+                    <SongSection readOnly
+                      type={section.type}
+                      content={section.content}
+                      number={section.number}
+                      chords={section.chords}
+                      repeat={item.repeat}
+                      capo={song.capo}
+                      chordDisplay={chordDisplay}
+                      notation={notation}
+                      songKey={songKey}
+                      transposition={transposition}
+                    />
+                  </div>
+                );
+              }) : song.sections.map((section, index) => (
                 <div
                   key={index}
                   style={{ position: 'relative' }}
@@ -614,6 +835,11 @@ export function SongEditor() {
                       content={section.content}
                       number={section.number}
                       chords={section.chords}
+                      capo={song.capo}
+                      chordDisplay={chordDisplay}
+                      notation={notation}
+                      songKey={songKey}
+                      transposition={transposition}
                       onChordMove={(chordId, lineIndex, newPosition) => {
                         // Create a copy of the sections array
                         const updatedSections = [...song.sections];
@@ -729,8 +955,29 @@ export function SongEditor() {
             isViewMode={isViewMode}
           />
         </Tabs.Panel>
+
+        <Tabs.Panel value="history" pt="md">
+          <SongHistory
+            revisions={revisions}
+            isLoading={revisionsLoading}
+            onRestore={restoreRevision}
+            isViewMode={isViewMode}
+          />
+        </Tabs.Panel>
       </Tabs>
 
+      {pendingMerge && (
+        <SongMergeModal
+          key={pendingMerge.theirs.updatedAt}
+          opened
+          onClose={() => setPendingMerge(null)}
+          base={pendingMerge.base}
+          mine={pendingMerge.mine}
+          theirs={pendingMerge.theirs}
+          onMerge={saveMergedSong}
+        />
+      )}
+
       {/* Section editing modal */}
       {editingSectionIndex !== null && (
         <Modal
@@ -790,6 +1037,7 @@ export function SongEditor() {
             opened={exportModalOpen}
             onClose={() => setExportModalOpen(false)}
             sections={song.sections}
+            song={{ ...song, tags }}
           />
         </Suspense>
       )}
@@ -801,7 +1049,12 @@ export function SongEditor() {
             onClose={() => setTextEditorOpen(false)}
             sections={song.sections}
             onSave={(newSections) => {
-              setSong({ ...song, sections: updateSectionNumbers(newSections) });
+              // Text editing rebuilds the sections, so keep the ids of sections
+              // that stayed in place to preserve the arrangements
+              const sectionsWithIds = newSections.map((section, index) =>
+                song.sections[index]?.type === section.type ? { ...section, id: song.sections[index].id } : section
+              );
+              setSong({ ...song, sections: updateSectionNumbers(sectionsWithIds) });
               setTextEditorOpen(false);
             }}
           />
@@ -1,15 +1,18 @@
 import * as React from 'react';
 import '../components/TagInput.css';
 import { ColoredTag } from '../components/ColoredTag';
-import { Container, Title, Text, Button, Stack, Group, Paper, TextInput, ActionIcon, Skeleton, Checkbox, Menu, MultiSelect, Loader, Center } from '@mantine/core';
-import { useMediaQuery } from '@mantine/hooks';
+import { Container, Title, Text, Button, Stack, Group, Paper, TextInput, ActionIcon, Skeleton, Checkbox, Menu, MultiSelect, Loader, Center, SegmentedControl } from '@mantine/core';
+import { useDebouncedValue, useMediaQuery } from '@mantine/hooks';
 import { notifications } from '@mantine/notifications';
 import { Link, useNavigate } from 'react-router-dom';
 import { IconPlus, IconSearch, IconTrash, IconEdit, IconDots, IconDownload, IconSortAscending, IconSortDescending, IconTags, IconDatabase, IconUpload } from '@tabler/icons-react';
 import { DatabaseTools } from '../components/DatabaseTools';
+import { HighlightedSnippet } from '../components/HighlightedSnippet';
 import { getTagColor } from '../utils/tagColors';
 import { toTitleCase } from '../utils/formatters';
-import type { Song } from '../types/song';
+import type { SongQuery, SongSortField, SongSummary } from '../utils/storageInterface';
+import type { SearchScope } from '../utils/searchIndex';
+import { toSongSummary } from '../utils/songQuery';
 import { useStorage } from '../context/StorageContext';
 
 // Lazy load modal components
@@ -23,16 +26,49 @@ const ModalLoader = () => (
   </Center>
 );
 
-type SortField = 'title' | 'artist' | 'date';
 type SortDirection = 'asc' | 'desc';
 
+// Songs loaded at a time
+const PAGE_SIZE = 50;
+
+const SEARCH_SCOPES: { label: string; value: SearchScope }[] = [
+  { label: 'Title', value: 'title' },
+  { label: 'Lyrics', value: 'lyrics' },
+  { label: 'All', value: 'all' }
+];
+
+// Parse hashtags from search query
+const parseSearchQuery = (query: string) => {
+  const hashtagRegex = /#(\w+)/g;
+  const hashtags: string[] = [];
+  let match;
+  let plainQuery = query;
+  
+  // Extract hashtags from the query
+  while ((match = hashtagRegex.exec(query)) !== null) {
+    hashtags.push(match[1].toLowerCase());
+    // Remove the hashtag from the plain query
+    plainQuery = plainQuery.replace(match[0], '');
+  }
+  
+  return {
+    hashtags,
+    plainQuery: plainQuery.trim()
+  };
+};
+
 export function SongList() {
   const navigate = useNavigate();
-  const { songs: storageSongs, isLoading: storageLoading, deleteSong: deleteStorageSong, saveSong: saveStorageSong } = useStorage();
+  const { storage, songs: storageSongs, searchIndex, isLoading: storageLoading, deleteSong: deleteStorageSong, saveSong: saveStorageSong } = useStorage();
   const [searchQuery, setSearchQuery] = React.useState('');
-  const [songs, setSongs] = React.useState<Song[]>([]);
+  const [debouncedSearch] = useDebouncedValue(searchQuery, 200);
+  const [searchScope, setSearchScope] = React.useState<SearchScope>('all');
+  const [songs, setSongs] = React.useState<SongSummary[]>([]);
+  const [totalSongs, setTotalSongs] = React.useState(0);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [isQuerying, setIsQuerying] = React.useState(false);
   const [selectedSongs, setSelectedSongs] = React.useState<Set<string>>(new Set());
-  const [sortField, setSortField] = React.useState<SortField>('date');
+  const [sortField, setSongSortField] = React.useState<SongSortField>('updatedAt');
   const [sortDirection, setSortDirection] = React.useState<SortDirection>('desc');
   const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
   const [availableTags, setAvailableTags] = React.useState<{value: string; label: string}[]>([]);
@@ -73,60 +109,100 @@ export function SongList() {
     };
   }, []);
 
-  // Update local state when storage songs change
-  React.useEffect(() => {
-    setSongs(sortSongs(storageSongs, sortField, sortDirection));
-    
-    // Extract all unique tags from songs
-    const tags = new Set<string>();
-    storageSongs.forEach(song => {
-      if (song.tags && Array.isArray(song.tags) && song.tags.length > 0) {
-        song.tags.forEach(tag => tags.add(tag));
-      }
+  // When searching, the search index finds and ranks the songs, best match
+  // first, with the line that matched. Tags still filter the results. The
+  // index needs every song's lyrics, which is why StorageContext still loads
+  // the full songs: they are all on the device anyway, as the app works
+  // offline, and setlists and exports read them from there too.
+  const { plainQuery } = parseSearchQuery(debouncedSearch);
+  const searchMatches = React.useMemo(() => {
+    if (!plainQuery) return null;
+    const songsById = new Map(storageSongs.map(song => [song.id, song]));
+    return searchIndex.search(plainQuery, searchScope).flatMap(result => {
+      const song = songsById.get(result.songId);
+      if (!song || (selectedTags.length > 0 && !selectedTags.some(tag => song.tags?.includes(tag)))) return [];
+      return [{ summary: toSongSummary(song), snippet: result.snippet }];
     });
-    // Make sure we always have an array of objects with value and label properties
-    const tagOptions = Array.from(tags).sort().map(tag => ({ value: tag, label: tag }));
-    setAvailableTags(tagOptions.length > 0 ? tagOptions : []);
-  }, [storageSongs, sortField, sortDirection]);
-  
-  // Sort songs based on selected field and direction
-  const sortSongs = (songsToSort: Song[], field: SortField, direction: SortDirection): Song[] => {
-    const songsCopy = [...songsToSort];
-    
-    const sortMultiplier = direction === 'asc' ? 1 : -1;
-    
-    switch (field) {
-      case 'title':
-        return songsCopy.sort((a, b) => sortMultiplier * a.title.localeCompare(b.title));
-      case 'artist':
-        return songsCopy.sort((a, b) => sortMultiplier * a.artist.localeCompare(b.artist));
-      case 'date':
-        return songsCopy.sort((a, b) => sortMultiplier * (new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime()));
-      default:
-        return songsCopy;
+  }, [searchIndex, storageSongs, plainQuery, searchScope, selectedTags]);
+
+  const snippets = new Map((searchMatches || []).map(match => [match.summary.id, match.snippet]));
+
+  // Otherwise query the page of songs matching the tags and sort. Re-run
+  // whenever songs change in storage.
+  const songQuery = React.useMemo<SongQuery>(() => ({
+    tags: selectedTags,
+    sort: { field: sortField, direction: sortDirection },
+    limit: PAGE_SIZE
+  }), [selectedTags, sortField, sortDirection]);
+
+  React.useEffect(() => {
+    if (searchMatches) {
+      setSongs(searchMatches.slice(0, PAGE_SIZE).map(match => match.summary));
+      setTotalSongs(searchMatches.length);
+      setNextCursor(searchMatches.length > PAGE_SIZE ? String(PAGE_SIZE) : null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsQuerying(true);
+    storage.querySongs(songQuery)
+      .then(result => {
+        if (cancelled) return;
+        setSongs(result.songs);
+        setTotalSongs(result.total);
+        setNextCursor(result.nextCursor);
+      })
+      .catch(error => console.error('Failed to query songs:', error))
+      .finally(() => {
+        if (!cancelled) setIsQuerying(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, storageSongs, songQuery, searchMatches]);
+
+  // Tags to filter by, from every song rather than just the loaded page
+  React.useEffect(() => {
+    storage.getSongTags()
+      .then(tags => setAvailableTags(tags.map(tag => ({ value: tag, label: tag }))))
+      .catch(error => console.error('Failed to load tags:', error));
+  }, [storage, storageSongs]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    if (searchMatches) {
+      // The cursor is an offset into the search results
+      const offset = Number(nextCursor);
+      const end = offset + PAGE_SIZE;
+      setSongs(prev => [...prev, ...searchMatches.slice(offset, end).map(match => match.summary)]);
+      setNextCursor(end < searchMatches.length ? String(end) : null);
+      return;
+    }
+    setIsQuerying(true);
+    try {
+      const result = await storage.querySongs({ ...songQuery, cursor: nextCursor });
+      setSongs(prev => [...prev, ...result.songs]);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more songs:', error);
+    } finally {
+      setIsQuerying(false);
     }
   };
-  
+
   // Handle column header click for sorting
-  const handleSortClick = (field: SortField) => {
+  const handleSortClick = (field: SongSortField) => {
     if (field === sortField) {
       // Toggle direction if clicking the same field
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
       // Set new field with appropriate default direction
-      setSortField(field);
+      setSongSortField(field);
       // Default to descending for date (newest first), ascending for text fields
-      setSortDirection(field === 'date' ? 'desc' : 'asc');
+      setSortDirection(field === 'updatedAt' ? 'desc' : 'asc');
     }
   };
   
-  // Re-sort songs when sort field or direction changes
-  React.useEffect(() => {
-    if (songs.length > 0) {
-      setSongs(sortSongs([...songs], sortField, sortDirection));
-    }
-  }, [sortField, sortDirection]);
-
   const handleDelete = async (ids: string[]) => {
     try {
       for (const id of ids) {
@@ -135,7 +211,7 @@ export function SongList() {
       setSelectedSongs(new Set());
       notifications.show({
         title: 'Success',
-        message: ids.length > 1 ? 'Songs deleted successfully' : 'Song deleted successfully',
+        message: ids.length > 1 ? 'Songs moved to trash' : 'Song moved to trash',
         color: 'green'
       });
     } catch (error) {
@@ -150,33 +226,13 @@ export function SongList() {
   // Bulk export modal open/close and selected songs logic handled below
 
   const toggleSelectAll = () => {
-    if (selectedSongs.size === filteredSongs.length) {
+    if (selectedSongs.size === songs.length) {
       setSelectedSongs(new Set());
     } else {
-      setSelectedSongs(new Set(filteredSongs.map(song => song.id)));
+      setSelectedSongs(new Set(songs.map(song => song.id)));
     }
   };
 
-  // Parse hashtags from search query
-  const parseSearchQuery = (query: string) => {
-    const hashtagRegex = /#(\w+)/g;
-    const hashtags: string[] = [];
-    let match;
-    let plainQuery = query;
-    
-    // Extract hashtags from the query
-    while ((match = hashtagRegex.exec(query)) !== null) {
-      hashtags.push(match[1].toLowerCase());
-      // Remove the hashtag from the plain query
-      plainQuery = plainQuery.replace(match[0], '');
-    }
-    
-    return {
-      hashtags,
-      plainQuery: plainQuery.trim()
-    };
-  };
-
   // Handle search query changes and extract hashtags
   const handleSearchChange = (value: string) => {
     setSearchQuery(value);
@@ -207,82 +263,6 @@ export function SongList() {
     }
   };
 
-  // Filter and sort songs based on search query, including lyrics and tags
-  const filteredSongs = songs.filter(song => {
-    // First filter by tags if any are selected
-    if (selectedTags.length > 0) {
-      if (!song.tags || song.tags.length === 0) return false;
-      
-      // Check if song has at least one of the selected tags
-      const hasSelectedTag = selectedTags.some(tag => 
-        song.tags?.includes(tag)
-      );
-      
-      if (!hasSelectedTag) return false;
-    }
-    
-    // Then filter by search query if present
-    if (searchQuery) {
-      const { plainQuery, hashtags } = parseSearchQuery(searchQuery);
-      
-      // If we have hashtags but no plain query, we've already filtered by tags above
-      if (hashtags.length > 0 && !plainQuery) {
-        return true;
-      }
-      
-      // If we have a plain query, search by it
-      if (plainQuery) {
-        const query = plainQuery.toLowerCase();
-        
-        // Check title, artist, tags, and lyrics
-        return (
-          song.title.toLowerCase().includes(query) || 
-          song.artist.toLowerCase().includes(query) ||
-          (song.tags && song.tags.some(tag => tag.toLowerCase().includes(query))) ||
-          song.sections.some(section => section.content.toLowerCase().includes(query))
-        );
-      }
-    }
-    
-    return true; // If no search query, include all songs that passed tag filter
-  }).sort((a, b) => {
-    // If there's a search query, prioritize songs where the title matches
-    if (searchQuery) {
-      const { plainQuery } = parseSearchQuery(searchQuery);
-      if (plainQuery) {
-        const query = plainQuery.toLowerCase();
-        
-        // Check if title contains the query
-        const titleA = a.title.toLowerCase();
-        const titleB = b.title.toLowerCase();
-        
-        // If only one title contains the query, prioritize it
-        const aContainsQuery = titleA.includes(query);
-        const bContainsQuery = titleB.includes(query);
-        
-        if (aContainsQuery && !bContainsQuery) return -1;
-        if (!aContainsQuery && bContainsQuery) return 1;
-        
-        // If both titles contain the query, prioritize the one that starts with it
-        const aStartsWithQuery = titleA.startsWith(query);
-        const bStartsWithQuery = titleB.startsWith(query);
-        
-        if (aStartsWithQuery && !bStartsWithQuery) return -1;
-        if (!aStartsWithQuery && bStartsWithQuery) return 1;
-        
-        // If both titles start with the query, prioritize exact matches
-        const aExactMatch = titleA === query;
-        const bExactMatch = titleB === query;
-        
-        if (aExactMatch && !bExactMatch) return -1;
-        if (!aExactMatch && bExactMatch) return 1;
-      }
-    }
-    
-    // Fall back to the current sort order if no search query or both match equally
-    return 0;
-  });
-
   return (
     <Container size="lg">
       <Stack gap="xl">
@@ -347,6 +327,12 @@ export function SongList() {
               id="songs-search"
               size="md"
             />
+            <SegmentedControl
+              data={SEARCH_SCOPES}
+              value={searchScope}
+              onChange={value => setSearchScope(value as SearchScope)}
+              fullWidth
+            />
             <MultiSelect
               data={availableTags}
               value={selectedTags}
@@ -392,11 +378,11 @@ export function SongList() {
                 />
               ))}
             </Group>
-            {filteredSongs.length > 0 && (
+            {songs.length > 0 && (
               <Checkbox
                 label="Select All"
-                checked={selectedSongs.size === filteredSongs.length}
-                indeterminate={selectedSongs.size > 0 && selectedSongs.size < filteredSongs.length}
+                checked={selectedSongs.size === songs.length}
+                indeterminate={selectedSongs.size > 0 && selectedSongs.size < songs.length}
                 onChange={toggleSelectAll}
                 size="md"
               />
@@ -404,14 +390,23 @@ export function SongList() {
           </Stack>
         ) : (
           <Stack gap="sm">
-            <TextInput
-              placeholder="Search titles, artists, or lyrics..."
-              leftSection={<IconSearch size={16} />}
-              value={searchQuery}
-              onChange={(e) => handleSearchChange(e.target.value)}
-              autoFocus
-              id="songs-search"
-            />
+            <Group gap="sm" wrap="nowrap">
+              <TextInput
+                placeholder="Search titles, artists, or lyrics..."
+                leftSection={<IconSearch size={16} />}
+                value={searchQuery}
+                onChange={(e) => handleSearchChange(e.target.value)}
+                autoFocus
+                id="songs-search"
+                style={{ flex: 1 }}
+              />
+              <Text size="sm" c="dimmed">Search in</Text>
+              <SegmentedControl
+                data={SEARCH_SCOPES}
+                value={searchScope}
+                onChange={value => setSearchScope(value as SearchScope)}
+              />
+            </Group>
             <Group align="flex-end" wrap="nowrap" style={{ overflow: 'hidden' }}>
               <MultiSelect
                 data={availableTags}
@@ -457,11 +452,11 @@ export function SongList() {
                 />
               ))}
             </Group>
-            {filteredSongs.length > 0 && (
+            {songs.length > 0 && (
               <Checkbox
                 label="Select All"
-                checked={selectedSongs.size === filteredSongs.length}
-                indeterminate={selectedSongs.size > 0 && selectedSongs.size < filteredSongs.length}
+                checked={selectedSongs.size === songs.length}
+                indeterminate={selectedSongs.size > 0 && selectedSongs.size < songs.length}
                 onChange={toggleSelectAll}
               />
             )}
@@ -470,8 +465,9 @@ export function SongList() {
 
 
 
-        {/* Column Headers with Sort Indicators */}
-        {filteredSongs.length > 0 && (
+        {/* Column Headers with Sort Indicators. Search results are ranked by
+            how well they match instead. */}
+        {songs.length > 0 && !searchMatches && (
           <Group style={{ padding: '0 12px' }}>
             <Button 
               variant="subtle" 
@@ -493,8 +489,8 @@ export function SongList() {
             </Button>
             <Button 
               variant="subtle" 
-              onClick={() => handleSortClick('date')}
-              rightSection={sortField === 'date' ? 
+              onClick={() => handleSortClick('updatedAt')}
+              rightSection={sortField === 'updatedAt' ? 
                 (sortDirection === 'asc' ? <IconSortAscending size={16} /> : <IconSortDescending size={16} />) : null}
               style={{ width: '150px' }}
             >
@@ -510,9 +506,9 @@ export function SongList() {
               <Skeleton key={i} height={80} radius="sm" />
             ))}
           </Stack>
-        ) : filteredSongs.length > 0 ? (
+        ) : songs.length > 0 ? (
           <Stack gap="md">
-            {filteredSongs.map(song => (
+            {songs.map(song => (
               <Paper
                 p="md"
                 withBorder
@@ -547,6 +543,7 @@ export function SongList() {
                     <Stack gap={4}>
                       <Text fw={500} size="lg">{song.title}</Text>
                       <Text size="sm" c="dimmed">{song.artist}</Text>
+                      <HighlightedSnippet snippet={snippets.get(song.id)} />
                       <Text size="xs" c="dimmed">
                         Last updated: {new Date(song.updatedAt).toLocaleString()}
                       </Text>
@@ -609,6 +606,16 @@ export function SongList() {
                 </Group>
               </Paper>
             ))}
+            <Group justify="space-between">
+              <Text size="sm" c="dimmed">
+                Showing {songs.length} of {totalSongs} songs
+              </Text>
+              {nextCursor && (
+                <Button variant="light" onClick={loadMore} loading={isQuerying}>
+                  Load More
+                </Button>
+              )}
+            </Group>
           </Stack>
         ) : (
           <Paper withBorder p="xl">
@@ -635,7 +642,7 @@ export function SongList() {
             <BulkExportModal
               opened={bulkExportOpen}
               onClose={() => setBulkExportOpen(false)}
-              songs={songs.filter(song => selectedSongs.has(song.id))}
+              songs={storageSongs.filter(song => selectedSongs.has(song.id))}
             />
           </React.Suspense>
         )}
@@ -659,7 +666,11 @@ export function SongList() {
                 title: toTitleCase(metadata?.title || 'Imported Song'),
                 artist: metadata?.artist || 'Unknown Artist',
                 sections: sections,
-                tags: []
+                tags: metadata?.tags || [],
+                originalKey: metadata?.key,
+                tempo: metadata?.tempo,
+                arrangements: metadata?.arrangements,
+                activeArrangementId: metadata?.activeArrangementId
               };
               
               // Add the song to the database
@@ -0,0 +1,143 @@
+import * as React from 'react';
+import { Container, Title, Text, Button, Stack, Group, Paper, Skeleton, Modal, Anchor } from '@mantine/core';
+import { useMediaQuery } from '@mantine/hooks';
+import { Link } from 'react-router-dom';
+import { IconArrowBackUp, IconTrashX } from '@tabler/icons-react';
+import { useStorage } from '../context/StorageContext';
+import { useSettings } from '../context/SettingsContext';
+import { DEFAULT_TRASH_RETENTION_DAYS, getPurgeDate } from '../utils/trash';
+
+export function Trash() {
+  const { trashedSongs, isLoading, restoreSong, purgeSongs } = useStorage();
+  const { settings } = useSettings();
+  // Songs waiting for confirmation before being deleted for good
+  const [pendingPurge, setPendingPurge] = React.useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const isMobile = useMediaQuery('(max-width: 48em)');
+  const retentionDays = settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+  const handleRestore = async (id: string) => {
+    try {
+      setIsWorking(true);
+      await restoreSong(id);
+    } catch (error) {
+      // Error notification is shown by the storage context
+      console.error('Failed to restore song:', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!pendingPurge) return;
+    try {
+      setIsWorking(true);
+      await purgeSongs(pendingPurge);
+    } catch (error) {
+      console.error('Failed to purge songs:', error);
+    } finally {
+      setIsWorking(false);
+      setPendingPurge(null);
+    }
+  };
+
+  return (
+    <Container size="lg">
+      <Stack gap="xl">
+        <Group justify="space-between">
+          <Title order={1}>Trash</Title>
+          <Button
+            color="red"
+            variant="light"
+            leftSection={<IconTrashX size={16} />}
+            onClick={() => setPendingPurge(trashedSongs.map(song => song.id))}
+            disabled={trashedSongs.length === 0 || isWorking}
+            size={isMobile ? "sm" : "md"}
+          >
+            Empty Trash
+          </Button>
+        </Group>
+
+        <Text size="sm" c="dimmed">
+          {retentionDays > 0
+            ? `Deleted songs are removed for good after ${retentionDays} days.`
+            : 'Deleted songs stay here until you remove them.'}
+          {' '}
+          <Anchor component={Link} to="/settings" size="sm">Change in settings</Anchor>
+        </Text>
+
+        {isLoading ? (
+          <Stack gap="sm">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} height={80} radius="sm" />
+            ))}
+          </Stack>
+        ) : trashedSongs.length > 0 ? (
+          <Stack gap="md">
+            {trashedSongs.map(song => {
+              const purgeDate = getPurgeDate(song, retentionDays);
+              return (
+                <Paper p="md" withBorder shadow="sm" key={song.id}>
+                  <Group justify="space-between" align="center">
+                    <Stack gap={4}>
+                      <Text fw={500} size="lg">{song.title || 'Untitled'}</Text>
+                      <Text size="sm" c="dimmed">
+                        {song.artist ? `${song.artist} · ` : ''}
+                        Deleted {new Date(song.deletedAt!).toLocaleDateString()}
+                        {purgeDate && ` · Removed for good on ${purgeDate.toLocaleDateString()}`}
+                      </Text>
+                    </Stack>
+                    <Group gap="xs">
+                      <Button
+                        variant="light"
+                        leftSection={<IconArrowBackUp size={16} />}
+                        onClick={() => handleRestore(song.id)}
+                        disabled={isWorking}
+                        size={isMobile ? "sm" : "md"}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        variant="subtle"
+                        color="red"
+                        onClick={() => setPendingPurge([song.id])}
+                        disabled={isWorking}
+                        size={isMobile ? "sm" : "md"}
+                      >
+                        {isMobile ? 'Delete' : 'Delete Forever'}
+                      </Button>
+                    </Group>
+                  </Group>
+                </Paper>
+              );
+            })}
+          </Stack>
+        ) : (
+          <Paper withBorder p="xl">
+            <Text size="lg" c="dimmed" ta="center">Trash is empty</Text>
+          </Paper>
+        )}
+      </Stack>
+
+      <Modal
+        opened={pendingPurge !== null}
+        onClose={() => setPendingPurge(null)}
+        title="Delete forever?"
+        centered
+      >
+        <Stack gap="md">
+          <Text size="sm">
+            {pendingPurge?.length === 1
+              ? 'This song and its history will be deleted permanently. This cannot be undone.'
+              : `${pendingPurge?.length} songs and their history will be deleted permanently. This cannot be undone.`}
+          </Text>
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setPendingPurge(null)}>Cancel</Button>
+            <Button color="red" onClick={handlePurge} loading={isWorking}>Delete Forever</Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </Container>
+  );
+}
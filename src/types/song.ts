@@ -6,6 +6,7 @@ export interface Chord {
 }
 
 export interface Section {
+  id?: string; // Stable id so arrangements can refer to the section
   type: 'verse' | 'chorus' | 'bridge' | 'tag' | 'break' | 'intro' | 'outro' | 'pre-chorus';
   content: string;
   number?: number;
@@ -24,6 +25,60 @@ export interface Song {
   originalSections?: Section[]; // Store original sections before transposition
   tags?: string[]; // Array of tags for categorizing songs
   notes?: string; // Rich text notes for the song
+  tempo?: string; // Tempo in BPM, e.g. from a ChordPro {tempo} directive
+  capo?: number; // Fret the capo sits on; chords are stored in concert pitch
+  arrangements?: Arrangement[]; // Named performance orders of the sections
+  activeArrangementId?: string;
+  truncated?: boolean; // Cut short by the old cloud size limit and needs checking
+  deletedAt?: string; // Set while the song is in the trash
   // For backward compatibility:
   currentTranspose?: string;
 }
+
+// How chords are shown when a song has a capo: as sounding (concert) chords,
+// as the shapes a guitarist plays, or both
+export type ChordDisplayMode = 'concert' | 'shape' | 'both';
+
+// How chords are written: as absolute chords, Nashville numbers (1, 4, 5/7)
+// or Roman numerals (I, IV, V/vii)
+export type ChordNotation = 'chords' | 'nashville' | 'roman';
+
+export interface ArrangementItem {
+  sectionId: string;
+  repeat?: number; // Times the section is played in a row, defaults to 1
+}
+
+export interface Arrangement {
+  id: string;
+  name: string;
+  items: ArrangementItem[];
+}
+
+export interface SetlistEntry {
+  id: string;
+  songId: string;
+  key?: string; // Key to play the song in for this service
+  capo?: number;
+  notes?: string;
+}
+
+export interface Setlist {
+  id: string;
+  name: string;
+  date: string; // Service date as YYYY-MM-DD
+  entries: SetlistEntry[]; // Songs in running order
+  createdAt: string;
+  updatedAt: string;
+  notes?: string;
+}
+
+// A saved version of a song, kept so earlier versions can be compared and
+// restored
+export interface SongRevision {
+  id: string;
+  songId: string;
+  author: string; // Who saved it - name or email, empty when not logged in
+  createdAt: string;
+  updatedAt: string; // Same as createdAt; revisions are never edited
+  snapshot: Song; // The full song as it was saved
+}
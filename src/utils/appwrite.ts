@@ -1,10 +1,14 @@
 import { Client, Databases, Account, ID } from 'appwrite';
+import type { RealtimeResponseEvent } from 'appwrite';
 
 // Appwrite configuration from environment variables
 const PROJECT_ID = import.meta.env.VITE_APPWRITE_PROJECT_ID;
 const ENDPOINT = import.meta.env.VITE_APPWRITE_ENDPOINT;
 const DATABASE_ID = import.meta.env.VITE_APPWRITE_DATABASE_ID || 'songbuilder-db';
 const SONGS_COLLECTION_ID = import.meta.env.VITE_APPWRITE_SONGS_COLLECTION_ID || 'songs';
+const SETLISTS_COLLECTION_ID = import.meta.env.VITE_APPWRITE_SETLISTS_COLLECTION_ID || 'setlists';
+const SONG_CHUNKS_COLLECTION_ID = import.meta.env.VITE_APPWRITE_SONG_CHUNKS_COLLECTION_ID || 'song-chunks';
+const REVISIONS_COLLECTION_ID = import.meta.env.VITE_APPWRITE_REVISIONS_COLLECTION_ID || 'revisions';
 
 // Validate required environment variables
 if (!PROJECT_ID) {
@@ -27,9 +31,40 @@ export const account = new Account(client);
 export const config = {
   databaseId: DATABASE_ID,
   songsCollectionId: SONGS_COLLECTION_ID,
+  setlistsCollectionId: SETLISTS_COLLECTION_ID,
+  songChunksCollectionId: SONG_CHUNKS_COLLECTION_ID,
+  revisionsCollectionId: REVISIONS_COLLECTION_ID,
 };
 
 // Generate unique ID
 export const generateId = () => ID.unique();
 
+// A document created, changed or deleted in one of our collections
+export interface DocumentChange {
+  collectionId: string;
+  documentId: string;
+  action: 'create' | 'update' | 'delete';
+}
+
+/**
+ * Listen for documents changing in the given collections, from any device.
+ * Each change comes with a list of events, from the exact one, e.g.
+ * "databases.db.collections.songs.documents.abc.update", to wildcard forms.
+ * Returns a function that ends the subscription.
+ */
+export function subscribeToDocuments(collectionIds: string[], onChange: (change: DocumentChange) => void): () => void {
+  const channels = collectionIds.map(collectionId => `databases.${DATABASE_ID}.collections.${collectionId}.documents`);
+  const pattern = new RegExp(`^databases\\.${DATABASE_ID}\\.collections\\.([^.*]+)\\.documents\\.([^.*]+)\\.(create|update|delete)$`);
+
+  return client.subscribe(channels, (response: RealtimeResponseEvent<unknown>) => {
+    for (const event of response.events) {
+      const match = pattern.exec(event);
+      if (match) {
+        onChange({ collectionId: match[1], documentId: match[2], action: match[3] as DocumentChange['action'] });
+        return;
+      }
+    }
+  });
+}
+
 export default client;
\ No newline at end of file
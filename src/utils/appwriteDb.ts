@@ -1,8 +1,15 @@
 import { databases, config, generateId, account } from './appwrite';
 import { Query } from 'appwrite';
+import type { Models } from 'appwrite';
 import { logger } from './logger';
-import type { Song } from '../types/song';
-import type { StorageService } from './storageInterface';
+import { SONG_FIELD_LIMITS } from './validation';
+import { createRevision, isSameRevisionContent } from './revisions';
+import { DEFAULT_SONG_SORT, foldSearchText, getSongKey, getSongSearchText } from './songQuery';
+import type { Song, Setlist, Section, SongRevision } from '../types/song';
+import type { StorageService, SongQuery, SongQueryResult, SongSummary, SongUpdateOptions } from './storageInterface';
+import { SongConflictError } from './storageInterface';
+import { importSongs, parseImportedSongs } from './importValidation';
+import type { ImportReport } from './importValidation';
 
 // Check if user is authenticated before database operations
 async function ensureAuthenticated(): Promise<void> {
@@ -36,138 +43,340 @@ interface AppwriteDocument {
   $permissions?: string[];
 }
 
-// Song interface for Appwrite (sections as JSON string)
+// Song interface for Appwrite. The body (sections, notes, key, arrangements
+// and so on) is stored losslessly: inline in `body` when it fits the
+// attribute, otherwise split across documents in the song-chunks collection.
 interface AppwriteSong extends AppwriteDocument {
   id: string;
   title: string;
   artist: string;
-  sections: string; // JSON string in database
+  sections: string; // JSON string, kept for older versions of the app ('[]' when too big)
+  body?: string; // JSON of the SongBody when it fits
+  bodyId?: string; // Identifies the chunk documents when it doesn't
+  bodyChunks?: number;
   createdAt: string;
   updatedAt: string;
   tags?: string[];
   notes?: string;
+  truncated?: boolean;
+  deletedAt?: string | null; // Set while the song is in the trash
+  key?: string; // Key the song is played in, for querySongs
+  searchText?: string; // Folded title, artist, tags and lyrics, for querySongs
 }
 
-export async function saveSong(song: Omit<Song, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
-  await ensureAuthenticated();
-  try {
-    const processedTags = Array.isArray(song.tags) 
-      ? song.tags
-          .map(tag => String(tag).trim())
-          .filter(tag => tag.length > 0)
-      : [];
-    
-    const songId = generateId();
-    const now = new Date().toISOString();
-    
-    // Function to progressively truncate sections until they fit
-    const truncateSections = (sections: typeof song.sections, maxLength: number = 10000): string => {
-      let json = JSON.stringify(sections);
-      if (json.length <= maxLength) return json;
-      
-      // First attempt: Remove all whitespace from content
-      let trimmedSections = sections.map(section => ({
-        ...section,
-        content: section.content.replace(/\s+/g, ' ').trim(),
-        chords: section.chords || []
-      }));
-      json = JSON.stringify(trimmedSections);
-      if (json.length <= maxLength) {
-        logger.warn(`Compressed sections by removing whitespace: ${json.length} chars`);
-        return json;
-      }
-      
-      // Second attempt: Limit content length progressively
-      const maxContentLengths = [2000, 1500, 1000, 750, 500, 300, 200, 100];
-      for (const maxLen of maxContentLengths) {
-        trimmedSections = sections.map(section => ({
-          ...section,
-          content: section.content.substring(0, maxLen).trim(),
-          chords: (section.chords || []).slice(0, 50) // Also limit chords
-        }));
-        json = JSON.stringify(trimmedSections);
-        if (json.length <= maxLength) {
-          logger.warn(`Truncated sections to ${maxLen} chars per section: total ${json.length} chars`);
-          return json;
-        }
-      }
-      
-      // Final attempt: Keep only essential data
-      trimmedSections = sections.slice(0, 10).map(section => ({
-        type: section.type,
-        content: section.content.substring(0, 100).trim(),
-        chords: []
-      }));
-      json = JSON.stringify(trimmedSections);
-      
-      if (json.length > maxLength) {
-        throw new Error(`Song content is too large even after aggressive truncation. Please split into multiple songs.`);
-      }
-      
-      logger.warn(`Aggressively truncated to first 10 sections with 100 chars each: ${json.length} chars`);
-      return json;
-    };
-    
-    // Create clean object with only allowed fields
-    const songWithMetadata: Omit<AppwriteSong, '$id'> = {
-      id: songId,
-      title: song.title,
-      artist: song.artist,
-      sections: truncateSections(song.sections),
-      createdAt: now,
-      updatedAt: now,
-      tags: processedTags,
-      notes: song.notes || ''
-    };
+// A saved version of a song. The snapshot is stored like a song body, with
+// chunks (under the revision's id) when it is too big for one attribute.
+interface AppwriteRevision extends AppwriteDocument {
+  id: string;
+  songId: string;
+  author: string;
+  createdAt: string;
+  body: string;
+  bodyId: string;
+  bodyChunks: number;
+}
 
-    console.log('Saving song with data:', songWithMetadata); // Debug log
+// One piece of a song body too big for a single attribute
+interface AppwriteSongChunk extends AppwriteDocument {
+  songId: string;
+  bodyId: string;
+  index: number;
+  data: string;
+}
 
-    const result = await databases.createDocument(
+// Everything about a song that isn't kept in its own attribute
+type SongBody = Pick<Song,
+  'sections' | 'notes' | 'originalKey' | 'transposedKey' | 'originalSections' |
+  'tempo' | 'capo' | 'arrangements' | 'activeArrangementId'
+>;
+
+// Attribute sizes from the Appwrite schema (see README)
+const SONG_LIMITS = {
+  title: SONG_FIELD_LIMITS.title,
+  artist: SONG_FIELD_LIMITS.artist,
+  tag: SONG_FIELD_LIMITS.tag,
+  notes: 5000,
+  sections: 10000,
+  body: 10000,
+  chunk: 10000
+};
+
+/**
+ * Thrown when a song can't be stored in the cloud without losing part of it.
+ * Nothing is ever shortened to make it fit.
+ */
+export class CloudStorageLimitError extends Error {
+  public field: string;
+
+  constructor(field: string, message: string) {
+    super(message);
+    this.name = 'CloudStorageLimitError';
+    this.field = field;
+  }
+}
+
+// Fetch every document in a collection. listDocuments returns 25 documents
+// by default, so page through with a cursor.
+async function listAllDocuments(collectionId: string, queries: string[] = []): Promise<Models.Document[]> {
+  const pageSize = 100;
+  const documents: Models.Document[] = [];
+
+  while (true) {
+    const cursor = documents.length > 0 ? [Query.cursorAfter(documents[documents.length - 1].$id)] : [];
+    const result = await databases.listDocuments(
       config.databaseId,
-      config.songsCollectionId,
-      songId,
-      songWithMetadata
+      collectionId,
+      [...queries, Query.limit(pageSize), ...cursor]
     );
+    documents.push(...result.documents);
+    if (result.documents.length < pageSize) {
+      return documents;
+    }
+  }
+}
 
-    logger.log('Song saved successfully:', result.$id);
-    return result.$id;
+// Appwrite returns datetimes as e.g. 2024-05-01T10:00:00.000+00:00. Sync
+// compares timestamps as strings, so bring them back to toISOString form.
+function normalizeDate(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+function processTags(tags: Song['tags']): string[] {
+  return Array.isArray(tags)
+    ? tags
+        .map(tag => String(tag).trim())
+        .filter(tag => tag.length > 0)
+    : [];
+}
+
+function getSongBody(song: Song): SongBody {
+  return {
+    sections: song.sections,
+    notes: song.notes || '',
+    originalKey: song.originalKey,
+    transposedKey: song.transposedKey,
+    originalSections: song.originalSections,
+    tempo: song.tempo,
+    capo: song.capo,
+    arrangements: song.arrangements,
+    activeArrangementId: song.activeArrangementId
+  };
+}
+
+// Check the fields that have to fit in their own attributes
+function checkSongLimits(song: Song, tags: string[]): void {
+  if (song.title.length > SONG_LIMITS.title) {
+    throw new CloudStorageLimitError('title', `Title is longer than ${SONG_LIMITS.title} characters`);
+  }
+  if (song.artist.length > SONG_LIMITS.artist) {
+    throw new CloudStorageLimitError('artist', `Artist is longer than ${SONG_LIMITS.artist} characters`);
+  }
+  const longTag = tags.find(tag => tag.length > SONG_LIMITS.tag);
+  if (longTag) {
+    throw new CloudStorageLimitError('tags', `Tag "${longTag.substring(0, 20)}..." is longer than ${SONG_LIMITS.tag} characters`);
+  }
+}
+
+// Split text into chunk-sized pieces without breaking up a surrogate pair
+function splitIntoChunks(text: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + SONG_LIMITS.chunk, text.length);
+    const lastCode = text.charCodeAt(end - 1);
+    if (end < text.length && lastCode >= 0xd800 && lastCode <= 0xdbff) {
+      end--;
+    }
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+
+  return chunks;
+}
+
+// Body attributes of a document: the JSON inline when it fits, otherwise the
+// id and count of the chunk documents holding it
+interface StoredBody {
+  body: string;
+  bodyId: string;
+  bodyChunks: number;
+}
+
+/**
+ * Store a JSON body for a song or revision. Bodies too big for one attribute
+ * are written to chunk documents under the owner's id first.
+ */
+async function writeBody(ownerId: string, body: string): Promise<StoredBody> {
+  if (body.length <= SONG_LIMITS.body) {
+    return { body, bodyId: '', bodyChunks: 0 };
+  }
+
+  const bodyId = generateId();
+  const chunks = splitIntoChunks(body);
+  for (let index = 0; index < chunks.length; index++) {
+    const chunk: Omit<AppwriteSongChunk, '$id'> = { songId: ownerId, bodyId, index, data: chunks[index] };
+    await databases.createDocument(config.databaseId, config.songChunksCollectionId, generateId(), chunk);
+  }
+  return { body: '', bodyId, bodyChunks: chunks.length };
+}
+
+/**
+ * Read back a body written by writeBody, or null for documents without one.
+ * A missing chunk is an error rather than a shorter body.
+ */
+function readBody<T>(doc: Models.Document, chunks: Models.Document[] = [], label: string): T | null {
+  if (doc.bodyId) {
+    const ordered = [...chunks].sort((a, b) => a.index - b.index);
+    if (ordered.length !== doc.bodyChunks || ordered.some((chunk, index) => chunk.index !== index)) {
+      throw new Error(`"${label}" is missing part of its content in the cloud (${ordered.length} of ${doc.bodyChunks} pieces found)`);
+    }
+    return JSON.parse(ordered.map(chunk => chunk.data).join(''));
+  }
+  return doc.body ? JSON.parse(doc.body) : null;
+}
+
+/**
+ * Write a song document, with its body in chunk documents when it is too big
+ * to keep inline. New chunks are written before the song points at them and
+ * old ones removed after, so an interrupted save never leaves a half body.
+ */
+async function writeSongDocument(song: Song, mode: 'create' | 'upsert'): Promise<string> {
+  const tags = processTags(song.tags);
+  checkSongLimits(song, tags);
+
+  const storedBody = await writeBody(song.id, JSON.stringify(getSongBody(song)));
+  const sections = JSON.stringify(song.sections);
+  const notes = song.notes || '';
+
+  const documentData: Omit<AppwriteSong, '$id'> = {
+    id: song.id,
+    title: song.title,
+    artist: song.artist,
+    sections: sections.length <= SONG_LIMITS.sections ? sections : '[]',
+    ...storedBody,
+    createdAt: song.createdAt,
+    updatedAt: song.updatedAt,
+    tags,
+    // The full notes are always in the body
+    notes: notes.length <= SONG_LIMITS.notes ? notes : '',
+    truncated: song.truncated || false,
+    deletedAt: song.deletedAt || null,
+    key: getSongKey(song) || '',
+    searchText: getSongSearchText(song)
+  };
+
+  let result: Models.Document;
+  if (mode === 'create') {
+    result = await databases.createDocument(config.databaseId, config.songsCollectionId, song.id, documentData);
+  } else {
+    try {
+      result = await databases.updateDocument(config.databaseId, config.songsCollectionId, song.id, documentData);
+    } catch (error) {
+      if ((error as { code?: number }).code !== 404) throw error;
+      result = await databases.createDocument(config.databaseId, config.songsCollectionId, song.id, documentData);
+    }
+  }
+
+  await deleteSongChunks(song.id, storedBody.bodyId);
+  return result.$id;
+}
+
+// Remove a song's chunk documents, apart from those of the body in use
+async function deleteSongChunks(songId: string, keepBodyId: string = ''): Promise<void> {
+  const queries = [Query.equal('songId', songId)];
+  if (keepBodyId) {
+    queries.push(Query.notEqual('bodyId', keepBodyId));
+  }
+  const staleChunks = await listAllDocuments(config.songChunksCollectionId, queries);
+  for (const chunk of staleChunks) {
+    await databases.deleteDocument(config.databaseId, config.songChunksCollectionId, chunk.$id);
+  }
+}
+
+// Fetch the chunk documents of the given bodies, grouped by body id
+async function getBodyChunks(bodyIds: string[]): Promise<Map<string, Models.Document[]>> {
+  const chunksByBody = new Map<string, Models.Document[]>();
+
+  // Query.equal takes at most 100 values
+  for (let start = 0; start < bodyIds.length; start += 100) {
+    const chunks = await listAllDocuments(
+      config.songChunksCollectionId,
+      [Query.equal('bodyId', bodyIds.slice(start, start + 100))]
+    );
+    for (const chunk of chunks) {
+      chunksByBody.set(chunk.bodyId, [...(chunksByBody.get(chunk.bodyId) || []), chunk]);
+    }
+  }
+
+  return chunksByBody;
+}
+
+/**
+ * Convert an Appwrite document to a Song object. Songs stored in chunks need
+ * their chunk documents.
+ */
+function documentToSong(doc: Models.Document, chunks: Models.Document[] = []): Song {
+  // Songs saved by an older version of the app only have sections
+  const body: Partial<SongBody> = readBody<SongBody>(doc, chunks, doc.title) || {
+    sections: typeof doc.sections === 'string' ? JSON.parse(doc.sections) : doc.sections,
+    notes: doc.notes || ''
+  };
+
+  return {
+    ...body,
+    id: doc.id,
+    title: doc.title,
+    artist: doc.artist,
+    sections: body.sections || [],
+    notes: body.notes || '',
+    createdAt: normalizeDate(doc.createdAt),
+    updatedAt: normalizeDate(doc.updatedAt),
+    tags: doc.tags || [],
+    ...(doc.truncated ? { truncated: true } : {}),
+    ...(doc.deletedAt ? { deletedAt: normalizeDate(doc.deletedAt) } : {})
+  };
+}
+
+export async function saveSong(song: Omit<Song, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+  await ensureAuthenticated();
+  try {
+    const now = new Date().toISOString();
+    const songId = await writeSongDocument({ ...song, id: generateId(), createdAt: now, updatedAt: now }, 'create');
+
+    logger.log('Song saved successfully:', songId);
+    return songId;
   } catch (error) {
     console.error('Error in saveSong:', error);
     throw error;
   }
 }
 
-export async function getAllSongs(): Promise<Song[]> {
+/**
+ * Get every song, leaving out those in the trash unless asked for. Sync
+ * needs them all so trashing a song reaches other devices.
+ */
+export async function getAllSongs(options: { includeTrashed?: boolean } = {}): Promise<Song[]> {
   await ensureAuthenticated();
   try {
-    const result = await databases.listDocuments(
-      config.databaseId,
-      config.songsCollectionId,
-      [Query.orderDesc('createdAt')]
-    );
+    const queries = [Query.orderDesc('createdAt')];
+    if (!options.includeTrashed) {
+      queries.push(Query.isNull('deletedAt'));
+    }
+    const documents = await listAllDocuments(config.songsCollectionId, queries);
 
-    logger.log('Retrieved songs:', result.documents.length);
-    
-    // Convert Appwrite documents to Song objects
-    const songs: Song[] = result.documents.map((doc: any) => ({
-      id: doc.id,
-      title: doc.title,
-      artist: doc.artist,
-      sections: typeof doc.sections === 'string' ? JSON.parse(doc.sections) : doc.sections,
-      createdAt: doc.createdAt,
-      updatedAt: doc.updatedAt,
-      tags: doc.tags || [],
-      notes: doc.notes || ''
-    }));
-    
-    return songs;
+    logger.log('Retrieved songs:', documents.length);
+
+    const chunksByBody = await getBodyChunks(documents.filter(doc => doc.bodyId).map(doc => doc.bodyId));
+    return documents.map(doc => documentToSong(doc, chunksByBody.get(doc.bodyId)));
   } catch (error) {
     console.error('Error in getAllSongs:', error);
     throw error;
   }
 }
 
-export async function getSong(id: string): Promise<Song | null> {
+export async function getSong(id: string, options: { includeTrashed?: boolean } = {}): Promise<Song | null> {
   await ensureAuthenticated();
   try {
     const result = await databases.getDocument(
@@ -177,22 +386,12 @@ export async function getSong(id: string): Promise<Song | null> {
     );
 
     logger.log('Retrieved song:', id, result ? 'found' : 'not found');
-    
-    // Convert Appwrite document to Song object
-    const song: Song = {
-      id: result.id,
-      title: result.title,
-      artist: result.artist,
-      sections: typeof result.sections === 'string' ? JSON.parse(result.sections) : result.sections,
-      createdAt: result.createdAt,
-      updatedAt: result.updatedAt,
-      tags: result.tags || [],
-      notes: result.notes || ''
-    };
-    
-    return song;
-  } catch (error: any) {
-    if (error.code === 404) {
+    if (result.deletedAt && !options.includeTrashed) return null;
+
+    const chunksByBody = result.bodyId ? await getBodyChunks([result.bodyId]) : new Map<string, Models.Document[]>();
+    return documentToSong(result, chunksByBody.get(result.bodyId));
+  } catch (error) {
+    if ((error as { code?: number }).code === 404) {
       return null;
     }
     console.error('Error in getSong:', error);
@@ -200,87 +399,167 @@ export async function getSong(id: string): Promise<Song | null> {
   }
 }
 
-export async function updateSong(song: Song): Promise<void> {
+export async function updateSong(song: Song, options: SongUpdateOptions = {}): Promise<Song> {
   await ensureAuthenticated();
   try {
-    const processedTags = Array.isArray(song.tags) 
-      ? song.tags
-          .map(tag => String(tag).trim())
-          .filter(tag => tag.length > 0)
-      : [];
-    
-    // Function to progressively truncate sections until they fit
-    const truncateSections = (sections: typeof song.sections, maxLength: number = 10000): string => {
-      let json = JSON.stringify(sections);
-      if (json.length <= maxLength) return json;
-      
-      // First attempt: Remove all whitespace from content
-      let trimmedSections = sections.map(section => ({
-        ...section,
-        content: section.content.replace(/\s+/g, ' ').trim(),
-        chords: section.chords || []
-      }));
-      json = JSON.stringify(trimmedSections);
-      if (json.length <= maxLength) {
-        logger.warn(`Compressed sections by removing whitespace: ${json.length} chars`);
-        return json;
+    // Compare with the stored version first. Appwrite has no conditional
+    // writes, so this narrows the window for overwriting rather than
+    // closing it.
+    if (options.expectedUpdatedAt) {
+      const stored = await getSong(song.id, { includeTrashed: true });
+      if (stored && stored.updatedAt !== options.expectedUpdatedAt) {
+        throw new SongConflictError(stored);
       }
-      
-      // Second attempt: Limit content length progressively
-      const maxContentLengths = [2000, 1500, 1000, 750, 500, 300, 200, 100];
-      for (const maxLen of maxContentLengths) {
-        trimmedSections = sections.map(section => ({
-          ...section,
-          content: section.content.substring(0, maxLen).trim(),
-          chords: (section.chords || []).slice(0, 50) // Also limit chords
-        }));
-        json = JSON.stringify(trimmedSections);
-        if (json.length <= maxLength) {
-          logger.warn(`Truncated sections to ${maxLen} chars per section: total ${json.length} chars`);
-          return json;
-        }
-      }
-      
-      // Final attempt: Keep only essential data
-      trimmedSections = sections.slice(0, 10).map(section => ({
-        type: section.type,
-        content: section.content.substring(0, 100).trim(),
-        chords: []
-      }));
-      json = JSON.stringify(trimmedSections);
-      
-      if (json.length > maxLength) {
-        throw new Error(`Song content is too large even after aggressive truncation. Please split into multiple songs.`);
-      }
-      
-      logger.warn(`Aggressively truncated to first 10 sections with 100 chars each: ${json.length} chars`);
-      return json;
-    };
-    
-    const updateData: Partial<AppwriteSong> = {
-      title: song.title,
-      artist: song.artist,
-      sections: truncateSections(song.sections),
-      updatedAt: new Date().toISOString(),
-      tags: processedTags,
-      notes: song.notes || ''
-    };
+    }
 
-    await databases.updateDocument(
-      config.databaseId,
-      config.songsCollectionId,
-      song.id!,
-      updateData
-    );
+    const updatedSong = { ...song, updatedAt: new Date().toISOString() };
+    await writeSongDocument(updatedSong, 'upsert');
 
     logger.log('Song updated successfully:', song.id);
+    return updatedSong;
   } catch (error) {
     console.error('Error in updateSong:', error);
     throw error;
   }
 }
 
+/**
+ * Write a song to the cloud under its own id, creating it if needed. Used by
+ * sync, so the id and timestamps are kept exactly as they are locally.
+ */
+export async function upsertSong(song: Song): Promise<void> {
+  await ensureAuthenticated();
+  try {
+    await writeSongDocument(song, 'upsert');
+
+    logger.log('Song upserted successfully:', song.id);
+  } catch (error) {
+    console.error('Error in upsertSong:', error);
+    throw error;
+  }
+}
+
+// Attributes querySongs reads, leaving out the song body
+const SUMMARY_ATTRIBUTES = ['id', 'title', 'artist', 'tags', 'key', 'createdAt', 'updatedAt'];
+
+/**
+ * Filter, sort and page songs with Appwrite queries, reading only the
+ * attributes a list needs. Text is matched against searchText, which holds
+ * the same folded text the local store searches, since Appwrite's contains
+ * is case-sensitive. Cursors are document ids.
+ */
+export async function querySongs(query: SongQuery): Promise<SongQueryResult> {
+  await ensureAuthenticated();
+  try {
+    const sort = query.sort || DEFAULT_SONG_SORT;
+    const queries = [Query.isNull('deletedAt'), Query.select(SUMMARY_ATTRIBUTES)];
+
+    const text = foldSearchText(query.text);
+    if (text) {
+      queries.push(Query.contains('searchText', text));
+    }
+    if (query.tags?.length) {
+      queries.push(Query.contains('tags', query.tags));
+    }
+    if (query.artist) {
+      queries.push(Query.equal('artist', query.artist));
+    }
+    if (query.key) {
+      queries.push(Query.equal('key', query.key));
+    }
+
+    queries.push(sort.direction === 'asc' ? Query.orderAsc(sort.field) : Query.orderDesc(sort.field));
+    if (query.limit) {
+      queries.push(Query.limit(query.limit));
+    }
+    if (query.cursor) {
+      queries.push(Query.cursorAfter(query.cursor));
+    }
+
+    const response = await databases.listDocuments(config.databaseId, config.songsCollectionId, queries);
+    const songs: SongSummary[] = response.documents.map(doc => ({
+      id: doc.id,
+      title: doc.title,
+      artist: doc.artist,
+      tags: doc.tags || [],
+      key: doc.key || undefined,
+      createdAt: normalizeDate(doc.createdAt),
+      updatedAt: normalizeDate(doc.updatedAt)
+    }));
+    const lastDocument = response.documents[response.documents.length - 1];
+    const hasMore = Boolean(query.limit) && response.documents.length === query.limit;
+
+    return {
+      songs,
+      total: response.total,
+      nextCursor: hasMore && lastDocument ? lastDocument.$id : null
+    };
+  } catch (error) {
+    console.error('Error in querySongs:', error);
+    throw error;
+  }
+}
+
+// Every tag used by a song outside the trash
+export async function getSongTags(): Promise<string[]> {
+  await ensureAuthenticated();
+  try {
+    const documents = await listAllDocuments(config.songsCollectionId, [Query.isNull('deletedAt'), Query.select(['tags'])]);
+    const tags = new Set<string>(documents.flatMap(doc => doc.tags || []));
+    return Array.from(tags).sort((a, b) => a.localeCompare(b));
+  } catch (error) {
+    console.error('Error in getSongTags:', error);
+    throw error;
+  }
+}
+
+// Move a song to the trash
 export async function deleteSong(id: string): Promise<void> {
+  await ensureAuthenticated();
+  try {
+    const now = new Date().toISOString();
+    await databases.updateDocument(config.databaseId, config.songsCollectionId, id, { deletedAt: now, updatedAt: now });
+
+    logger.log('Song moved to trash:', id);
+  } catch (error) {
+    console.error('Error in deleteSong:', error);
+    throw error;
+  }
+}
+
+// Songs in the trash, most recently deleted first
+export async function getTrashedSongs(): Promise<Song[]> {
+  await ensureAuthenticated();
+  try {
+    const documents = await listAllDocuments(
+      config.songsCollectionId,
+      [Query.isNotNull('deletedAt'), Query.orderDesc('deletedAt')]
+    );
+    const chunksByBody = await getBodyChunks(documents.filter(doc => doc.bodyId).map(doc => doc.bodyId));
+    return documents.map(doc => documentToSong(doc, chunksByBody.get(doc.bodyId)));
+  } catch (error) {
+    console.error('Error in getTrashedSongs:', error);
+    throw error;
+  }
+}
+
+export async function restoreSong(id: string): Promise<void> {
+  await ensureAuthenticated();
+  try {
+    await databases.updateDocument(config.databaseId, config.songsCollectionId, id, {
+      deletedAt: null,
+      updatedAt: new Date().toISOString()
+    });
+
+    logger.log('Song restored successfully:', id);
+  } catch (error) {
+    console.error('Error in restoreSong:', error);
+    throw error;
+  }
+}
+
+// Delete a song, its chunks and its revisions for good
+export async function purgeSong(id: string): Promise<void> {
   await ensureAuthenticated();
   try {
     await databases.deleteDocument(
@@ -288,14 +567,166 @@ export async function deleteSong(id: string): Promise<void> {
       config.songsCollectionId,
       id
     );
+    await deleteSongChunks(id);
+    await deleteSongRevisions(id);
 
-    logger.log('Song deleted successfully:', id);
+    logger.log('Song purged successfully:', id);
   } catch (error) {
-    console.error('Error in deleteSong:', error);
+    console.error('Error in purgeSong:', error);
+    throw error;
+  }
+}
+
+/**
+ * Look for the marks the old truncateSections routine left on songs it cut
+ * down to fit the 10,000 character limit. Only its exact output counts:
+ * chords dropped with sections cut to exactly 100 characters by its last
+ * step, or a section cut to exactly one of its other fixed lengths. Chords on
+ * missing lines and similar leftovers of ordinary editing are not signs of
+ * truncation. Returns the reason a song looks truncated, or null.
+ */
+export function detectTruncation(sections: Section[]): string | null {
+  const contentLengths = sections.map(section => section.content.length);
+
+  // Last step: the first 10 sections, 100 characters each, chords dropped
+  if (
+    sections.length <= 10 &&
+    contentLengths.includes(100) &&
+    sections.every(section => (section.chords || []).length === 0)
+  ) {
+    return 'Sections were cut to 100 characters and chords removed';
+  }
+
+  // Earlier steps only ran on songs over the limit, so what they kept is
+  // still close to it
+  if (JSON.stringify(sections).length > 5000) {
+    const cutLength = [2000, 1500, 1000, 750, 500, 300, 200].find(length => contentLengths.includes(length));
+    if (cutLength) {
+      return `Sections were cut to ${cutLength} characters`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * One-off migration for songs saved before bodies were stored losslessly:
+ * check each one for signs of truncation and record the result on the
+ * document. Flagged songs get a new updatedAt so every device picks the flag
+ * up. Returns the number of songs flagged.
+ */
+export async function flagTruncatedSongs(): Promise<number> {
+  await ensureAuthenticated();
+  try {
+    const documents = await listAllDocuments(config.songsCollectionId);
+    // Only legacy documents that haven't been cleared yet. Ones flagged
+    // before the check was narrowed are looked at again.
+    const unchecked = documents.filter(doc => !doc.body && !doc.bodyId && doc.truncated !== false);
+    let flagged = 0;
+
+    for (const doc of unchecked) {
+      const sections: Section[] = typeof doc.sections === 'string' ? JSON.parse(doc.sections) : (doc.sections || []);
+      const reason = detectTruncation(sections);
+
+      if (reason) {
+        if (doc.truncated === true) continue;
+        logger.warn(`Song "${doc.title}" looks truncated: ${reason}`);
+        await databases.updateDocument(config.databaseId, config.songsCollectionId, doc.$id, {
+          truncated: true,
+          updatedAt: new Date().toISOString()
+        });
+        flagged++;
+      } else {
+        // Songs wrongly flagged before get a new updatedAt too, so every
+        // device drops the warning
+        await databases.updateDocument(config.databaseId, config.songsCollectionId, doc.$id, {
+          truncated: false,
+          ...(doc.truncated === true ? { updatedAt: new Date().toISOString() } : {})
+        });
+      }
+    }
+
+    return flagged;
+  } catch (error) {
+    console.error('Error in flagTruncatedSongs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Store a revision of a song. Revisions are never edited, so one that is
+ * already in the cloud is left as it is.
+ */
+export async function saveRevision(revision: SongRevision): Promise<void> {
+  await ensureAuthenticated();
+  try {
+    try {
+      await databases.getDocument(config.databaseId, config.revisionsCollectionId, revision.id);
+      return;
+    } catch (error) {
+      if ((error as { code?: number }).code !== 404) throw error;
+    }
+
+    const storedBody = await writeBody(revision.id, JSON.stringify(revision.snapshot));
+    const revisionData: Omit<AppwriteRevision, '$id'> = {
+      id: revision.id,
+      songId: revision.songId,
+      author: revision.author,
+      createdAt: revision.createdAt,
+      ...storedBody
+    };
+    await databases.createDocument(config.databaseId, config.revisionsCollectionId, revision.id, revisionData);
+
+    logger.log('Revision saved successfully:', revision.id);
+  } catch (error) {
+    console.error('Error in saveRevision:', error);
+    throw error;
+  }
+}
+
+// All revisions of a song in the cloud, newest first
+export async function getRevisions(songId: string): Promise<SongRevision[]> {
+  await ensureAuthenticated();
+  try {
+    const documents = await listAllDocuments(
+      config.revisionsCollectionId,
+      [Query.equal('songId', songId), Query.orderDesc('createdAt')]
+    );
+    const chunksByBody = await getBodyChunks(documents.filter(doc => doc.bodyId).map(doc => doc.bodyId));
+
+    return documents.flatMap(doc => {
+      const snapshot = readBody<Song>(doc, chunksByBody.get(doc.bodyId), `Revision of ${songId}`);
+      if (!snapshot) return [];
+      const createdAt = normalizeDate(doc.createdAt);
+      return [{ id: doc.id, songId: doc.songId, author: doc.author || '', createdAt, updatedAt: createdAt, snapshot }];
+    });
+  } catch (error) {
+    console.error('Error in getRevisions:', error);
+    throw error;
+  }
+}
+
+export async function deleteRevision(id: string): Promise<void> {
+  await ensureAuthenticated();
+  try {
+    await databases.deleteDocument(config.databaseId, config.revisionsCollectionId, id);
+    await deleteSongChunks(id);
+
+    logger.log('Revision deleted successfully:', id);
+  } catch (error) {
+    console.error('Error in deleteRevision:', error);
     throw error;
   }
 }
 
+// Remove every revision of a deleted song
+async function deleteSongRevisions(songId: string): Promise<void> {
+  const documents = await listAllDocuments(config.revisionsCollectionId, [Query.equal('songId', songId)]);
+  for (const doc of documents) {
+    await deleteRevision(doc.$id);
+  }
+}
+
 export async function clearDatabase(): Promise<void> {
   await ensureAuthenticated();
   try {
@@ -318,21 +749,168 @@ export async function exportDB(): Promise<string> {
   return JSON.stringify(songs, null, 2);
 }
 
-export async function importDB(json: string): Promise<void> {
+export async function importDB(json: string): Promise<ImportReport> {
+  await ensureAuthenticated();
+  // Saved as new songs, with new ids and dates
+  return importSongs(parseImportedSongs(json), song => saveSong(song));
+}
+
+// Setlist interface for Appwrite (entries as JSON string)
+interface AppwriteSetlist extends AppwriteDocument {
+  id: string;
+  name: string;
+  date: string;
+  entries: string; // JSON string in database
+  createdAt: string;
+  updatedAt: string;
+  notes?: string;
+}
+
+// Convert an Appwrite document to a Setlist object
+function documentToSetlist(doc: Models.Document): Setlist {
+  return {
+    id: doc.id,
+    name: doc.name,
+    date: doc.date || '',
+    entries: typeof doc.entries === 'string' ? JSON.parse(doc.entries) : (doc.entries || []),
+    createdAt: normalizeDate(doc.createdAt),
+    updatedAt: normalizeDate(doc.updatedAt),
+    notes: doc.notes || ''
+  };
+}
+
+export async function saveSetlist(setlist: Omit<Setlist, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
   await ensureAuthenticated();
-  const songs = JSON.parse(json) as any[];
-  
-  for (const song of songs) {
-    // Only keep the fields we need for Appwrite schema
-    const cleanSong = {
-      title: song.title || 'Untitled',
-      artist: song.artist || 'Unknown Artist',
-      sections: typeof song.sections === 'string' ? JSON.parse(song.sections) : (song.sections || []),
-      tags: Array.isArray(song.tags) ? song.tags : [],
-      notes: song.notes || ''
+  try {
+    const setlistId = generateId();
+    const now = new Date().toISOString();
+
+    const setlistWithMetadata: Omit<AppwriteSetlist, '$id'> = {
+      id: setlistId,
+      name: setlist.name,
+      date: setlist.date || '',
+      entries: JSON.stringify(setlist.entries || []),
+      createdAt: now,
+      updatedAt: now,
+      notes: setlist.notes || ''
     };
-    
-    await saveSong(cleanSong);
+
+    const result = await databases.createDocument(
+      config.databaseId,
+      config.setlistsCollectionId,
+      setlistId,
+      setlistWithMetadata
+    );
+
+    logger.log('Setlist saved successfully:', result.$id);
+    return result.$id;
+  } catch (error) {
+    console.error('Error in saveSetlist:', error);
+    throw error;
+  }
+}
+
+export async function getAllSetlists(): Promise<Setlist[]> {
+  await ensureAuthenticated();
+  try {
+    const documents = await listAllDocuments(config.setlistsCollectionId, [Query.orderDesc('date')]);
+
+    logger.log('Retrieved setlists:', documents.length);
+    return documents.map(documentToSetlist);
+  } catch (error) {
+    console.error('Error in getAllSetlists:', error);
+    throw error;
+  }
+}
+
+export async function getSetlist(id: string): Promise<Setlist | null> {
+  await ensureAuthenticated();
+  try {
+    const result = await databases.getDocument(
+      config.databaseId,
+      config.setlistsCollectionId,
+      id
+    );
+
+    logger.log('Retrieved setlist:', id);
+    return documentToSetlist(result);
+  } catch (error) {
+    if ((error as { code?: number }).code === 404) {
+      return null;
+    }
+    console.error('Error in getSetlist:', error);
+    throw error;
+  }
+}
+
+export async function updateSetlist(setlist: Setlist): Promise<void> {
+  await ensureAuthenticated();
+  try {
+    const updateData: Partial<AppwriteSetlist> = {
+      name: setlist.name,
+      date: setlist.date || '',
+      entries: JSON.stringify(setlist.entries || []),
+      updatedAt: new Date().toISOString(),
+      notes: setlist.notes || ''
+    };
+
+    await databases.updateDocument(
+      config.databaseId,
+      config.setlistsCollectionId,
+      setlist.id,
+      updateData
+    );
+
+    logger.log('Setlist updated successfully:', setlist.id);
+  } catch (error) {
+    console.error('Error in updateSetlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Write a setlist to the cloud under its own id, creating it if needed
+ */
+export async function upsertSetlist(setlist: Setlist): Promise<void> {
+  await ensureAuthenticated();
+  try {
+    const documentData: Omit<AppwriteSetlist, '$id'> = {
+      id: setlist.id,
+      name: setlist.name,
+      date: setlist.date || '',
+      entries: JSON.stringify(setlist.entries || []),
+      createdAt: setlist.createdAt,
+      updatedAt: setlist.updatedAt,
+      notes: setlist.notes || ''
+    };
+
+    try {
+      await databases.updateDocument(config.databaseId, config.setlistsCollectionId, setlist.id, documentData);
+    } catch (error) {
+      if ((error as { code?: number }).code !== 404) throw error;
+      await databases.createDocument(config.databaseId, config.setlistsCollectionId, setlist.id, documentData);
+    }
+
+    logger.log('Setlist upserted successfully:', setlist.id);
+  } catch (error) {
+    console.error('Error in upsertSetlist:', error);
+    throw error;
+  }
+}
+
+export async function deleteSetlist(id: string): Promise<void> {
+  await ensureAuthenticated();
+  try {
+    await databases.deleteDocument(
+      config.databaseId,
+      config.setlistsCollectionId,
+      id
+    );
+
+    logger.log('Setlist deleted successfully:', id);
+  } catch (error) {
+    console.error('Error in deleteSetlist:', error);
+    throw error;
   }
 }
 
@@ -360,9 +938,17 @@ export class CloudStorageService implements StorageService {
     return getSong(id);
   }
 
-  async updateSong(song: Song): Promise<void> {
+  async updateSong(song: Song, options?: SongUpdateOptions): Promise<Song> {
     await this.checkAuth();
-    return updateSong(song);
+    const updatedSong = await updateSong(song, options);
+
+    // Keep a revision unless the content is the same as the latest one
+    const [latest] = await getRevisions(song.id);
+    if (!latest || !isSameRevisionContent(latest.snapshot, updatedSong)) {
+      const user = await account.get();
+      await saveRevision(createRevision(updatedSong, user.name || user.email));
+    }
+    return updatedSong;
   }
 
   async deleteSong(id: string): Promise<void> {
@@ -370,6 +956,31 @@ export class CloudStorageService implements StorageService {
     return deleteSong(id);
   }
 
+  async querySongs(query: SongQuery): Promise<SongQueryResult> {
+    await this.checkAuth();
+    return querySongs(query);
+  }
+
+  async getSongTags(): Promise<string[]> {
+    await this.checkAuth();
+    return getSongTags();
+  }
+
+  async getTrashedSongs(): Promise<Song[]> {
+    await this.checkAuth();
+    return getTrashedSongs();
+  }
+
+  async restoreSong(id: string): Promise<void> {
+    await this.checkAuth();
+    return restoreSong(id);
+  }
+
+  async purgeSong(id: string): Promise<void> {
+    await this.checkAuth();
+    return purgeSong(id);
+  }
+
   async clearDatabase(): Promise<void> {
     await this.checkAuth();
     return clearDatabase();
@@ -380,8 +991,33 @@ export class CloudStorageService implements StorageService {
     return exportDB();
   }
 
-  async importDB(json: string): Promise<void> {
+  async importDB(json: string): Promise<ImportReport> {
     await this.checkAuth();
     return importDB(json);
   }
+
+  async saveSetlist(setlist: Omit<Setlist, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    await this.checkAuth();
+    return saveSetlist(setlist);
+  }
+
+  async getAllSetlists(): Promise<Setlist[]> {
+    await this.checkAuth();
+    return getAllSetlists();
+  }
+
+  async getSetlist(id: string): Promise<Setlist | null> {
+    await this.checkAuth();
+    return getSetlist(id);
+  }
+
+  async updateSetlist(setlist: Setlist): Promise<void> {
+    await this.checkAuth();
+    return updateSetlist(setlist);
+  }
+
+  async deleteSetlist(id: string): Promise<void> {
+    await this.checkAuth();
+    return deleteSetlist(id);
+  }
 }
\ No newline at end of file
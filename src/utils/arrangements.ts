@@ -0,0 +1,63 @@
+import type { Arrangement, Section, Song } from '../types/song';
+
+/**
+ * Give every section a stable id so arrangements can refer to it
+ */
+export function ensureSectionIds(sections: Section[]): Section[] {
+  return sections.map(section => section.id ? section : { ...section, id: crypto.randomUUID() });
+}
+
+/**
+ * Create an arrangement that plays every section once, in list order
+ */
+export function createArrangement(name: string, sections: Section[]): Arrangement {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    items: sections
+      .filter(section => section.id)
+      .map(section => ({ sectionId: section.id!, repeat: 1 }))
+  };
+}
+
+/**
+ * Get the arrangement a song is currently set to, if any
+ */
+export function getActiveArrangement(song: Pick<Song, 'arrangements' | 'activeArrangementId'>): Arrangement | undefined {
+  if (!song.arrangements || song.arrangements.length === 0) return undefined;
+  return song.arrangements.find(arrangement => arrangement.id === song.activeArrangementId);
+}
+
+/**
+ * Expand an arrangement into the sections in performance order, with repeats
+ * written out. Without an arrangement the section list itself is the order.
+ */
+export function getArrangedSections(sections: Section[], arrangement?: Arrangement): Section[] {
+  if (!arrangement || arrangement.items.length === 0) return sections;
+
+  const sectionsById = new Map(sections.filter(section => section.id).map(section => [section.id!, section]));
+  const arranged: Section[] = [];
+
+  arrangement.items.forEach(item => {
+    const section = sectionsById.get(item.sectionId);
+    if (!section) return;
+    for (let i = 0; i < Math.max(1, item.repeat || 1); i++) {
+      arranged.push(section);
+    }
+  });
+
+  return arranged;
+}
+
+/**
+ * Drop arrangement entries that point at sections which no longer exist
+ */
+export function pruneArrangements(arrangements: Arrangement[] | undefined, sections: Section[]): Arrangement[] | undefined {
+  if (!arrangements) return arrangements;
+
+  const sectionIds = new Set(sections.map(section => section.id));
+  return arrangements.map(arrangement => ({
+    ...arrangement,
+    items: arrangement.items.filter(item => sectionIds.has(item.sectionId))
+  }));
+}
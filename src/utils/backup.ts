@@ -0,0 +1,232 @@
+// Full-library backups: a .songbuilder file is a zip holding a manifest,
+// the songs and setlists with their ids and timestamps, the settings and the
+// tag colors. Backups made by older versions are migrated forward on restore.
+import JSZip from 'jszip';
+import type { Setlist, Song } from '../types/song';
+import type { Settings } from '../context/SettingsContext';
+import { validateImportedSongs } from './importValidation';
+import type { ImportProblem } from './importValidation';
+
+export const BACKUP_EXTENSION = '.songbuilder';
+const BACKUP_FORMAT = 'songbuilder-backup';
+
+// Schema versions:
+// 1 - the JSON export from before backups existed: a bare array of songs
+// 2 - the zip archive
+export const BACKUP_SCHEMA_VERSION = 2;
+
+// Files in the archive
+const MANIFEST_FILE = 'manifest.json';
+const SONGS_FILE = 'songs.json';
+const SETLISTS_FILE = 'setlists.json';
+const SETTINGS_FILE = 'settings.json';
+const TAG_COLORS_FILE = 'tag-colors.json';
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  createdAt: string;
+  songCount: number;
+  setlistCount: number;
+}
+
+export interface Backup {
+  manifest: BackupManifest;
+  // The version the file was made with, before migrating
+  sourceVersion: number;
+  songs: Song[];
+  setlists: Setlist[];
+  settings: Settings | null; // Null for backups made before settings were included
+  tagColors: Record<string, string>;
+  // Songs repaired on reading, and songs that can't be restored
+  repaired: ImportProblem[];
+  rejected: ImportProblem[];
+}
+
+// How songs and setlists already in the library are treated on restore:
+// overwritten by the ones with the same id, kept as they are, or the whole
+// library replaced, moving songs not in the backup to the trash
+export type RestoreMode = 'upsert' | 'skip' | 'replace';
+
+// What a restore did, for telling the user
+export interface RestoreReport {
+  added: number;
+  updated: number;
+  skipped: number;
+  removed: number; // Moved to the trash by a replace
+  setlists: number;
+}
+
+/**
+ * The file can't be read as a backup, e.g. it is damaged or was made by a
+ * newer version of the app
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * Build a backup archive of the library
+ */
+export async function createBackupArchive(
+  songs: Song[],
+  setlists: Setlist[],
+  settings: Settings,
+  tagColors: Record<string, string>
+): Promise<Blob> {
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    songCount: songs.length,
+    setlistCount: setlists.length
+  };
+
+  const zip = new JSZip();
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  zip.file(SONGS_FILE, JSON.stringify(songs, null, 2));
+  zip.file(SETLISTS_FILE, JSON.stringify(setlists, null, 2));
+  zip.file(SETTINGS_FILE, JSON.stringify(settings, null, 2));
+  zip.file(TAG_COLORS_FILE, JSON.stringify(tagColors, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+// A backup as read from the file, before it is migrated to the current
+// schema and checked
+interface RawBackup {
+  schemaVersion: number;
+  createdAt?: string;
+  songs: unknown;
+  setlists?: unknown;
+  settings?: unknown;
+  tagColors?: unknown;
+}
+
+// Steps that bring a backup from one schema version to the next, keyed by
+// the version they start from
+const MIGRATIONS: Record<number, (backup: RawBackup) => RawBackup> = {
+  // The JSON export had songs only
+  1: backup => ({ ...backup, schemaVersion: 2, setlists: [], settings: null, tagColors: {} })
+};
+
+const isZip = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4b; // "PK"
+
+async function readJsonFile(zip: JSZip, name: string, required: boolean): Promise<unknown> {
+  const file = zip.file(name);
+  if (!file) {
+    if (required) throw new BackupError(`The backup is missing ${name}`);
+    return undefined;
+  }
+  try {
+    return JSON.parse(await file.async('string'));
+  } catch {
+    throw new BackupError(`${name} in the backup is damaged`);
+  }
+}
+
+async function readRawBackup(file: File): Promise<RawBackup> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (!isZip(bytes)) {
+    // An export from before backups were archives
+    let songs: unknown;
+    try {
+      songs = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      throw new BackupError('The file is not a backup');
+    }
+    if (!Array.isArray(songs)) throw new BackupError('The file is not a backup');
+    return { schemaVersion: 1, songs };
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    throw new BackupError('The backup is damaged');
+  }
+
+  const manifest = await readJsonFile(zip, MANIFEST_FILE, true) as Partial<BackupManifest> | null;
+  if (!manifest || manifest.format !== BACKUP_FORMAT || typeof manifest.schemaVersion !== 'number') {
+    throw new BackupError('The file is not a backup');
+  }
+  if (manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new BackupError('The backup was made by a newer version of the app. Update the app to restore it.');
+  }
+
+  return {
+    schemaVersion: manifest.schemaVersion,
+    createdAt: manifest.createdAt,
+    songs: await readJsonFile(zip, SONGS_FILE, true),
+    setlists: await readJsonFile(zip, SETLISTS_FILE, false),
+    settings: await readJsonFile(zip, SETTINGS_FILE, false),
+    tagColors: await readJsonFile(zip, TAG_COLORS_FILE, false)
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function toSetlist(value: unknown): Setlist | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !Array.isArray(value.entries)) return null;
+  return value as unknown as Setlist;
+}
+
+/**
+ * Read a backup file, migrating it to the current schema. Throws a
+ * BackupError when the file can't be restored.
+ */
+export async function readBackup(file: File): Promise<Backup> {
+  let raw = await readRawBackup(file);
+  const sourceVersion = raw.schemaVersion;
+  while (raw.schemaVersion < BACKUP_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[raw.schemaVersion];
+    if (!migrate) throw new BackupError(`Backups of version ${raw.schemaVersion} can't be restored`);
+    raw = migrate(raw);
+  }
+
+  if (!Array.isArray(raw.songs)) throw new BackupError('The songs in the backup are damaged');
+  // Songs keep their ids and dates; the old export may not have them
+  const { songs, repaired, rejected } = validateImportedSongs(raw.songs, { keepIds: true });
+  const setlists = (Array.isArray(raw.setlists) ? raw.setlists : [])
+    .map(toSetlist)
+    .filter((setlist): setlist is Setlist => setlist !== null);
+  const settings = isRecord(raw.settings) && isRecord(raw.settings.colors) ? raw.settings as unknown as Settings : null;
+  const tagColors = isRecord(raw.tagColors)
+    ? Object.fromEntries(Object.entries(raw.tagColors).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : {};
+
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      schemaVersion: raw.schemaVersion,
+      createdAt: raw.createdAt || new Date(file.lastModified).toISOString(),
+      songCount: songs.length,
+      setlistCount: setlists.length
+    },
+    sourceVersion,
+    songs,
+    setlists,
+    settings,
+    tagColors,
+    repaired,
+    rejected
+  };
+}
+
+/**
+ * Tag colors after a restore. Skipping keeps the colors already picked and
+ * only adds colors for new tags; otherwise the backup's colors win.
+ */
+export function mergeTagColors(
+  current: Record<string, string>,
+  restored: Record<string, string>,
+  mode: RestoreMode
+): Record<string, string> {
+  if (mode === 'replace') return { ...restored };
+  if (mode === 'skip') return { ...restored, ...current };
+  return { ...current, ...restored };
+}
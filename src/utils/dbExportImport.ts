@@ -1,26 +1,30 @@
-import { getAllSongs, saveSong, deleteSong } from './appwriteDb';
-import type { Song } from './appwriteDb';
+import type { StorageService } from './storageInterface';
+import type { Settings } from '../context/SettingsContext';
+import { BACKUP_EXTENSION, createBackupArchive } from './backup';
+import { getTagColors } from './tagColors';
+import { importSongs, parseImportedSongs, validateImportedSongs } from './importValidation';
+import type { ImportReport } from './importValidation';
 import { notifications } from '@mantine/notifications';
 
 /**
- * Export the entire song database to a JSON file
+ * Export the entire library to a backup archive (.songbuilder)
+ * @param storage The store to read songs and setlists from
+ * @param settings The settings to include in the backup
  */
-export async function exportDatabase(): Promise<void> {
+export async function exportDatabase(storage: StorageService, settings: Settings): Promise<void> {
   try {
-    // Get all songs from the database
-    const songs = await getAllSongs();
+    // Get all songs and setlists from the database
+    const songs = await storage.getAllSongs();
+    const setlists = await storage.getAllSetlists();
     
-    // Convert to JSON string with pretty formatting
-    const jsonData = JSON.stringify(songs, null, 2);
-    
-    // Create a blob with the JSON data
-    const blob = new Blob([jsonData], { type: 'application/json' });
+    // Pack them up with the settings and tag colors
+    const blob = await createBackupArchive(songs, setlists, settings, getTagColors());
     const url = URL.createObjectURL(blob);
     
     // Create a download link and trigger it
     const a = document.createElement('a');
     a.href = url;
-    a.download = `songbuilder-export-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = `songbuilder-backup-${new Date().toISOString().split('T')[0]}${BACKUP_EXTENSION}`;
     document.body.appendChild(a);
     a.click();
     
@@ -32,7 +36,7 @@ export async function exportDatabase(): Promise<void> {
     
     notifications.show({
       title: 'Export Successful',
-      message: `Exported ${songs.length} songs to JSON file`,
+      message: `Backed up ${songs.length} songs and ${setlists.length} setlists`,
       color: 'green'
     });
   } catch (error) {
@@ -47,16 +51,19 @@ export async function exportDatabase(): Promise<void> {
 
 /**
  * Import songs from a JSON file
+ * @param storage The store to save songs to
  * @param file The JSON file containing songs
  * @param mode Import mode: 'replace' to replace the entire database, 'merge' to add to existing songs
+ * @returns What was imported, repaired and left out, or null if the file couldn't be imported
  */
 export async function importDatabaseFromFile(
+  storage: StorageService,
   file: File, 
   mode: 'replace' | 'merge' = 'merge'
-): Promise<void> {
+): Promise<ImportReport | null> {
   try {
     const fileContent = await file.text();
-    await importDatabaseFromJson(fileContent, mode);
+    return await importDatabaseFromJson(storage, fileContent, mode);
   } catch (error) {
     console.error('Failed to import database from file:', error);
     notifications.show({
@@ -64,18 +71,22 @@ export async function importDatabaseFromFile(
       message: 'Could not import songs from the file',
       color: 'red'
     });
+    return null;
   }
 }
 
 /**
  * Import songs from a URL (like a GitHub raw file URL)
+ * @param storage The store to save songs to
  * @param url The URL to fetch the JSON data from
  * @param mode Import mode: 'replace' to replace the entire database, 'merge' to add to existing songs
+ * @returns What was imported, repaired and left out, or null if the URL couldn't be imported
  */
 export async function importDatabaseFromUrl(
+  storage: StorageService,
   url: string,
   mode: 'replace' | 'merge' = 'merge'
-): Promise<void> {
+): Promise<ImportReport | null> {
   try {
     // Validate URL format
     if (!url.startsWith('http')) {
@@ -89,7 +100,7 @@ export async function importDatabaseFromUrl(
     }
     
     const jsonData = await response.text();
-    await importDatabaseFromJson(jsonData, mode);
+    return await importDatabaseFromJson(storage, jsonData, mode);
   } catch (error) {
     console.error('Failed to import database from URL:', error);
     notifications.show({
@@ -97,80 +108,49 @@ export async function importDatabaseFromUrl(
       message: `Could not import songs from URL: ${error instanceof Error ? error.message : 'Unknown error'}`,
       color: 'red'
     });
+    return null;
   }
 }
 
 /**
- * Import songs from a JSON string
+ * Import songs from a JSON string. Every song is checked and, where it can
+ * be, repaired; songs that can't be are left out and listed in the report.
+ * @param storage The store to save songs to
  * @param jsonData The JSON string containing songs
  * @param mode Import mode: 'replace' to replace the entire database, 'merge' to add to existing songs
  */
 async function importDatabaseFromJson(
+  storage: StorageService,
   jsonData: string,
   mode: 'replace' | 'merge' = 'merge'
-): Promise<void> {
+): Promise<ImportReport> {
   try {
-    // Parse the JSON data
-    const songs = JSON.parse(jsonData) as Song[];
-    
-    // Validate that the data is an array of songs
-    if (!Array.isArray(songs)) {
-      throw new Error('Invalid data format: Expected an array of songs');
-    }
+    // Parse the JSON data, which must be an array of songs
+    const records = parseImportedSongs(jsonData);
     
-    // Check if songs have the required properties and provide defaults if needed
-    for (let i = 0; i < songs.length; i++) {
-      const song = songs[i];
-      // Ensure required properties exist
-      if (!song.title) song.title = `Imported Song ${i + 1}`;
-      if (!song.artist) song.artist = '';
-      if (!Array.isArray(song.sections)) {
-        // If no sections, create a default empty section
-        song.sections = [{ type: 'verse', content: '', chords: [] }];
-      }
-      // Ensure tags is an array
-      if (!Array.isArray(song.tags)) {
-        song.tags = [];
-      }
-    }
-    
-    // If replace mode, delete all existing songs first
+    // If replace mode, delete all existing songs first, unless nothing in
+    // the file could replace them
     if (mode === 'replace') {
-      const existingSongs = await getAllSongs();
+      if (validateImportedSongs(records).songs.length === 0) {
+        throw new Error('None of the songs in the file could be imported');
+      }
+      const existingSongs = await storage.getAllSongs();
       for (const song of existingSongs) {
-        await deleteSong(song.id);
+        await storage.deleteSong(song.id);
       }
     }
     
-    // Import the songs
-    let importedCount = 0;
-    for (const song of songs) {
-      // For merge mode, we need to create a new ID to avoid conflicts
-      // For replace mode, we keep the original IDs
-      if (mode === 'merge') {
-        // Create a new song without the ID
-        const { id, createdAt, updatedAt, ...songData } = song;
-        await saveSong(songData);
-      } else {
-        // For replace mode, we need to handle the ID and timestamps
-        // We'll keep the original ID but update the timestamps
-        const { id, ...songData } = song;
-        const now = new Date().toISOString();
-        await saveSong({
-          ...songData,
-          id,
-          createdAt: song.createdAt || now,
-          updatedAt: now
-        } as Song);
-      }
-      importedCount++;
-    }
+    // Import the songs as new songs, with new ids and timestamps
+    const report = await importSongs(records, song => storage.saveSong(song));
     
     notifications.show({
       title: 'Import Successful',
-      message: `Imported ${importedCount} songs (${mode} mode)`,
-      color: 'green'
+      message: `Imported ${report.imported} songs (${mode} mode)` +
+        (report.repaired.length ? `, ${report.repaired.length} repaired` : '') +
+        (report.rejected.length ? `, ${report.rejected.length} left out` : ''),
+      color: report.rejected.length ? 'yellow' : 'green'
     });
+    return report;
   } catch (error) {
     console.error('Failed to import database from JSON:', error);
     throw error; // Re-throw to be handled by the caller
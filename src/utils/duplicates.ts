@@ -0,0 +1,264 @@
+// Finding songs that are copies of each other, e.g. the same song imported
+// from Ultimate Guitar and from a FreeShow file, and merging the copies
+import type { Section, Song } from '../types/song';
+import { foldText } from './searchIndex';
+import { ensureSectionIds, pruneArrangements } from './arrangements';
+import { MERGE_FIELDS, copyMergeField } from './songMerge';
+import { getExportKey } from './exporters';
+import { detectKey, getSemitonesBetweenKeys, transposeSections } from './transpose';
+import type { MergeField } from './songMerge';
+
+export interface DuplicateGroup {
+  id: string; // Stable while the same songs are in the group
+  songs: Song[];
+  lyricSimilarity: number; // Highest share of lyric words in common between two copies, 0 to 1
+}
+
+// Lyrics this alike are the same song whatever the titles say
+const SAME_LYRICS_THRESHOLD = 0.6;
+// Songs with the same title by different artists need lyrics at least this
+// alike, so covers of different songs with the same name aren't grouped
+const SAME_TITLE_LYRICS_THRESHOLD = 0.4;
+
+// Artists that mean the artist wasn't known when the song was imported
+const UNKNOWN_ARTISTS = new Set(['', 'unknown', 'unknown artist']);
+
+/**
+ * Title reduced to its words, without accents, case, punctuation or notes
+ * in brackets such as "(Live)"
+ */
+export function normalizeTitle(title: string): string {
+  return foldText(title)
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+const normalizeArtist = (artist: string) => normalizeTitle(artist);
+
+function getLyricWords(song: Song): Set<string> {
+  const text = song.sections.map(section => section.content).join(' ');
+  return new Set(normalizeTitle(text).split(' ').filter(Boolean));
+}
+
+// Words the lyrics open with, whatever the line breaks. Songs with fewer
+// lyrics than this are only compared by title.
+const OPENING_WORDS = 5;
+
+function getOpeningKey(song: Song): string | null {
+  const text = song.sections.map(section => section.content).join(' ');
+  const words = normalizeTitle(text).split(' ').filter(Boolean);
+  return words.length >= OPENING_WORDS ? words.slice(0, OPENING_WORDS).join(' ') : null;
+}
+
+/**
+ * Share of lyric words two songs have in common (Jaccard index), 0 to 1
+ */
+export function getLyricSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Group songs that look like copies of each other. Only songs with the same
+ * normalized title or the same opening words are compared, so large libraries
+ * don't need every pair checked. Groups are sorted by title.
+ */
+export function findDuplicateGroups(songs: Song[]): DuplicateGroup[] {
+  const lyricWords = new Map(songs.map(song => [song.id, getLyricWords(song)]));
+
+  // Songs that might be copies of each other, by title and by opening words
+  const buckets = new Map<string, Song[]>();
+  const addToBucket = (key: string, song: Song) => {
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(song);
+    } else {
+      buckets.set(key, [song]);
+    }
+  };
+  for (const song of songs) {
+    const title = normalizeTitle(song.title);
+    if (title) addToBucket(`title:${title}`, song);
+    const opening = getOpeningKey(song);
+    if (opening) addToBucket(`lyrics:${opening}`, song);
+  }
+
+  // Union-find over the pairs found to be copies
+  const parents = new Map<string, string>();
+  const findRoot = (id: string): string => {
+    const parent = parents.get(id) || id;
+    if (parent === id) return id;
+    const root = findRoot(parent);
+    parents.set(id, root);
+    return root;
+  };
+  const similarities = new Map<string, number>();
+  const linked = new Set<string>();
+
+  const compared = new Set<string>();
+  for (const [key, bucket] of buckets) {
+    if (bucket.length < 2) continue;
+    const sameTitle = key.startsWith('title:');
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]];
+        const pairKey = a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const similarity = getLyricSimilarity(lyricWords.get(a.id)!, lyricWords.get(b.id)!);
+        const artistA = normalizeArtist(a.artist);
+        const artistB = normalizeArtist(b.artist);
+        const sameArtist = artistA === artistB || UNKNOWN_ARTISTS.has(artistA) || UNKNOWN_ARTISTS.has(artistB);
+        const isCopy = similarity >= SAME_LYRICS_THRESHOLD ||
+          (sameTitle && (sameArtist || similarity >= SAME_TITLE_LYRICS_THRESHOLD));
+        if (!isCopy) continue;
+
+        const rootA = findRoot(a.id);
+        const rootB = findRoot(b.id);
+        const best = Math.max(similarity, similarities.get(rootA) || 0, similarities.get(rootB) || 0);
+        if (rootA !== rootB) parents.set(rootB, rootA);
+        similarities.set(rootA, best);
+        linked.add(a.id);
+        linked.add(b.id);
+      }
+    }
+  }
+
+  const groups = new Map<string, Song[]>();
+  for (const song of songs) {
+    if (!linked.has(song.id)) continue;
+    const root = findRoot(song.id);
+    groups.set(root, [...(groups.get(root) || []), song]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([root, group]) => {
+      const sorted = [...group].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      return {
+        id: sorted.map(song => song.id).sort().join('|'),
+        songs: sorted,
+        lyricSimilarity: similarities.get(root) || 0
+      };
+    })
+    .sort((a, b) => a.songs[0].title.localeCompare(b.songs[0].title, undefined, { sensitivity: 'base' }));
+}
+
+// One section of the song, lined up across the copies: the nth section of a
+// type in each copy, e.g. the second verse
+export interface MergeSectionRow {
+  key: string;
+  label: string;
+  sections: Record<string, Section>; // By song id, for the copies that have it
+}
+
+export interface MergeChoices {
+  keepId: string; // The copy that stays, taking the merged content; the others are deleted
+  fields: Record<MergeField, string>; // Song id to take each field from
+  sections: Record<string, string | null>; // Song id to take each section row from, null to leave it out
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Line up the sections of the copies. Rows follow the section order of the
+ * first copy, with sections only other copies have added after.
+ */
+export function getMergeSectionRows(songs: Song[]): MergeSectionRow[] {
+  const rows = new Map<string, MergeSectionRow>();
+  for (const song of songs) {
+    const counts = new Map<Section['type'], number>();
+    for (const section of song.sections) {
+      const ordinal = (counts.get(section.type) || 0) + 1;
+      counts.set(section.type, ordinal);
+      const key = `${section.type}:${ordinal}`;
+      let row = rows.get(key);
+      if (!row) {
+        row = { key, label: `${capitalize(section.type)} ${ordinal}`, sections: {} };
+        rows.set(key, row);
+      }
+      row.sections[song.id] = section;
+    }
+  }
+  return Array.from(rows.values());
+}
+
+/**
+ * Starting choices for a merge: keep the oldest copy, which setlists most
+ * likely point at, take each field from it unless it's empty there, and take
+ * each section from the copy with the most chords in it.
+ */
+export function getDefaultMergeChoices(songs: Song[]): MergeChoices {
+  const keeper = songs.reduce((oldest, song) => song.createdAt < oldest.createdAt ? song : oldest);
+  const ordered = [keeper, ...songs.filter(song => song.id !== keeper.id)];
+
+  const fields = {} as Record<MergeField, string>;
+  for (const { field, describe } of MERGE_FIELDS) {
+    fields[field] = (ordered.find(song => describe(song)) || keeper).id;
+  }
+
+  const sections: Record<string, string | null> = {};
+  for (const row of getMergeSectionRows(ordered)) {
+    const best = ordered
+      .filter(song => row.sections[song.id])
+      .reduce<Song | null>((most, song) =>
+        !most || row.sections[song.id].chords.length > row.sections[most.id].chords.length ? song : most, null);
+    sections[row.key] = best ? best.id : null;
+  }
+
+  return { keepId: keeper.id, fields, sections };
+}
+
+/**
+ * The key a copy's chords are written in: the key it is shown in, or the key
+ * detected from its chords when it has none
+ */
+export function getSongChordKey(song: Song): string {
+  return getExportKey(song) || detectKey(song.sections.flatMap(section => section.chords.map(chord => chord.text)));
+}
+
+/**
+ * Build the merged song from the choices. Sections taken from a copy in
+ * another key are transposed to the key of the copy the key is taken from,
+ * so the chart doesn't mix keys. It keeps the id and creation date
+ * of the copy being kept. Section ids come from the copy the arrangements
+ * are taken from where it has the section, so its arrangements still point
+ * at the right sections.
+ */
+export function mergeSongs(songs: Song[], choices: MergeChoices): Song {
+  const byId = new Map(songs.map(song => [song.id, song]));
+  const keeper = byId.get(choices.keepId)!;
+  const from = (field: MergeField) => byId.get(choices.fields[field]) || keeper;
+
+  const arrangementSource = from('arrangements');
+  const targetKey = getSongChordKey(from('key'));
+  const sections = ensureSectionIds(getMergeSectionRows([keeper, ...songs.filter(song => song.id !== keeper.id)])
+    .flatMap(row => {
+      const sourceId = choices.sections[row.key];
+      const section = sourceId ? row.sections[sourceId] : undefined;
+      if (!section) return [];
+      const id = row.sections[arrangementSource.id]?.id || section.id;
+      const source = sourceId ? byId.get(sourceId) : undefined;
+      const semitones = source ? getSemitonesBetweenKeys(getSongChordKey(source), targetKey) : 0;
+      if (semitones === 0) {
+        return [{ ...section, id, chords: section.chords.map(chord => ({ ...chord })) }];
+      }
+      return transposeSections([{ ...section, id }], semitones, targetKey);
+    }));
+
+  const merged = MERGE_FIELDS.reduce((song, { field }) => copyMergeField(song, from(field), field), keeper);
+  return {
+    ...merged,
+    arrangements: pruneArrangements(merged.arrangements, sections),
+    sections,
+    // The sections may now come from several copies, so the keeper's copy
+    // of its untransposed sections no longer applies
+    originalSections: undefined,
+    currentTranspose: undefined
+  };
+}
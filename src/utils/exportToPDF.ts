@@ -1,11 +1,23 @@
 import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
-import type { Song } from '../types/song';
+import type { ChordNotation, Song } from '../types/song';
+import { getActiveArrangement, getArrangedSections } from './arrangements';
+import { getCapoShape } from './transpose';
+import { chordToNotation } from './numberSystem';
+
+export interface PDFExportOptions {
+  capoShapes?: boolean; // Print the capo position and the chord shapes to play with it
+  notation?: ChordNotation; // Print chords as Nashville numbers or Roman numerals
+  key?: string; // Key the numbers are counted from
+}
 
 /**
  * Generate a PDF chord chart for a song.
  * Returns a Blob representing the PDF file.
  */
-export async function exportToPDF(song: Song): Promise<Blob> {
+export async function exportToPDF(song: Song, options: PDFExportOptions = {}): Promise<Blob> {
+  const capo = options.capoShapes && song.capo ? song.capo : 0;
+  const notation = options.notation && options.key ? options.notation : 'chords';
+
   const pdfDoc = await PDFDocument.create();
   let page = pdfDoc.addPage();
   const { width, height } = page.getSize();
@@ -61,6 +73,32 @@ export async function exportToPDF(song: Song): Promise<Blob> {
     y -= lineHeight;
   }
 
+  // Numbers only make sense with the key they are counted from
+  if (notation !== 'chords') {
+    page.drawText(`Key: ${options.key}`, {
+      x: colX[0],
+      y,
+      size: 12,
+      font: fontBold,
+      color: rgb(0.3, 0.3, 0.3),
+      maxWidth: colWidth,
+    });
+    y -= lineHeight;
+  }
+
+  // Capo position, when the chart shows shapes
+  if (capo && notation === 'chords') {
+    page.drawText(`Capo ${capo}`, {
+      x: colX[0],
+      y,
+      size: 12,
+      font: fontBold,
+      color: rgb(0.3, 0.3, 0.3),
+      maxWidth: colWidth,
+    });
+    y -= lineHeight;
+  }
+
   y -= 10;
 
   // Helper to wrap text to fit column width
@@ -81,8 +119,8 @@ export async function exportToPDF(song: Song): Promise<Blob> {
     return lines;
   }
 
-  // Sections
-  for (const section of song.sections) {
+  // Sections, in the order of the song's chosen arrangement
+  for (const section of getArrangedSections(song.sections, getActiveArrangement(song))) {
     const lines = section.content.split('\n');
     // Estimate max possible height needed (conservative)
     const sectionHeight = lineHeight + lines.length * lineHeight * 2 + 8;
@@ -123,10 +161,13 @@ export async function exportToPDF(song: Song): Promise<Blob> {
         let lastPos = 0;
         // For chord alignment, use the first wrapped lyric line
         for (const chord of chords) {
+          const chordText = notation !== 'chords'
+            ? chordToNotation(chord.text, options.key!, notation)
+            : capo ? getCapoShape(chord.text, capo) : chord.text;
           // Estimate position in first wrapped line (by char index)
           const spaces = chord.position - lastPos;
-          chordLine += ' '.repeat(Math.max(0, spaces)) + chord.text;
-          lastPos = chord.position + chord.text.length;
+          chordLine += ' '.repeat(Math.max(0, spaces)) + chordText;
+          lastPos = chord.position + chordText.length;
         }
         page.drawText(chordLine, {
           x: colX[col],
@@ -1,5 +1,8 @@
-import { Section, Chord, Song } from '../types/song';
+import { Section, Chord, Song, ChordNotation } from '../types/song';
 import { convertToUltimateGuitarText } from './formatters';
+import { detectKey, getTransposedKey, parseTransposeInput, transposeSections } from './transpose';
+import { getActiveArrangement } from './arrangements';
+import { convertSectionsNotation } from './numberSystem';
 
 /**
  * Export sections to FreeShow text format with inline chord markers
@@ -51,25 +54,231 @@ export function exportToFreeshowText(sections: Section[]): string {
 /**
  * Export sections to Ultimate Guitar text format with chords above lyrics
  */
-export function exportToUltimateGuitarText(sections: Section[], songTitle: string = '', songArtist: string = ''): string {
-  return convertToUltimateGuitarText(songTitle, songArtist, sections);
+export function exportToUltimateGuitarText(sections: Section[], songTitle: string = '', songArtist: string = '', options: NotationOptions = {}): string {
+  const { notation = 'chords', key } = options;
+  const exportSections = notation !== 'chords' && key ? convertSectionsNotation(sections, key, notation) : sections;
+  return convertToUltimateGuitarText(songTitle, songArtist, exportSections);
+}
+
+export interface NotationOptions {
+  notation?: ChordNotation; // Write chords as Nashville numbers or Roman numerals
+  key?: string; // Key the numbers are counted from
+}
+
+/**
+ * Get the key a song is currently shown in, taking the transpose setting into account
+ */
+export function getExportKey(song: Song): string {
+  if (!song.originalKey) return '';
+  if (!song.transposedKey) return song.originalKey;
+  return getTransposedKey(song.transposedKey, song.originalKey);
+}
+
+/**
+ * Export a song to ChordPro format with metadata directives, one environment
+ * per section and inline [chord] markers
+ */
+export function exportToChordPro(song: Song, sections: Section[] = song.sections): string {
+  const output: string[] = [];
+
+  if (song.title) output.push(`{title: ${song.title}}`);
+  if (song.artist) output.push(`{artist: ${song.artist}}`);
+  const key = getExportKey(song);
+  if (key) output.push(`{key: ${key}}`);
+  if (song.tempo) output.push(`{tempo: ${song.tempo}}`);
+  if (song.tags && song.tags.length > 0) output.push(`{tags: ${song.tags.join(', ')}}`);
+
+  sections.forEach(section => {
+    // ChordPro only defines verse, chorus and bridge environments; other section
+    // types are written as labelled verses, which every reader understands
+    const environment = section.type === 'chorus' || section.type === 'bridge' ? section.type : 'verse';
+    const label = section.type
+      .split('-')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+      .join('-') + (section.number ? ` ${section.number}` : '');
+
+    const lines = section.content.split('\n');
+    // Drop trailing blank lines so they don't end up inside the environment
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+      lines.pop();
+    }
+
+    const processedLines = lines.map((line, lineIndex) => {
+      // Get chords for this line, last first so earlier positions stay valid
+      const lineChords = section.chords
+        .filter(chord => chord.line === lineIndex)
+        .sort((a, b) => b.position - a.position);
+
+      if (lineChords.length === 0) return line;
+
+      // Pad the line so chords placed after the lyric keep their spacing
+      const lastPosition = lineChords[0].position;
+      let result = line.length < lastPosition ? line.padEnd(lastPosition) : line;
+      lineChords.forEach(chord => {
+        result = result.substring(0, chord.position) + `[${chord.text}]` + result.substring(chord.position);
+      });
+
+      return result;
+    });
+
+    output.push('');
+    output.push(`{start_of_${environment}: ${label}}`);
+    output.push(...processedLines);
+    output.push(`{end_of_${environment}}`);
+  });
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// OpenLyrics verse name prefixes, matching what parseXMLFile reads back
+const OPENLYRICS_VERSE_PREFIXES: Record<Section['type'], string> = {
+  'verse': 'v',
+  'chorus': 'c',
+  'bridge': 'b',
+  'pre-chorus': 'p',
+  'intro': 'i',
+  'outro': 'e',
+  'break': 'o',
+  'tag': 't'
+};
+
+/**
+ * Export a song to OpenLyrics 0.9 XML. Repeated sections are written once and
+ * referenced again from the verse order.
+ */
+export function exportToOpenLyrics(song: Song, sections: Section[] = song.sections): string {
+  const verses: { name: string; section: Section }[] = [];
+  const verseOrder: string[] = [];
+
+  // Compare sections by lyrics and chords only, chord ids differ between copies
+  const getSectionData = (section: Section) => JSON.stringify({
+    type: section.type,
+    number: section.number,
+    content: section.content,
+    chords: section.chords.map(({ text, position, line }) => ({ text, position, line }))
+  });
+
+  sections.forEach(section => {
+    // Reuse an identical verse, e.g. a chorus that is sung again
+    const sectionData = getSectionData(section);
+    const existing = verses.find(verse => getSectionData(verse.section) === sectionData);
+    if (existing) {
+      verseOrder.push(existing.name);
+      return;
+    }
+
+    // Verse names must be unique, so sections sharing a type and number get a letter suffix
+    const baseName = `${OPENLYRICS_VERSE_PREFIXES[section.type] || 'v'}${section.number ?? ''}`;
+    let name = baseName;
+    let suffix = 0;
+    while (verses.some(verse => verse.name === name)) {
+      name = `${baseName}${String.fromCharCode(97 + suffix++)}`;
+    }
+
+    verses.push({ name, section });
+    verseOrder.push(name);
+  });
+
+  const renderLines = (section: Section): string => {
+    return section.content.split('\n').map((line, lineIndex) => {
+      // Write the lyrics between chords, padding the line for chords placed after it
+      const lineChords = section.chords
+        .filter(chord => chord.line === lineIndex)
+        .sort((a, b) => a.position - b.position);
+
+      let result = '';
+      let lastPosition = 0;
+      const paddedLine = lineChords.length > 0 ? line.padEnd(lineChords[lineChords.length - 1].position) : line;
+      lineChords.forEach(chord => {
+        result += escapeXml(paddedLine.substring(lastPosition, chord.position));
+        result += `<chord name="${escapeXml(chord.text)}"/>`;
+        lastPosition = chord.position;
+      });
+      result += escapeXml(paddedLine.substring(lastPosition));
+
+      return result;
+    }).join('<br/>');
+  };
+
+  const key = getExportKey(song);
+  const authors = (song.artist || '')
+    .split(',')
+    .map(author => author.trim())
+    .filter(author => author.length > 0);
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, '');
+
+  const output: string[] = [];
+  output.push('<?xml version="1.0" encoding="UTF-8"?>');
+  output.push(`<song xmlns="http://openlyrics.info/namespace/2009/song" version="0.9" createdIn="SongBuilder" modifiedIn="SongBuilder" modifiedDate="${now}">`);
+  output.push('  <properties>');
+  output.push('    <titles>');
+  output.push(`      <title>${escapeXml(song.title || 'Untitled Song')}</title>`);
+  output.push('    </titles>');
+  if (authors.length > 0) {
+    output.push('    <authors>');
+    authors.forEach(author => output.push(`      <author>${escapeXml(author)}</author>`));
+    output.push('    </authors>');
+  }
+  if (song.tempo) output.push(`    <tempo type="bpm">${escapeXml(song.tempo)}</tempo>`);
+  if (key) output.push(`    <key>${escapeXml(key)}</key>`);
+  if (verseOrder.length > 0) output.push(`    <verseOrder>${verseOrder.join(' ')}</verseOrder>`);
+  if (song.tags && song.tags.length > 0) {
+    output.push('    <themes>');
+    song.tags.forEach(tag => output.push(`      <theme>${escapeXml(tag)}</theme>`));
+    output.push('    </themes>');
+  }
+  output.push('  </properties>');
+  output.push('  <lyrics>');
+  verses.forEach(({ name, section }) => {
+    output.push(`    <verse name="${name}">`);
+    output.push(`      <lines>${renderLines(section)}</lines>`);
+    output.push('    </verse>');
+  });
+  output.push('  </lyrics>');
+  output.push('</song>');
+
+  return output.join('\n') + '\n';
 }
 
 /**
  * Export a song to FreeShow .show file format
  */
 export function exportToShowFile(song: Song, sections: Section[]): string {
+  return JSON.stringify(buildShow(song, sections));
+}
+
+/**
+ * Build the [id, show] pair FreeShow uses for a single show
+ */
+function buildShow(song: Song, sections: Section[], key: string = song.originalKey || ''): [string, Record<string, unknown>] {
   // Generate a unique ID for the song
   const songId = crypto.randomUUID().substring(0, 10);
   
   // Create slides for each section
   const slides: Record<string, any> = {};
   const layoutSlides: Array<{id: string}> = [];
+  // Slide id for each section id, so arrangements can point at the slides
+  const slideIdsBySection = new Map<string, string>();
   
   sections.forEach((section) => {
     // Generate a unique ID for each slide
     const slideId = crypto.randomUUID().substring(0, 10);
     layoutSlides.push({ id: slideId });
+    if (section.id) {
+      slideIdsBySection.set(section.id, slideId);
+    }
     
     // Determine the color based on section type
     let color;
@@ -146,9 +355,11 @@ export function exportToShowFile(song: Song, sections: Section[]): string {
     slides[slideId] = slide;
   });
   
-  // Create the layout
-  const layoutId = crypto.randomUUID().substring(0, 10);
-  const layouts: Record<string, any> = {
+  // Create the layouts, one per arrangement with repeats written out as
+  // repeated slide references. Songs without arrangements get a single
+  // layout that plays the sections in order.
+  let layoutId = crypto.randomUUID().substring(0, 10);
+  let layouts: Record<string, any> = {
     [layoutId]: {
       name: 'Default',
       notes: '',
@@ -156,8 +367,28 @@ export function exportToShowFile(song: Song, sections: Section[]): string {
     }
   };
   
+  if (song.arrangements && song.arrangements.length > 0) {
+    layouts = {};
+    song.arrangements.forEach(arrangement => {
+      const arrangementSlides: Array<{id: string}> = [];
+      arrangement.items.forEach(item => {
+        const slideId = slideIdsBySection.get(item.sectionId);
+        if (!slideId) return;
+        for (let i = 0; i < Math.max(1, item.repeat || 1); i++) {
+          arrangementSlides.push({ id: slideId });
+        }
+      });
+      layouts[arrangement.id] = {
+        name: arrangement.name,
+        notes: '',
+        slides: arrangementSlides
+      };
+    });
+    layoutId = getActiveArrangement(song)?.id || song.arrangements[0].id;
+  }
+  
   // Create the full show file structure
-  const showData = [
+  const showData: [string, Record<string, unknown>] = [
     songId,
     {
       name: song.title || 'Untitled Song',
@@ -176,7 +407,7 @@ export function exportToShowFile(song: Song, sections: Section[]): string {
       meta: {
         title: song.title || 'Untitled Song',
         artist: song.artist || '',
-        key: song.originalKey || '',
+        key,
         duration: ''
       },
       slides,
@@ -185,5 +416,56 @@ export function exportToShowFile(song: Song, sections: Section[]): string {
     }
   ];
   
-  return JSON.stringify(showData);
+  return showData;
+}
+
+export interface ProjectSong {
+  song: Song;
+  key?: string; // Key to play the song in, defaults to its current key
+}
+
+/**
+ * Get a song's sections transposed into the given key. Stored chords are
+ * always in the song's original key, so that is where transposition starts
+ */
+function getSectionsInKey(song: Song, key: string): Section[] {
+  const originalKey = song.originalKey ||
+    detectKey(song.sections.flatMap(section => section.chords.map(chord => chord.text)));
+  const semitones = parseTransposeInput(key, originalKey);
+
+  if (semitones === 0) return song.sections;
+
+  return transposeSections(song.sections, semitones, getTransposedKey(key, originalKey));
+}
+
+/**
+ * Export an ordered list of songs as a FreeShow .project file, with every
+ * song included as a show in the given order and key
+ */
+export function exportToProjectFile(projectName: string, songs: ProjectSong[]): string {
+  const shows: Record<string, Record<string, unknown>> = {};
+  const projectShows: Array<{ id: string }> = [];
+
+  songs.forEach(({ song, key }) => {
+    const targetKey = key || getExportKey(song);
+    const sections = targetKey ? getSectionsInKey(song, targetKey) : song.sections;
+    const [showId, show] = buildShow(song, sections, targetKey);
+
+    shows[showId] = show;
+    projectShows.push({ id: showId });
+  });
+
+  const projectData = {
+    project: {
+      name: projectName || 'Untitled Project',
+      created: Date.now(),
+      parent: '/',
+      shows: projectShows
+    },
+    parentFolder: '',
+    shows,
+    files: []
+  };
+
+  return JSON.stringify(projectData);
 }
@@ -0,0 +1,351 @@
+// The song formats the app can import and export. Each format says how to
+// recognise it, how to read it and how to write it, and the import and export
+// dialogs list whatever is registered here, so a new format only has to be
+// registered once.
+import type { Song } from '../types/song';
+import {
+  parseUltimateGuitarText,
+  parseFreeshowText,
+  parseOpenLPText,
+  parseNumberChart,
+  isNumberChartText,
+  parseShowFile,
+  parseCHOFile,
+  parseXMLFile,
+  parseOSZFile
+} from './parsers';
+import type { ParsedShowFile } from './parsers';
+import {
+  exportToFreeshowText,
+  exportToUltimateGuitarText,
+  exportToChordPro,
+  exportToOpenLyrics,
+  exportToShowFile,
+  exportToProjectFile
+} from './exporters';
+import type { NotationOptions } from './exporters';
+import { parseKey } from './transpose';
+
+// What an import is read from: the text, the raw bytes for archive formats,
+// the file name when it came from a file, and the key for number charts
+export interface FormatInput {
+  text: string;
+  data?: ArrayBuffer;
+  fileName?: string;
+  key?: string;
+}
+
+export interface ExportOptions extends NotationOptions {
+  capoShapes?: boolean; // Write the chord shapes to play with the capo
+}
+
+// Where an export can go: copied to the clipboard or saved as a file
+export type ExportTarget = 'text' | 'file';
+
+export interface SongFormat {
+  id: string;
+  name: string;
+  extensions: string[]; // With the dot, the first one is used when saving
+  mimeType: string;
+  binary?: boolean; // Read as bytes, e.g. zip archives
+  /**
+   * How sure we are that the input is in this format, from 0 (not at all)
+   * to 1 (certain, e.g. the file extension matches)
+   */
+  detect: (input: FormatInput) => number;
+  // Read the songs in the input; formats that only export leave this out
+  parse?: (input: FormatInput) => ParsedShowFile[] | Promise<ParsedShowFile[]>;
+  // Write one song. Text targets must return a string.
+  serialize?: (song: Song, options: ExportOptions) => string | Promise<Blob>;
+  // Write several songs into a single file, e.g. a presentation project
+  serializeAll?: (songs: Song[], name: string) => string;
+  exportTargets?: ExportTarget[]; // Defaults to file when the format can serialize
+  supportsNotation?: boolean; // Can write Nashville numbers or Roman numerals
+  supportsCapoShapes?: boolean;
+}
+
+/**
+ * The input is in a format that can't be read, or is missing something
+ * reading it needs
+ */
+export class FormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormatError';
+  }
+}
+
+const formats: SongFormat[] = [];
+
+/**
+ * Add a format, replacing any registered with the same id
+ */
+export function registerFormat(format: SongFormat): void {
+  const index = formats.findIndex(existing => existing.id === format.id);
+  if (index === -1) {
+    formats.push(format);
+  } else {
+    formats[index] = format;
+  }
+}
+
+/**
+ * Every registered format, in the order they were registered
+ */
+export function getFormats(): SongFormat[] {
+  return [...formats];
+}
+
+export function getFormat(id: string): SongFormat | undefined {
+  return formats.find(format => format.id === id);
+}
+
+/**
+ * Formats that can be imported
+ */
+export function getImportFormats(): SongFormat[] {
+  return formats.filter(format => format.parse);
+}
+
+/**
+ * Formats offered for exporting a song to the given target
+ */
+export function getExportFormats(target: ExportTarget): SongFormat[] {
+  return formats.filter(format =>
+    format.serialize && (format.exportTargets || ['file']).includes(target)
+  );
+}
+
+/**
+ * Formats that write a whole selection of songs into one file
+ */
+export function getCollectionFormats(): SongFormat[] {
+  return formats.filter(format => format.serializeAll);
+}
+
+/**
+ * The accept attribute for picking files any import format can read
+ */
+export function getImportAccept(): string {
+  return [...new Set(getImportFormats().flatMap(format => format.extensions))].join(',');
+}
+
+/**
+ * Label for format pickers, e.g. "OpenLyrics (.xml)"
+ */
+export function getFormatLabel(format: SongFormat): string {
+  return format.extensions.length > 0 ? `${format.name} (${format.extensions[0]})` : format.name;
+}
+
+/**
+ * The importable format the input is most likely in, or null when none
+ * recognises it
+ */
+export function detectFormat(input: FormatInput): SongFormat | null {
+  let best: SongFormat | null = null;
+  let bestScore = 0;
+  for (const format of getImportFormats()) {
+    const score = format.detect(input);
+    if (score > bestScore) {
+      best = format;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Read a file for importing. Archive formats need the bytes as well as the text.
+ */
+export async function readFormatInput(file: File): Promise<FormatInput> {
+  const data = await file.arrayBuffer();
+  return { text: new TextDecoder().decode(data), data, fileName: file.name };
+}
+
+const hasExtension = (input: FormatInput, extensions: string[]) =>
+  !!input.fileName && extensions.some(extension => input.fileName!.toLowerCase().endsWith(extension));
+
+const toSong = (sections: ParsedShowFile['sections']): ParsedShowFile[] => [{ sections }];
+
+// Text with [Section] headers, and whether chords are written inline or on
+// their own lines above the lyrics
+function describeSectionedText(text: string) {
+  let hasChordLine = false;
+  let hasSection = false;
+  let hasInlineChords = false;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[') && line.endsWith(']')) {
+      hasSection = true;
+    }
+    // Chord line (typical Ultimate Guitar format)
+    if (/^[A-Ga-g][#mb\d+\s/]*/.test(line)) {
+      hasChordLine = true;
+    }
+    // Inline chords like [G] or [Am] within lyrics (FreeShow format)
+    if (/\[([A-G][#b]?(?:maj|min|m|aug|dim|sus|add|M)?(?:\d+)?(?:\/[A-G][#b]?)?)\]/.test(line)) {
+      hasInlineChords = true;
+    }
+  }
+
+  return { hasChordLine, hasSection, hasInlineChords };
+}
+
+const CHORDPRO_EXTENSIONS = ['.cho', '.chordpro', '.crd', '.pro'];
+
+// ChordPro files are recognisable by their {directive} lines
+const CHORDPRO_DIRECTIVE = /^\s*\{\s*(title|t|subtitle|st|artist|key|soc|sov|start_of_\w+|c|comment)\s*[:}]/im;
+
+// Themes written straight into the XML, for files the XML parser finds no tags in
+function extractXMLThemes(text: string): string[] {
+  const themesMatch = text.match(/<themes>([\s\S]*?)<\/themes>/);
+  const themeMatches = themesMatch?.[1].match(/<theme>([^<]+)<\/theme>/g) || [];
+  return themeMatches.map(match => match.replace(/<theme>|<\/theme>/g, '').trim()).filter(theme => theme.length > 0);
+}
+
+registerFormat({
+  id: 'freeshow',
+  name: 'FreeShow text',
+  extensions: ['.txt'],
+  mimeType: 'text/plain',
+  detect: ({ text }) => {
+    const { hasSection, hasInlineChords } = describeSectionedText(text);
+    if (hasSection && hasInlineChords) return 0.6;
+    // Sections in an unclear format are read as FreeShow
+    return hasSection ? 0.3 : 0;
+  },
+  parse: ({ text }) => toSong(parseFreeshowText(text)),
+  serialize: song => exportToFreeshowText(song.sections),
+  exportTargets: ['text']
+});
+
+registerFormat({
+  id: 'ultimate-guitar',
+  name: 'Ultimate Guitar',
+  extensions: ['.txt'],
+  mimeType: 'text/plain',
+  detect: ({ text }) => {
+    const { hasSection, hasChordLine } = describeSectionedText(text);
+    // Anything else is read as Ultimate Guitar for backward compatibility
+    return hasSection && hasChordLine ? 0.5 : 0.1;
+  },
+  parse: ({ text }) => toSong(parseUltimateGuitarText(text)),
+  serialize: (song, options) => exportToUltimateGuitarText(song.sections, song.title, song.artist, options),
+  exportTargets: ['text'],
+  supportsNotation: true
+});
+
+registerFormat({
+  id: 'number-chart',
+  name: 'Number chart',
+  extensions: ['.txt'],
+  mimeType: 'text/plain',
+  detect: input => {
+    if (input.key) return 1;
+    // Files carry no key to turn the numbers into chords in, so only pasted text is checked
+    return !input.fileName && isNumberChartText(input.text) ? 0.95 : 0;
+  },
+  parse: ({ text, key }) => {
+    const parsedKey = key ? parseKey(key) : null;
+    if (!key || !parsedKey) {
+      throw new FormatError('This looks like a number chart. Please enter the key to import it in (e.g. G or Bb)');
+    }
+    return [{
+      sections: parseNumberChart(text, key.trim()),
+      key: parsedKey.minor ? `${parsedKey.root}m` : parsedKey.root
+    }];
+  }
+});
+
+registerFormat({
+  id: 'openlp',
+  name: 'OpenLP text',
+  extensions: ['.txt'],
+  mimeType: 'text/plain',
+  // OpenLP lyrics use ---[Verse:1]--- section markers
+  detect: ({ text }) => (/^\s*---\[[^\]]+\]---\s*$/m.test(text) ? 0.9 : 0),
+  parse: ({ text }) => toSong(parseOpenLPText(text))
+});
+
+registerFormat({
+  id: 'freeshow-show',
+  name: 'FreeShow',
+  extensions: ['.show'],
+  mimeType: 'application/json',
+  detect: input => {
+    if (hasExtension(input, ['.show'])) return 1;
+    // A show is a JSON pair of its id and the show itself
+    return /^\s*\[\s*"[^"]*"\s*,\s*\{/.test(input.text) ? 0.7 : 0;
+  },
+  parse: ({ text }) => [parseShowFile(text)],
+  serialize: song => exportToShowFile(song, song.sections)
+});
+
+registerFormat({
+  id: 'openlyrics',
+  name: 'OpenLyrics',
+  extensions: ['.xml'],
+  mimeType: 'application/xml',
+  detect: input => {
+    if (hasExtension(input, ['.xml'])) return 1;
+    return /^\s*(<\?xml|<song[\s>])/.test(input.text) ? 0.7 : 0;
+  },
+  parse: ({ text }) => {
+    const parsed = parseXMLFile(text);
+    const tags = parsed.tags && parsed.tags.length > 0 ? parsed.tags : extractXMLThemes(text);
+    return [{ ...parsed, tags: tags.map(tag => String(tag).trim()).filter(tag => tag.length > 0) }];
+  },
+  serialize: song => exportToOpenLyrics(song)
+});
+
+registerFormat({
+  id: 'openlp-service',
+  name: 'OpenLP service',
+  extensions: ['.osz'],
+  mimeType: 'application/zip',
+  binary: true,
+  detect: input => (hasExtension(input, ['.osz']) ? 1 : 0),
+  parse: ({ data }) => {
+    if (!data) throw new FormatError('OpenLP service files can only be imported from a file');
+    return parseOSZFile(data);
+  }
+});
+
+registerFormat({
+  id: 'chordpro',
+  name: 'ChordPro',
+  extensions: CHORDPRO_EXTENSIONS,
+  mimeType: 'text/plain',
+  detect: input => {
+    if (hasExtension(input, CHORDPRO_EXTENSIONS)) return 1;
+    return CHORDPRO_DIRECTIVE.test(input.text) ? 0.8 : 0;
+  },
+  parse: ({ text }) => [parseCHOFile(text)],
+  serialize: song => exportToChordPro(song),
+  exportTargets: ['text', 'file']
+});
+
+registerFormat({
+  id: 'freeshow-project',
+  name: 'FreeShow Project',
+  extensions: ['.project'],
+  mimeType: 'application/json',
+  detect: () => 0,
+  serializeAll: (songs, name) => exportToProjectFile(name, songs.map(song => ({ song })))
+});
+
+registerFormat({
+  id: 'pdf',
+  name: 'PDF Chord Chart',
+  extensions: ['.pdf'],
+  mimeType: 'application/pdf',
+  detect: () => 0,
+  // Loaded on demand, the PDF library is large
+  serialize: async (song, options) => {
+    const { exportToPDF } = await import('./exportToPDF');
+    return exportToPDF(song, options);
+  },
+  supportsNotation: true,
+  supportsCapoShapes: true
+});
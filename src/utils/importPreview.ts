@@ -0,0 +1,177 @@
+// Songs read by an import, held for checking and correcting before they are
+// saved: the details can be edited, sections retyped, split or merged, and
+// chords moved to the lyric line they belong to
+import type { Arrangement, Section } from '../types/song';
+import type { ParsedShowFile } from './parsers';
+import type { SongFormat } from './formatRegistry';
+import { ensureSectionIds } from './arrangements';
+import { toTitleCase } from './formatters';
+
+export interface ImportDraft {
+  id: string;
+  source: string; // File name, or a description for pasted text
+  formatId: string;
+  formatName: string;
+  title: string;
+  artist: string;
+  tags: string[];
+  key: string;
+  tempo: string;
+  sections: Section[];
+  arrangements?: Arrangement[];
+  activeArrangementId?: string;
+  accepted: boolean; // Included when accepting all
+}
+
+// Details of a draft that the preview edits directly
+export type ImportDraftDetails = Pick<ImportDraft, 'title' | 'artist' | 'tags' | 'key' | 'tempo'>;
+
+/**
+ * Hold a parsed song for previewing. The title falls back to the given one,
+ * e.g. the file name, when the format has none.
+ */
+export function createImportDraft(parsed: ParsedShowFile, format: SongFormat, source: string, fallbackTitle = ''): ImportDraft {
+  const title = parsed.title || fallbackTitle;
+  return {
+    id: crypto.randomUUID(),
+    source,
+    formatId: format.id,
+    formatName: format.name,
+    title: title ? toTitleCase(title) : '',
+    artist: parsed.artist || '',
+    tags: parsed.tags || [],
+    key: parsed.key || '',
+    tempo: parsed.tempo || '',
+    // Ids let splitting and merging keep the arrangements in step
+    sections: ensureSectionIds(parsed.sections),
+    arrangements: parsed.arrangements,
+    activeArrangementId: parsed.activeArrangementId,
+    accepted: parsed.sections.length > 0
+  };
+}
+
+const countLines = (section: Section) => section.content.split('\n').length;
+
+/**
+ * Number the sections of each type in order, e.g. Verse 1, Chorus 1, Verse 2
+ */
+function numberSections(sections: Section[]): Section[] {
+  const typeCounters: Record<string, number> = {};
+  return sections.map(section => {
+    typeCounters[section.type] = (typeCounters[section.type] || 0) + 1;
+    return { ...section, number: typeCounters[section.type] };
+  });
+}
+
+const withSections = (draft: ImportDraft, sections: Section[], arrangements = draft.arrangements): ImportDraft =>
+  ({ ...draft, sections: numberSections(sections), arrangements });
+
+export function setSectionType(draft: ImportDraft, index: number, type: Section['type']): ImportDraft {
+  return withSections(draft, draft.sections.map((section, i) => (i === index ? { ...section, type } : section)));
+}
+
+/**
+ * Split a section in two before the given line. The new section has the same
+ * type and is played straight after the first wherever an arrangement plays it.
+ */
+export function splitSection(draft: ImportDraft, index: number, line: number): ImportDraft {
+  const section = draft.sections[index];
+  const lines = section.content.split('\n');
+  if (line <= 0 || line >= lines.length) return draft;
+
+  const first: Section = {
+    ...section,
+    content: lines.slice(0, line).join('\n'),
+    chords: section.chords.filter(chord => chord.line < line)
+  };
+  const second: Section = {
+    id: crypto.randomUUID(),
+    type: section.type,
+    content: lines.slice(line).join('\n'),
+    chords: section.chords
+      .filter(chord => chord.line >= line)
+      .map(chord => ({ ...chord, line: chord.line - line }))
+  };
+
+  const arrangements = draft.arrangements?.map(arrangement => ({
+    ...arrangement,
+    items: arrangement.items.flatMap(item =>
+      item.sectionId === section.id ? [item, { ...item, sectionId: second.id! }] : [item]
+    )
+  }));
+
+  const sections = [...draft.sections];
+  sections.splice(index, 1, first, second);
+  return withSections(draft, sections, arrangements);
+}
+
+/**
+ * Merge a section with the one after it. Arrangements play the merged section
+ * wherever they played either part, once where the parts were back to back.
+ */
+export function mergeWithNext(draft: ImportDraft, index: number): ImportDraft {
+  const section = draft.sections[index];
+  const next = draft.sections[index + 1];
+  if (!section || !next) return draft;
+
+  const lineOffset = countLines(section);
+  const merged: Section = {
+    ...section,
+    content: `${section.content}\n${next.content}`,
+    chords: [
+      ...section.chords,
+      ...next.chords.map(chord => ({ ...chord, line: chord.line + lineOffset }))
+    ]
+  };
+
+  const arrangements = draft.arrangements?.map(arrangement => ({
+    ...arrangement,
+    items: arrangement.items
+      .map(item => (item.sectionId === next.id ? { ...item, sectionId: section.id! } : item))
+      .filter((item, i, items) => i === 0 || item.sectionId !== section.id || items[i - 1].sectionId !== section.id)
+  }));
+
+  const sections = [...draft.sections];
+  sections.splice(index, 2, merged);
+  return withSections(draft, sections, arrangements);
+}
+
+/**
+ * Whether every chord in a section can move the given number of lines
+ * without leaving the section
+ */
+export function canShiftChords(section: Section, offset: number): boolean {
+  const lineCount = countLines(section);
+  return section.chords.length > 0 &&
+    section.chords.every(chord => chord.line + offset >= 0 && chord.line + offset < lineCount);
+}
+
+/**
+ * Move all chords of a section up or down by whole lines, for chord lines the
+ * parser put above the wrong lyrics. Chords stay within the new line.
+ */
+export function shiftChords(draft: ImportDraft, index: number, offset: number): ImportDraft {
+  const section = draft.sections[index];
+  if (!canShiftChords(section, offset)) return draft;
+
+  const lines = section.content.split('\n');
+  const chords = section.chords.map(chord => {
+    const line = chord.line + offset;
+    return { ...chord, line, position: Math.min(chord.position, lines[line].length) };
+  });
+  return withSections(draft, draft.sections.map((s, i) => (i === index ? { ...s, chords } : s)));
+}
+
+/**
+ * Move one chord, e.g. after dragging it onto another line
+ */
+export function moveChord(draft: ImportDraft, index: number, chordId: string, line: number, position: number): ImportDraft {
+  const sections = draft.sections.map((section, i) => (i !== index ? section : {
+    ...section,
+    chords: section.chords.map(chord => (chord.id === chordId ? { ...chord, line, position: Math.max(0, position) } : chord))
+  }));
+  return { ...draft, sections };
+}
+
+export const countChords = (draft: ImportDraft) =>
+  draft.sections.reduce((total, section) => total + section.chords.length, 0);
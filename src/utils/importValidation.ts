@@ -0,0 +1,265 @@
+// Checking songs as they come into the library from files, URLs and
+// backups. Each record is repaired where the problem is a common one, then
+// run through StoredSongSchema, which only refuses what can't be stored;
+// records that still fail are left out with the reasons, so one bad song
+// doesn't stop the rest of an import.
+import { z } from 'zod';
+import type { Section, Song } from '../types/song';
+import { StoredSongSchema, StoredSectionSchema } from './validation';
+import { ensureSectionIds } from './arrangements';
+
+// A song that was repaired or left out, for the import report
+export interface ImportProblem {
+  index: number; // Position of the record in the imported data
+  title: string;
+  messages: string[];
+}
+
+export interface ImportReport {
+  imported: number;
+  repaired: ImportProblem[]; // Imported after automatic repairs
+  rejected: ImportProblem[]; // Left out
+}
+
+export interface ValidatedSongs {
+  songs: Song[];
+  repaired: ImportProblem[];
+  rejected: ImportProblem[];
+}
+
+export interface ImportValidationOptions {
+  // Keep the ids and dates the records have, for restoring; otherwise they
+  // are replaced when the songs are saved, so missing ones don't matter
+  keepIds?: boolean;
+}
+
+const SECTION_TYPES: readonly Section['type'][] = StoredSectionSchema.shape.type.options;
+
+// Section names other apps use for the types this app knows
+const SECTION_TYPE_ALIASES: Record<string, Section['type']> = {
+  refrain: 'chorus',
+  'pre chorus': 'pre-chorus',
+  prechorus: 'pre-chorus',
+  'pre-refrain': 'pre-chorus',
+  'post-chorus': 'tag',
+  'post chorus': 'tag',
+  ending: 'outro',
+  coda: 'outro',
+  instrumental: 'break',
+  interlude: 'break',
+  solo: 'break',
+  turnaround: 'break'
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeIssue = (issue: z.ZodIssue) => `${issue.path.join('.') || 'song'}: ${issue.message}`;
+
+// The section type a name stands for, e.g. "Verse 2" or "Refrain"
+function toSectionType(value: unknown): Section['type'] | null {
+  if (typeof value !== 'string') return null;
+  const name = value.toLowerCase().replace(/\d+$/, '').trim();
+  if ((SECTION_TYPES as readonly string[]).includes(name)) return name as Section['type'];
+  return SECTION_TYPE_ALIASES[name] || null;
+}
+
+// A date as an ISO string, or null when it can't be read
+function toIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+const toIndex = (value: unknown) => typeof value === 'number' && isFinite(value) ? Math.max(0, Math.round(value)) : value;
+
+function repairSection(value: unknown, repairs: Set<string>): unknown {
+  if (!isRecord(value)) return value;
+  const section = { ...value };
+
+  const type = toSectionType(section.type);
+  if (type && type !== section.type) {
+    repairs.add(`Read section type "${section.type}" as ${type}`);
+  } else if (!type && typeof section.type === 'string') {
+    repairs.add(`Changed unknown section type "${section.type}" to verse`);
+  } else if (!type) {
+    repairs.add('Made sections without a type verses');
+  }
+  section.type = type || 'verse';
+
+  if (section.content === undefined || section.content === null) section.content = '';
+  if (section.chords === undefined || section.chords === null) section.chords = [];
+
+  if (Array.isArray(section.chords)) {
+    section.chords = section.chords.map(chordValue => {
+      if (!isRecord(chordValue)) return chordValue;
+      const chord = { ...chordValue };
+      if (typeof chord.id !== 'string' || !chord.id) {
+        chord.id = crypto.randomUUID();
+        repairs.add('Gave chords without ids new ones');
+      }
+      for (const field of ['position', 'line'] as const) {
+        const index = toIndex(chord[field]);
+        if (index !== chord[field]) {
+          repairs.add(field === 'position'
+            ? 'Moved chords with negative or fractional positions onto the line'
+            : 'Moved chords with negative or fractional line numbers onto a line');
+          chord[field] = index;
+        }
+      }
+      return chord;
+    });
+  }
+
+  return section;
+}
+
+/**
+ * Repair the common problems in an imported record, returning the repaired
+ * record and what was done to it. The record is still checked by StoredSongSchema
+ * afterwards.
+ */
+function repairSongRecord(value: unknown, index: number, keepIds: boolean): { record: unknown; repairs: string[] } {
+  if (!isRecord(value)) return { record: value, repairs: [] };
+  const record = { ...value };
+  const repairs = new Set<string>();
+  const now = new Date().toISOString();
+
+  if (typeof record.id === 'number') record.id = String(record.id);
+  if (typeof record.id !== 'string' || !record.id) {
+    record.id = crypto.randomUUID();
+    if (keepIds) repairs.add('Gave the song a new id');
+  }
+  for (const field of ['createdAt', 'updatedAt'] as const) {
+    const date = toIsoDate(record[field]);
+    if (!date && keepIds) repairs.add('Set missing or unreadable dates to now');
+    record[field] = date || now;
+  }
+
+  if (typeof record.title !== 'string' || !record.title.trim()) {
+    record.title = `Imported Song ${index + 1}`;
+    repairs.add('Filled in the missing title');
+  }
+  if (record.artist === undefined || record.artist === null) record.artist = '';
+
+  // Cloud documents keep sections as JSON text
+  if (typeof record.sections === 'string') {
+    try {
+      record.sections = JSON.parse(record.sections);
+    } catch {
+      // Left for the schema to report
+    }
+  }
+  if (record.sections === undefined || (Array.isArray(record.sections) && record.sections.length === 0)) {
+    record.sections = [{ type: 'verse', content: '', chords: [] }];
+    repairs.add('Added an empty verse to a song without sections');
+  }
+  if (Array.isArray(record.sections)) {
+    record.sections = record.sections.map(section => repairSection(section, repairs));
+  }
+  if (Array.isArray(record.originalSections)) {
+    record.originalSections = record.originalSections.map(section => repairSection(section, repairs));
+  }
+
+  if (record.tags !== undefined && !Array.isArray(record.tags)) {
+    record.tags = typeof record.tags === 'string' ? record.tags.split(',') : [];
+    repairs.add('Turned the tags into a list');
+  }
+  if (Array.isArray(record.tags)) {
+    record.tags = record.tags.map(tag => String(tag).trim()).filter(tag => tag.length > 0);
+  }
+  for (const field of ['notes', 'originalKey', 'transposedKey', 'tempo', 'activeArrangementId', 'currentTranspose'] as const) {
+    if (record[field] === null) delete record[field];
+  }
+  // Imported songs come in out of the trash
+  delete record.deletedAt;
+
+  return { record, repairs: Array.from(repairs) };
+}
+
+type SongCheck =
+  | { ok: true; song: Song; repairs: string[] }
+  | { ok: false; title: string; reasons: string[] };
+
+// Repair and check one imported record
+function checkSongRecord(value: unknown, index: number, keepIds: boolean): SongCheck {
+  const { record, repairs } = repairSongRecord(value, index, keepIds);
+  const title = isRecord(record) && typeof record.title === 'string' ? record.title : `Record ${index + 1}`;
+
+  const parsed = StoredSongSchema.safeParse(record);
+  if (!parsed.success) {
+    return { ok: false, title, reasons: parsed.error.issues.map(describeIssue) };
+  }
+
+  const song: Song = { ...parsed.data, sections: ensureSectionIds(parsed.data.sections) };
+  if (isRecord(record) && typeof record.notes === 'string' && record.notes !== song.notes) {
+    repairs.push('Removed scripts from the notes');
+  }
+  return { ok: true, song, repairs };
+}
+
+/**
+ * Repair and check every imported record. Songs that pass are returned
+ * with their section ids filled in; the others are listed with the reasons.
+ */
+export function validateImportedSongs(records: unknown[], options: ImportValidationOptions = {}): ValidatedSongs {
+  const result: ValidatedSongs = { songs: [], repaired: [], rejected: [] };
+  records.forEach((value, index) => {
+    const check = checkSongRecord(value, index, options.keepIds ?? false);
+    if (!check.ok) {
+      result.rejected.push({ index, title: check.title, messages: check.reasons });
+      return;
+    }
+    result.songs.push(check.song);
+    if (check.repairs.length > 0) result.repaired.push({ index, title: check.song.title, messages: check.repairs });
+  });
+  return result;
+}
+
+/**
+ * Read imported JSON, which must hold an array of songs
+ */
+export function parseImportedSongs(json: string): unknown[] {
+  const data: unknown = JSON.parse(json);
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid data format: Expected an array of songs');
+  }
+  return data;
+}
+
+/**
+ * Validate imported records and save the ones that pass, one at a time. A
+ * song that fails to save is reported as rejected instead of stopping the
+ * rest of the import.
+ */
+export async function importSongs(
+  records: unknown[],
+  save: (song: Song) => Promise<unknown>,
+  options: ImportValidationOptions = {}
+): Promise<ImportReport> {
+  const report: ImportReport = { imported: 0, repaired: [], rejected: [] };
+
+  for (const [index, value] of records.entries()) {
+    const check = checkSongRecord(value, index, options.keepIds ?? false);
+    if (!check.ok) {
+      report.rejected.push({ index, title: check.title, messages: check.reasons });
+      continue;
+    }
+
+    try {
+      await save(check.song);
+    } catch (error) {
+      console.error(`Failed to import song "${check.song.title}":`, error);
+      report.rejected.push({
+        index,
+        title: check.song.title,
+        messages: [`Could not be saved: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      });
+      continue;
+    }
+    report.imported++;
+    if (check.repairs.length > 0) report.repaired.push({ index, title: check.song.title, messages: check.repairs });
+  }
+
+  return report;
+}
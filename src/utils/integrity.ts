@@ -0,0 +1,171 @@
+// Checking the library for chords that no longer fit their lyrics and other
+// leftovers of editing: chords on lines that were deleted, chords past the
+// end of their line, chord ids used more than once, and untransposed copies
+// of the sections that no longer match the song
+import type { Chord, Section, Song } from '../types/song';
+
+export type IntegrityProblemKind = 'orphanLine' | 'pastEnd' | 'duplicateId' | 'staleOriginal';
+
+// Ways to fix a problem:
+// clamp - move the chord back onto the end of its line
+// reanchor - move the chord onto the last line of its section
+// reid - give the chord a new id
+// drop - remove the chord, or the stale copy of the sections
+export type IntegrityFix = 'clamp' | 'reanchor' | 'reid' | 'drop';
+
+export const INTEGRITY_PROBLEMS: Record<IntegrityProblemKind, {
+  label: string;
+  description: string;
+  fixes: { fix: IntegrityFix; label: string }[];
+}> = {
+  orphanLine: {
+    label: 'Chords on missing lines',
+    description: 'Chords pointing at lines the section no longer has. They are not shown.',
+    fixes: [
+      { fix: 'reanchor', label: 'Move to last line' },
+      { fix: 'drop', label: 'Remove' }
+    ]
+  },
+  pastEnd: {
+    label: 'Chords past the end of the line',
+    description: 'Chords placed further along than the line they sit on is long.',
+    fixes: [
+      { fix: 'clamp', label: 'Move to line end' },
+      { fix: 'drop', label: 'Remove' }
+    ]
+  },
+  duplicateId: {
+    label: 'Repeated chord ids',
+    description: 'Chords sharing an id, so moving or deleting one can change another.',
+    fixes: [
+      { fix: 'reid', label: 'Give new ids' }
+    ]
+  },
+  staleOriginal: {
+    label: 'Outdated untransposed copy',
+    description: 'The copy of the sections kept from before transposing no longer matches the song.',
+    fixes: [
+      { fix: 'drop', label: 'Remove, rebuilt on next save' }
+    ]
+  }
+};
+
+export interface IntegrityProblem {
+  kind: IntegrityProblemKind;
+  songId: string;
+  songTitle: string;
+  preview: string; // What is wrong, e.g. which chord and line
+}
+
+// The fix chosen for each kind of problem; kinds left out aren't fixed
+export type IntegrityFixes = Partial<Record<IntegrityProblemKind, IntegrityFix>>;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const getSectionLabel = (section: Section) =>
+  section.number ? `${capitalize(section.type)} ${section.number}` : capitalize(section.type);
+
+// Chord positions and lyrics of a section, which transposing leaves alone
+const getLayoutSignature = (section: Section) =>
+  JSON.stringify([section.type, section.content, section.chords.map(chord => [chord.line, chord.position])]);
+
+/**
+ * Why the untransposed copy of the sections doesn't match the song, or null
+ * when it does or there is none
+ */
+function describeStaleOriginal(song: Song): string | null {
+  const original = song.originalSections;
+  if (!original) return null;
+  if (original.length !== song.sections.length) {
+    return `The copy has ${original.length} sections, the song has ${song.sections.length}`;
+  }
+  const index = song.sections.findIndex((section, i) => getLayoutSignature(section) !== getLayoutSignature(original[i]));
+  return index === -1 ? null : `${getSectionLabel(song.sections[index])} differs from the copy`;
+}
+
+/**
+ * Every problem in one song
+ */
+export function checkSong(song: Song): IntegrityProblem[] {
+  const problems: IntegrityProblem[] = [];
+  const add = (kind: IntegrityProblemKind, preview: string) =>
+    problems.push({ kind, songId: song.id, songTitle: song.title || 'Untitled', preview });
+
+  const idCounts = new Map<string, number>();
+  song.sections.forEach(section => {
+    const lines = section.content.split('\n');
+    const label = getSectionLabel(section);
+    for (const chord of section.chords) {
+      idCounts.set(chord.id, (idCounts.get(chord.id) || 0) + 1);
+      if (chord.line >= lines.length) {
+        add('orphanLine', `${label}: "${chord.text}" on line ${chord.line + 1}, the section has ${lines.length}`);
+      } else if (chord.position > lines[chord.line].length) {
+        add('pastEnd', `${label}: "${chord.text}" at column ${chord.position + 1} of "${lines[chord.line]}"`);
+      }
+    }
+  });
+
+  for (const [id, count] of idCounts) {
+    if (count > 1) add('duplicateId', `"${id}" is used by ${count} chords`);
+  }
+
+  const stale = describeStaleOriginal(song);
+  if (stale) add('staleOriginal', stale);
+
+  return problems;
+}
+
+/**
+ * Every problem in the library, song by song
+ */
+export function checkLibrary(songs: Song[]): IntegrityProblem[] {
+  return songs.flatMap(checkSong);
+}
+
+function repairChord(chord: Chord, lines: string[], fixes: IntegrityFixes): Chord | null {
+  let { line, position } = chord;
+
+  if (line >= lines.length) {
+    if (fixes.orphanLine === 'drop') return null;
+    if (fixes.orphanLine !== 'reanchor') return chord;
+    line = lines.length - 1;
+    position = Math.min(position, lines[line].length);
+  }
+
+  if (position > lines[line].length) {
+    if (fixes.pastEnd === 'drop') return null;
+    if (fixes.pastEnd === 'clamp') position = lines[line].length;
+  }
+
+  return line === chord.line && position === chord.position ? chord : { ...chord, line, position };
+}
+
+function repairSections(sections: Section[], fixes: IntegrityFixes): Section[] {
+  const seenIds = new Set<string>();
+  return sections.map(section => {
+    const lines = section.content.split('\n');
+    const chords = section.chords.flatMap(chord => {
+      const repaired = repairChord(chord, lines, fixes);
+      if (!repaired) return [];
+      const duplicate = seenIds.has(repaired.id);
+      seenIds.add(repaired.id);
+      return [duplicate && fixes.duplicateId === 'reid' ? { ...repaired, id: crypto.randomUUID() } : repaired];
+    });
+    return { ...section, chords };
+  });
+}
+
+/**
+ * Apply the chosen fixes to a song. When chords share an id the first keeps
+ * it and the others get new ones. Chords in the untransposed copy of the
+ * sections get the same fixes, so a copy that matched still matches.
+ */
+export function repairSong(song: Song, fixes: IntegrityFixes): Song {
+  const repairedSong: Song = { ...song, sections: repairSections(song.sections, fixes) };
+  if (fixes.staleOriginal === 'drop' && describeStaleOriginal(song)) {
+    delete repairedSong.originalSections;
+  } else if (song.originalSections) {
+    repairedSong.originalSections = repairSections(song.originalSections, fixes);
+  }
+  return repairedSong;
+}
@@ -0,0 +1,194 @@
+// One-off migration of songs from the `songbuilder` IndexedDB database used
+// by older versions of the app into the current local store
+import { z } from 'zod';
+import type { Song } from '../types/song';
+import { ensureSectionIds } from './arrangements';
+import { detectKey } from './transpose';
+import { logger } from './logger';
+
+const LEGACY_DB_NAME = 'songbuilder';
+
+// Set once the migration has run. A legacy database holding songs that
+// couldn't be read is kept for recovering them by hand, and this stops the
+// migration from running again on every start.
+const MIGRATION_DONE_KEY = 'songbuilder_legacy_migrated';
+
+// Songs as the legacy database stored them. Anything beyond the fields it
+// knew about is ignored; missing optional fields get defaults on conversion.
+const LegacyChordSchema = z.object({
+  id: z.string().optional(),
+  text: z.string().min(1),
+  position: z.number().int().min(0),
+  line: z.number().int().min(0)
+});
+
+const LegacySectionSchema = z.object({
+  type: z.enum(['verse', 'chorus', 'bridge', 'tag', 'break', 'intro', 'outro', 'pre-chorus']).catch('verse'),
+  content: z.string().catch(''),
+  number: z.number().int().positive().optional().catch(undefined),
+  chords: z.array(LegacyChordSchema).catch([])
+});
+
+const LegacySongSchema = z.object({
+  id: z.union([z.string().min(1), z.number()]).transform(String),
+  title: z.string().catch(''),
+  artist: z.string().catch(''),
+  sections: z.array(LegacySectionSchema),
+  createdAt: z.string().optional().catch(undefined),
+  updatedAt: z.string().optional().catch(undefined),
+  tags: z.unknown().optional(),
+  notes: z.string().optional().catch(undefined),
+  currentTranspose: z.string().optional().catch(undefined),
+  transposedKey: z.string().optional().catch(undefined),
+  originalKey: z.string().optional().catch(undefined)
+});
+
+export interface LegacySongProblem {
+  id: string;
+  title: string;
+  reason: string;
+}
+
+export interface LegacyMigrationResult {
+  songs: Song[];
+  invalid: LegacySongProblem[];
+}
+
+// What a migration did, for telling the user
+export interface LegacyMigrationReport {
+  moved: number;
+  alreadyPresent: number; // Moved by an earlier, interrupted run
+  invalid: LegacySongProblem[];
+}
+
+// Timestamps from the legacy database, or now when missing or unreadable
+function toIsoDate(value: string | undefined, fallback: string): string {
+  if (!value) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+/**
+ * Convert one legacy record into the current Song shape: tags cleaned into an
+ * array of strings, notes defaulted, the old currentTranspose carried over as
+ * transposedKey and the original key detected from the chords when unknown.
+ * Returns the reason instead when the record can't be used.
+ */
+export function convertLegacySong(record: unknown): Song | LegacySongProblem {
+  const parsed = LegacySongSchema.safeParse(record);
+  if (!parsed.success) {
+    const raw = (record && typeof record === 'object' ? record : {}) as { id?: unknown; title?: unknown };
+    return {
+      id: String(raw.id ?? ''),
+      title: typeof raw.title === 'string' ? raw.title : '',
+      reason: parsed.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`).join('; ')
+    };
+  }
+
+  const legacy = parsed.data;
+  const now = new Date().toISOString();
+  const sections = ensureSectionIds(legacy.sections.map(section => ({
+    type: section.type,
+    content: section.content,
+    ...(section.number ? { number: section.number } : {}),
+    chords: section.chords.map(chord => ({ ...chord, id: chord.id || crypto.randomUUID() }))
+  })));
+  const tags = Array.isArray(legacy.tags)
+    ? legacy.tags.map(tag => String(tag).trim()).filter(tag => tag.length > 0)
+    : [];
+  const chords = sections.flatMap(section => section.chords.map(chord => chord.text));
+  const createdAt = toIsoDate(legacy.createdAt, now);
+
+  return {
+    id: legacy.id,
+    title: legacy.title || 'Untitled',
+    artist: legacy.artist,
+    sections,
+    createdAt,
+    updatedAt: toIsoDate(legacy.updatedAt, createdAt),
+    tags,
+    notes: legacy.notes || '',
+    originalKey: legacy.originalKey || (chords.length > 0 ? detectKey(chords) : undefined),
+    transposedKey: legacy.transposedKey || legacy.currentTranspose || undefined
+  };
+}
+
+/**
+ * Check for the legacy database without creating it. Browsers without
+ * indexedDB.databases() need the database opened to find out, so an empty
+ * one created by that check is removed straight away.
+ */
+async function openLegacyDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB.databases === 'function') {
+    const databases = await indexedDB.databases();
+    if (!databases.some(database => database.name === LEGACY_DB_NAME)) {
+      return null;
+    }
+  }
+
+  const database = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(LEGACY_DB_NAME);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+
+  if (!database.objectStoreNames.contains('songs')) {
+    database.close();
+    await deleteLegacyDatabase();
+    return null;
+  }
+  return database;
+}
+
+export function isLegacyMigrationDone(): boolean {
+  return localStorage.getItem(MIGRATION_DONE_KEY) !== null;
+}
+
+export function markLegacyMigrationDone(): void {
+  localStorage.setItem(MIGRATION_DONE_KEY, new Date().toISOString());
+}
+
+/**
+ * Read and convert every song in the legacy database. Resolves to null when
+ * there is no legacy database or it was migrated before.
+ */
+export async function readLegacySongs(): Promise<LegacyMigrationResult | null> {
+  if (isLegacyMigrationDone()) return null;
+
+  const database = await openLegacyDatabase();
+  if (!database) return null;
+
+  try {
+    const records = await new Promise<unknown[]>((resolve, reject) => {
+      const request = database.transaction(['songs'], 'readonly').objectStore('songs').getAll();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || []);
+    });
+
+    const result: LegacyMigrationResult = { songs: [], invalid: [] };
+    for (const record of records) {
+      const converted = convertLegacySong(record);
+      if ('reason' in converted) {
+        result.invalid.push(converted);
+      } else {
+        result.songs.push(converted);
+      }
+    }
+
+    logger.log('Read legacy songs:', result.songs.length, 'invalid:', result.invalid.length);
+    return result;
+  } finally {
+    database.close();
+  }
+}
+
+export async function deleteLegacyDatabase(): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(LEGACY_DB_NAME);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+    // Another tab still has it open; it is deleted once that tab closes it
+    request.onblocked = () => resolve();
+  });
+  logger.log('Legacy database removed');
+}
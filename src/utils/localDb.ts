@@ -1,20 +1,64 @@
 // Local IndexedDB implementation for public users (temporary storage)
-import type { Song } from '../types/song';
-import type { StorageService } from './storageInterface';
+import type { Song, Setlist, SongRevision } from '../types/song';
+import type { StorageService, OutboxEntry, SongQuery, SongQueryResult, SongUpdateOptions, SyncMeta } from './storageInterface';
+import { SongConflictError } from './storageInterface';
 import { logger } from './logger';
+import { createRevision, getRevisionsToPrune, isSameRevisionContent } from './revisions';
+import { isTrashed } from './trash';
+import { DEFAULT_SONG_SORT, compareSongsForQuery, matchesSongQuery, toSongSummary } from './songQuery';
+import { importSongs, parseImportedSongs } from './importValidation';
+import { checkStoredSong } from './validation';
+import type { ImportReport } from './importValidation';
 
 const DB_NAME = 'songbuilder-local';
-const DB_VERSION = 1;
+const DB_VERSION = 6;
 let db: IDBDatabase | null = null;
 
+// Each account keeps its songs in a database of its own, so nothing one
+// account saved on this device is shown to, or synced into, another. Songs
+// saved while logged out go in the guest database, under the original name.
+let dbName = DB_NAME;
+
+const getDatabaseName = (userId: string | null) => (userId ? `${DB_NAME}-${userId}` : DB_NAME);
+
+/**
+ * Read and write the given user's database from now on, or the guest
+ * database when logged out
+ */
+export function switchLocalDatabase(userId: string | null): void {
+  const name = getDatabaseName(userId);
+  if (name === dbName) return;
+  // Closing waits for transactions already running on the old database
+  db?.close();
+  db = null;
+  dbName = name;
+  logger.log('Switched to local database', name);
+}
+
 async function initLocalDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    if (db) {
-      db.close();
+  // Reuse the open connection - the sync engine and the UI read and write
+  // at the same time, and closing it would abort their transactions
+  if (db) {
+    return db;
+  }
+
+  const name = dbName;
+  const database = await openDatabase(name);
+  // Keep the connection unless the user changed while it was opening
+  if (name === dbName) {
+    db = database;
+    // Let a newer version of the app in another tab upgrade the database
+    db.onversionchange = () => {
+      db?.close();
       db = null;
-    }
+    };
+  }
+  return database;
+}
 
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
 
     request.onerror = () => {
       logger.error('Local database error:', request.error);
@@ -22,9 +66,8 @@ async function initLocalDB(): Promise<IDBDatabase> {
     };
 
     request.onsuccess = () => {
-      db = request.result;
       logger.log('Local database opened successfully');
-      resolve(db);
+      resolve(request.result);
     };
 
     request.onupgradeneeded = (event) => {
@@ -33,131 +76,604 @@ async function initLocalDB(): Promise<IDBDatabase> {
       if (!database.objectStoreNames.contains('songs')) {
         database.createObjectStore('songs', { keyPath: 'id' });
       }
+
+      // Version 5: indexes for querySongs. Songs in the trash are the only
+      // ones with deletedAt, so counting that index counts the trash.
+      const songStore = request.transaction!.objectStore('songs');
+      const songIndexes: [string, boolean][] = [
+        ['artist', false],
+        ['tags', true],
+        ['updatedAt', false],
+        ['deletedAt', false]
+      ];
+      for (const [name, multiEntry] of songIndexes) {
+        if (!songStore.indexNames.contains(name)) {
+          songStore.createIndex(name, name, { unique: false, multiEntry });
+        }
+      }
+
+      // Version 6: drop the title index. Index keys sort case-sensitively,
+      // so it can't give the case-insensitive title order querySongs uses.
+      if (songStore.indexNames.contains('title')) {
+        songStore.deleteIndex('title');
+      }
+
+      // Version 2: setlists
+      if (!database.objectStoreNames.contains('setlists')) {
+        database.createObjectStore('setlists', { keyPath: 'id' });
+      }
+
+      // Version 3: sync bookkeeping - queued outgoing changes, the cloud
+      // version each record was last synced at, and unresolved conflicts
+      if (!database.objectStoreNames.contains('outbox')) {
+        database.createObjectStore('outbox', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains('syncMeta')) {
+        database.createObjectStore('syncMeta', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains('conflicts')) {
+        database.createObjectStore('conflicts', { keyPath: 'id' });
+      }
+
+      // Version 4: song revision history
+      if (!database.objectStoreNames.contains('revisions')) {
+        const revisionStore = database.createObjectStore('revisions', { keyPath: 'id' });
+        revisionStore.createIndex('songId', 'songId', { unique: false });
+      }
     };
   });
 }
 
+type LocalStoreName = 'songs' | 'setlists' | 'outbox' | 'syncMeta' | 'conflicts' | 'revisions';
+const LOCAL_STORES: LocalStoreName[] = ['songs', 'setlists', 'outbox', 'syncMeta', 'conflicts', 'revisions'];
+
+// Everything in the guest database
+export interface GuestDatabase {
+  songs: Song[];
+  setlists: Setlist[];
+  revisions: SongRevision[];
+  syncMeta: SyncMeta[];
+}
+
+/**
+ * Read the guest database, for the account logging in to take over what was
+ * saved while logged out
+ */
+export async function readGuestDatabase(): Promise<GuestDatabase> {
+  const database = await openDatabase(DB_NAME);
+
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = database.transaction(['songs', 'setlists', 'revisions', 'syncMeta'], 'readonly');
+      const contents: GuestDatabase = { songs: [], setlists: [], revisions: [], syncMeta: [] };
+      const read = <K extends keyof GuestDatabase>(storeName: K) => {
+        const request = transaction.objectStore(storeName).getAll();
+        request.onsuccess = () => {
+          contents[storeName] = request.result;
+        };
+      };
+      read('songs');
+      read('setlists');
+      read('revisions');
+      read('syncMeta');
+
+      transaction.oncomplete = () => resolve(contents);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Empty every store of the guest database
+ */
+export async function clearGuestDatabase(): Promise<void> {
+  const database = await openDatabase(DB_NAME);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(LOCAL_STORES, 'readwrite');
+      LOCAL_STORES.forEach(storeName => transaction.objectStore(storeName).clear());
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+// Run a single request against one object store
+async function runStoreRequest<T>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const database = await initLocalDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([storeName], mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result as T);
+  });
+}
+
+// Raw store access for the sync engine. Unlike LocalStorageService these
+// write records exactly as given, without touching updatedAt.
+export async function getAllFromStore<T>(storeName: LocalStoreName): Promise<T[]> {
+  const result = await runStoreRequest<T[] | undefined>(storeName, 'readonly', store => store.getAll());
+  return result || [];
+}
+
+export async function getFromStore<T>(storeName: LocalStoreName, key: string): Promise<T | null> {
+  const result = await runStoreRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+  return result || null;
+}
+
+export async function putInStore<T>(storeName: LocalStoreName, value: T): Promise<void> {
+  await runStoreRequest(storeName, 'readwrite', store => store.put(value));
+}
+
+export async function deleteFromStore(storeName: LocalStoreName, key: string): Promise<void> {
+  await runStoreRequest(storeName, 'readwrite', store => store.delete(key));
+}
+
+/**
+ * Remove a pushed change from the outbox, unless the record was changed
+ * again while the push was in flight
+ */
+export async function removeOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const database = await initLocalDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['outbox'], 'readwrite');
+    const store = transaction.objectStore('outbox');
+    const request = store.get(entry.id);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const current = request.result as OutboxEntry | undefined;
+      if (current && current.queuedAt === entry.queuedAt) {
+        store.delete(entry.id);
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
 export class LocalStorageService implements StorageService {
+  // Name recorded on revisions saved from this device
+  private revisionAuthor = '';
+
+  setRevisionAuthor(author: string): void {
+    this.revisionAuthor = author;
+  }
+
+  // All saved versions of a song, newest first
+  async getSongRevisions(songId: string): Promise<SongRevision[]> {
+    const database = await initLocalDB();
+
+    const revisions = await new Promise<SongRevision[]>((resolve, reject) => {
+      const transaction = database.transaction(['revisions'], 'readonly');
+      const request = transaction.objectStore('revisions').index('songId').getAll(songId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || []);
+    });
+
+    return revisions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Keep a copy of a song as it was just saved, unless nothing worth keeping
+   * changed since the last revision. The first revision of a song that
+   * existed before history was kept also records the version it replaced.
+   */
+  private async recordRevision(song: Song, previous: Song | null = null): Promise<void> {
+    const revisions = await this.getSongRevisions(song.id);
+
+    if (revisions.length === 0 && previous && !isSameRevisionContent(previous, song)) {
+      const baseline = createRevision(previous, '');
+      baseline.createdAt = baseline.updatedAt = previous.updatedAt;
+      await putInStore('revisions', baseline);
+    } else if (revisions.length > 0 && isSameRevisionContent(revisions[0].snapshot, song)) {
+      return;
+    }
+
+    await putInStore('revisions', createRevision(song, this.revisionAuthor));
+
+    for (const revisionId of getRevisionsToPrune(revisions)) {
+      await deleteFromStore('revisions', revisionId);
+    }
+  }
+
   async saveSong(song: Omit<Song, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    checkStoredSong(song);
     const database = await initLocalDB();
-    
-    return new Promise((resolve, reject) => {
-      const transaction = database.transaction(['songs'], 'readwrite');
-      const store = transaction.objectStore('songs');
 
-      const songWithMetadata: Song = {
-        ...song,
-        id: crypto.randomUUID(),
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        tags: song.tags || [],
-        notes: song.notes || ''
-      };
+    const songWithMetadata: Song = {
+      ...song,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      tags: song.tags || [],
+      notes: song.notes || ''
+    };
 
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(['songs'], 'readwrite');
+      const store = transaction.objectStore('songs');
       const request = store.add(songWithMetadata);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
         logger.log('Song saved locally:', songWithMetadata.id);
-        resolve(songWithMetadata.id);
+        resolve();
       };
     });
+
+    await this.recordRevision(songWithMetadata);
+    return songWithMetadata.id;
   }
 
   async getAllSongs(): Promise<Song[]> {
+    const songs = await getAllFromStore<Song>('songs');
+    const activeSongs = songs.filter(song => !isTrashed(song));
+    logger.log('Retrieved local songs:', activeSongs.length);
+    return activeSongs;
+  }
+
+  async getSong(id: string): Promise<Song | null> {
+    const song = await getFromStore<Song>('songs', id);
+    return song && !isTrashed(song) ? song : null;
+  }
+
+  /**
+   * Filter, sort and page songs. The tag and artist indexes narrow down the
+   * songs to look at; listing everything by date walks the updatedAt index
+   * so only one page is read. Text search and sorting by title or artist
+   * read every candidate and sort in memory. Cursors are positions in the
+   * results.
+   */
+  async querySongs(query: SongQuery): Promise<SongQueryResult> {
     const database = await initLocalDB();
-    
+    const sort = query.sort || DEFAULT_SONG_SORT;
+    const offset = Number(query.cursor) || 0;
+    const limit = query.limit ?? Infinity;
+    const hasFilters = Boolean(query.text?.trim() || query.tags?.length || query.artist || query.key);
+
+    if (!hasFilters && sort.field === 'updatedAt') {
+      return this.pageByUpdatedAt(database, sort.direction, offset, limit);
+    }
+
+    const candidates = await new Promise<Song[]>((resolve, reject) => {
+      const transaction = database.transaction(['songs'], 'readonly');
+      const store = transaction.objectStore('songs');
+      const found = new Map<string, Song>();
+      const collect = (request: IDBRequest<Song[]>) => {
+        request.onsuccess = () => request.result.forEach(song => found.set(song.id, song));
+      };
+
+      if (query.tags?.length) {
+        query.tags.forEach(tag => collect(store.index('tags').getAll(tag)));
+      } else if (query.artist) {
+        collect(store.index('artist').getAll(query.artist));
+      } else {
+        collect(store.getAll());
+      }
+
+      transaction.oncomplete = () => resolve(Array.from(found.values()));
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    const matches = candidates
+      .filter(song => matchesSongQuery(song, query))
+      .sort(compareSongsForQuery(query));
+    const end = offset + limit;
+
+    return {
+      songs: matches.slice(offset, end).map(toSongSummary),
+      total: matches.length,
+      nextCursor: end < matches.length ? String(end) : null
+    };
+  }
+
+  // One page of every song by date, read straight from the updatedAt index.
+  // The cursor counts index entries, trashed songs included.
+  private async pageByUpdatedAt(
+    database: IDBDatabase,
+    direction: 'asc' | 'desc',
+    offset: number,
+    limit: number
+  ): Promise<SongQueryResult> {
     return new Promise((resolve, reject) => {
       const transaction = database.transaction(['songs'], 'readonly');
       const store = transaction.objectStore('songs');
-      const request = store.getAll();
+      const songs: Song[] = [];
+      let position = offset;
+      let hasMore = false;
+
+      const countRequest = store.count();
+      const trashCountRequest = store.index('deletedAt').count();
+
+      const cursorRequest = store.index('updatedAt').openCursor(null, direction === 'asc' ? 'next' : 'prev');
+      let skipped = offset === 0;
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        if (songs.length >= limit) {
+          hasMore = true;
+          return;
+        }
+        if (!isTrashed(cursor.value)) {
+          songs.push(cursor.value);
+        }
+        position++;
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve({
+        songs: songs.map(toSongSummary),
+        total: countRequest.result - trashCountRequest.result,
+        nextCursor: hasMore ? String(position) : null
+      });
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Every tag in use, read from the keys of the tags index. Tags only used
+  // by songs in the trash are left out.
+  async getSongTags(): Promise<string[]> {
+    const database = await initLocalDB();
+
+    const tags = await new Promise<string[]>((resolve, reject) => {
+      const request = database.transaction(['songs'], 'readonly').objectStore('songs').index('tags').openKeyCursor(null, 'nextunique');
+      const tags: string[] = [];
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
-        logger.log('Retrieved local songs:', request.result?.length || 0);
-        resolve(request.result || []);
+        const cursor = request.result;
+        if (cursor) {
+          tags.push(String(cursor.key));
+          cursor.continue();
+        } else {
+          resolve(tags);
+        }
       };
     });
+
+    const trashedTags = new Set((await this.getTrashedSongs()).flatMap(song => song.tags || []));
+    const unusedTags = new Set<string>();
+    for (const tag of trashedTags) {
+      const songsWithTag = await runStoreRequest<Song[]>('songs', 'readonly', store => store.index('tags').getAll(tag));
+      if (songsWithTag.every(isTrashed)) {
+        unusedTags.add(tag);
+      }
+    }
+
+    return tags.filter(tag => !unusedTags.has(tag)).sort((a, b) => a.localeCompare(b));
   }
 
-  async getSong(id: string): Promise<Song | null> {
+  async updateSong(song: Song, options: SongUpdateOptions = {}): Promise<Song> {
+    checkStoredSong(song);
     const database = await initLocalDB();
-    
-    return new Promise((resolve, reject) => {
-      const transaction = database.transaction(['songs'], 'readonly');
+
+    const updatedSong = {
+      ...song,
+      updatedAt: new Date().toISOString()
+    };
+
+    // Check the stored version and write in one transaction, so nothing can
+    // save the song in between
+    const previous = await new Promise<Song | null>((resolve, reject) => {
+      const transaction = database.transaction(['songs'], 'readwrite');
       const store = transaction.objectStore('songs');
-      const request = store.get(id);
+      const getRequest = store.get(song.id);
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result || null);
+      getRequest.onerror = () => reject(getRequest.error);
+      getRequest.onsuccess = () => {
+        const stored: Song | undefined = getRequest.result;
+        if (options.expectedUpdatedAt && stored && stored.updatedAt !== options.expectedUpdatedAt) {
+          reject(new SongConflictError(stored));
+          return;
+        }
+
+        const putRequest = store.put(updatedSong);
+        putRequest.onerror = () => reject(putRequest.error);
+        putRequest.onsuccess = () => {
+          logger.log('Song updated locally:', song.id);
+          resolve(stored || null);
+        };
+      };
     });
+
+    await this.recordRevision(updatedSong, previous);
+    return updatedSong;
+  }
+
+  /**
+   * Write a song exactly as given, keeping its id and timestamps. Used for
+   * songs brought in from elsewhere rather than edited here.
+   */
+  async putSong(song: Song): Promise<void> {
+    await putInStore<Song>('songs', song);
+    await this.recordRevision(song);
+  }
+
+  async hasSong(id: string): Promise<boolean> {
+    return (await getFromStore<Song>('songs', id)) !== null;
+  }
+
+  // Move a song to the trash. Its revisions are kept so it can be restored
+  // with its history.
+  async deleteSong(id: string): Promise<void> {
+    const song = await getFromStore<Song>('songs', id);
+    if (!song || isTrashed(song)) return;
+
+    const now = new Date().toISOString();
+    await putInStore<Song>('songs', { ...song, deletedAt: now, updatedAt: now });
+    logger.log('Song moved to trash locally:', id);
   }
 
-  async updateSong(song: Song): Promise<void> {
+  // Songs in the trash, most recently deleted first
+  async getTrashedSongs(): Promise<Song[]> {
+    const songs = await getAllFromStore<Song>('songs');
+    return songs
+      .filter(isTrashed)
+      .sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+  }
+
+  async restoreSong(id: string): Promise<void> {
+    const song = await getFromStore<Song>('songs', id);
+    if (!song || !isTrashed(song)) return;
+
+    const restoredSong: Song = { ...song, updatedAt: new Date().toISOString() };
+    delete restoredSong.deletedAt;
+    await putInStore<Song>('songs', restoredSong);
+    logger.log('Song restored locally:', id);
+  }
+
+  // Delete a song and its revisions for good
+  async purgeSong(id: string): Promise<void> {
     const database = await initLocalDB();
     
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       const transaction = database.transaction(['songs'], 'readwrite');
       const store = transaction.objectStore('songs');
+      const request = store.delete(id);
 
-      const updatedSong = {
-        ...song,
-        updatedAt: new Date().toISOString()
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        logger.log('Song purged locally:', id);
+        resolve();
       };
+    });
+
+    for (const revision of await this.getSongRevisions(id)) {
+      await deleteFromStore('revisions', revision.id);
+    }
+  }
 
-      const request = store.put(updatedSong);
+  // Move every song to the trash
+  async clearDatabase(): Promise<void> {
+    for (const song of await this.getAllSongs()) {
+      await this.deleteSong(song.id);
+    }
+    logger.log('Local database cleared');
+  }
+
+  async exportDB(): Promise<string> {
+    const songs = await this.getAllSongs();
+    return JSON.stringify(songs, null, 2);
+  }
+
+  async importDB(json: string): Promise<ImportReport> {
+    // Saved as new songs, with new ids and dates
+    return importSongs(parseImportedSongs(json), song => this.saveSong(song));
+  }
+
+  async saveSetlist(setlist: Omit<Setlist, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const database = await initLocalDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(['setlists'], 'readwrite');
+      const store = transaction.objectStore('setlists');
+
+      const setlistWithMetadata: Setlist = {
+        ...setlist,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        entries: setlist.entries || []
+      };
+
+      const request = store.add(setlistWithMetadata);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
-        logger.log('Song updated locally:', song.id);
-        resolve();
+        logger.log('Setlist saved locally:', setlistWithMetadata.id);
+        resolve(setlistWithMetadata.id);
       };
     });
   }
 
-  async deleteSong(id: string): Promise<void> {
+  async getAllSetlists(): Promise<Setlist[]> {
     const database = await initLocalDB();
-    
+
     return new Promise((resolve, reject) => {
-      const transaction = database.transaction(['songs'], 'readwrite');
-      const store = transaction.objectStore('songs');
-      const request = store.delete(id);
+      const transaction = database.transaction(['setlists'], 'readonly');
+      const store = transaction.objectStore('setlists');
+      const request = store.getAll();
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
-        logger.log('Song deleted locally:', id);
-        resolve();
+        logger.log('Retrieved local setlists:', request.result?.length || 0);
+        resolve(request.result || []);
       };
     });
   }
 
-  async clearDatabase(): Promise<void> {
+  async getSetlist(id: string): Promise<Setlist | null> {
     const database = await initLocalDB();
-    
+
     return new Promise((resolve, reject) => {
-      const transaction = database.transaction(['songs'], 'readwrite');
-      const store = transaction.objectStore('songs');
-      const request = store.clear();
+      const transaction = database.transaction(['setlists'], 'readonly');
+      const store = transaction.objectStore('setlists');
+      const request = store.get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || null);
+    });
+  }
+
+  async updateSetlist(setlist: Setlist): Promise<void> {
+    const database = await initLocalDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(['setlists'], 'readwrite');
+      const store = transaction.objectStore('setlists');
+
+      const updatedSetlist = {
+        ...setlist,
+        updatedAt: new Date().toISOString()
+      };
+
+      const request = store.put(updatedSetlist);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
-        logger.log('Local database cleared');
+        logger.log('Setlist updated locally:', setlist.id);
         resolve();
       };
     });
   }
 
-  async exportDB(): Promise<string> {
-    const songs = await this.getAllSongs();
-    return JSON.stringify(songs, null, 2);
+  // Write a setlist exactly as given, keeping its id and timestamps
+  async putSetlist(setlist: Setlist): Promise<void> {
+    await putInStore<Setlist>('setlists', setlist);
   }
 
-  async importDB(json: string): Promise<void> {
-    const songs = JSON.parse(json) as Song[];
-    
-    for (const song of songs) {
-      const { id, createdAt, updatedAt, ...songData } = song;
-      await this.saveSong(songData);
-    }
+  async deleteSetlist(id: string): Promise<void> {
+    const database = await initLocalDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(['setlists'], 'readwrite');
+      const store = transaction.objectStore('setlists');
+      const request = store.delete(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        logger.log('Setlist deleted locally:', id);
+        resolve();
+      };
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,136 @@
+import type { ChordNotation, Section } from '../types/song';
+import { getNoteIndex, keyUsesFlats, parseKey, spellNote } from './transpose';
+
+// Scale degree for each semitone above the tonic
+const NASHVILLE_DEGREES = ['1', 'b2', '2', 'b3', '3', '4', '#4', '5', 'b6', '6', 'b7', '7'];
+const ROMAN_DEGREES = ['I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'];
+
+// Bass notes are written with the case of the chord built on them in a
+// major key, e.g. V/vii for a 5 chord over the 7
+const ROMAN_BASS_DEGREES = ['I', 'bII', 'ii', 'bIII', 'iii', 'IV', '#IV', 'V', 'bVI', 'vi', 'bVII', 'vii'];
+
+// Semitones above the tonic for degrees 1-7 of the major scale
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+// Chord qualities that may follow a number, e.g. 6m7, 4maj7, 7°, 2sus4
+const NUMBER_SUFFIX = '(?:maj|min|m|aug|dim|sus|add|M|°|ø|\\+|\\d)*';
+const NASHVILLE_PATTERN = new RegExp(`^([b#]?)([1-7])(${NUMBER_SUFFIX})(?:/([b#]?)([1-7]))?$`);
+const ROMAN_PATTERN = new RegExp(`^([b#]?)(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)(${NUMBER_SUFFIX})(?:/([b#]?)(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i))?$`);
+
+/**
+ * Get the tonic numbers are counted from. Minor keys are charted from their
+ * relative major, so in A minor an Am chord is a 6m.
+ */
+function getNumberTonic(key: string): number | null {
+  const parsedKey = parseKey(key);
+  if (!parsedKey) return null;
+  return parsedKey.minor ? (parsedKey.index + 3) % 12 : parsedKey.index;
+}
+
+/**
+ * Write an absolute chord relative to a key, as a Nashville number (5/7, 6m)
+ * or Roman numeral (V/vii, vi). Chords that can't be read are returned as is.
+ */
+export function chordToNotation(chord: string, key: string, notation: ChordNotation): string {
+  if (notation === 'chords') return chord;
+
+  const tonic = getNumberTonic(key);
+  const match = chord.match(/^([A-G][#b]?)([^/]*)(?:\/([A-G][#b]?))?$/);
+  if (tonic === null || !match) return chord;
+
+  const [, root, suffix, bass] = match;
+  const rootIndex = getNoteIndex(root);
+  if (rootIndex === -1) return chord;
+  const degree = (rootIndex - tonic + 12) % 12;
+
+  let bassDegree: number | null = null;
+  if (bass) {
+    const bassIndex = getNoteIndex(bass);
+    if (bassIndex !== -1) bassDegree = (bassIndex - tonic + 12) % 12;
+  }
+
+  if (notation === 'nashville') {
+    const bassText = bassDegree !== null ? `/${NASHVILLE_DEGREES[bassDegree]}` : '';
+    return `${NASHVILLE_DEGREES[degree]}${suffix}${bassText}`;
+  }
+
+  // Roman numerals show minor and diminished chords in lower case
+  let numeral = ROMAN_DEGREES[degree];
+  let quality = suffix;
+  if (/^dim/.test(suffix)) {
+    numeral = numeral.toLowerCase();
+    quality = '°' + suffix.substring(3);
+  } else if (/^(min|m)(?!aj)/.test(suffix)) {
+    numeral = numeral.toLowerCase();
+    quality = suffix.replace(/^(min|m)/, '');
+  }
+  const bassText = bassDegree !== null ? `/${ROMAN_BASS_DEGREES[bassDegree]}` : '';
+  return `${numeral}${quality}${bassText}`;
+}
+
+/**
+ * Turn a note written as a scale degree back into a note name in a key
+ */
+function degreeToNote(accidental: string, degree: number, tonic: number, useFlats: boolean): string {
+  const offset = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  const spellWithFlats = accidental === 'b' ? true : accidental === '#' ? false : useFlats;
+  return spellNote(tonic + MAJOR_SCALE[degree - 1] + offset, spellWithFlats);
+}
+
+/**
+ * Check whether a chord is written as a Nashville number or Roman numeral
+ */
+export function isNumberChord(chord: string): boolean {
+  return NASHVILLE_PATTERN.test(chord) || ROMAN_PATTERN.test(chord);
+}
+
+/**
+ * Turn a Nashville number or Roman numeral into an absolute chord in a key
+ * (5/7 in G gives D/F#, vi in G gives Em). Anything else is returned as is.
+ */
+export function numberToChord(chord: string, key: string): string {
+  const tonic = getNumberTonic(key);
+  if (tonic === null) return chord;
+  const useFlats = keyUsesFlats(key);
+
+  const nashvilleMatch = chord.match(NASHVILLE_PATTERN);
+  if (nashvilleMatch) {
+    const [, accidental, degree, suffix, bassAccidental, bassDegree] = nashvilleMatch;
+    const root = degreeToNote(accidental, parseInt(degree, 10), tonic, useFlats);
+    const bass = bassDegree ? `/${degreeToNote(bassAccidental, parseInt(bassDegree, 10), tonic, useFlats)}` : '';
+    return `${root}${suffix.replace(/^°/, 'dim')}${bass}`;
+  }
+
+  const romanMatch = chord.match(ROMAN_PATTERN);
+  if (romanMatch) {
+    const [, accidental, numeral, suffix, bassAccidental, bassNumeral] = romanMatch;
+    const root = degreeToNote(accidental, ROMAN_NUMERALS.indexOf(numeral.toUpperCase()) + 1, tonic, useFlats);
+    // Lower case numerals are minor, or diminished when marked with °
+    let quality = suffix.replace(/^°/, 'dim');
+    if (numeral === numeral.toLowerCase() && !quality.startsWith('dim')) {
+      quality = 'm' + quality;
+    }
+    const bass = bassNumeral
+      ? `/${degreeToNote(bassAccidental, ROMAN_NUMERALS.indexOf(bassNumeral.toUpperCase()) + 1, tonic, useFlats)}`
+      : '';
+    return `${root}${quality}${bass}`;
+  }
+
+  return chord;
+}
+
+/**
+ * Rewrite every chord in a list of sections relative to a key
+ */
+export function convertSectionsNotation<T extends Section>(sections: T[], key: string, notation: ChordNotation): T[] {
+  if (notation === 'chords') return sections;
+  return sections.map(section => ({
+    ...section,
+    chords: section.chords.map(chord => ({
+      ...chord,
+      text: chordToNotation(chord.text, key, notation)
+    }))
+  }));
+}
@@ -1,4 +1,7 @@
-import { Section } from '../types/song';
+import JSZip from 'jszip';
+import { Section, Chord, Arrangement, ArrangementItem } from '../types/song';
+import { isNumberChord, numberToChord } from './numberSystem';
+import { logger } from './logger';
 
 export function parseUltimateGuitarText(text: string): Section[] {
   const sections: Section[] = [];
@@ -128,6 +131,54 @@ export function parseUltimateGuitarText(text: string): Section[] {
   return sections;
 }
 
+/**
+ * Check whether a line is made up only of Nashville numbers or Roman
+ * numerals, in either case. A lone "I" is the word, not a chord, so a line
+ * holding nothing else isn't taken for a number line.
+ */
+function isNumberLine(line: string): boolean {
+  const tokens = line.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 1 && /^i$/i.test(tokens[0])) return false;
+  return tokens.length > 0 && tokens.every(isNumberChord);
+}
+
+/**
+ * Parse a number chart (Nashville numbers or Roman numerals above the lyrics)
+ * into absolute chords for the given key. Number lines are rewritten as chord
+ * lines, keeping each chord in its column, and then read as Ultimate Guitar text.
+ * A line straight below a number line is its lyric line, so it is left as
+ * lyrics even when it reads like numbers (e.g. "1 2 3 4").
+ */
+export function parseNumberChart(text: string, key: string): Section[] {
+  let previousWasNumbers = false;
+  const chordText = text.split('\n').map(line => {
+    if (previousWasNumbers || !isNumberLine(line)) {
+      previousWasNumbers = false;
+      return line;
+    }
+    previousWasNumbers = true;
+
+    let chordLine = '';
+    for (const token of line.matchAll(/\S+/g)) {
+      const chord = numberToChord(token[0], key);
+      // Keep the chord in its column unless the previous chord ran into it
+      const column = Math.max(token.index || 0, chordLine.length > 0 ? chordLine.length + 1 : 0);
+      chordLine = chordLine.padEnd(column, ' ') + chord;
+    }
+    return chordLine;
+  }).join('\n');
+
+  return parseUltimateGuitarText(chordText);
+}
+
+/**
+ * Check whether text looks like a number chart: at least one line made up
+ * only of Nashville numbers or Roman numerals
+ */
+export function isNumberChartText(text: string): boolean {
+  return text.split('\n').some(isNumberLine);
+}
+
 export function parseFreeshowText(text: string): Section[] {
   const sections: Section[] = [];
   let currentSection: Section | null = null;
@@ -270,8 +321,64 @@ export function parseFreeshowText(text: string): Section[] {
   return sections;
 }
 
-export function parseOpenLPText(_text: string): Section[] {
-  return [];
+/**
+ * Parse lyrics in OpenLP's "Edit All" text format.
+ *
+ * Sections are introduced by `---[Verse:1]---` style markers, `{br}` forces a
+ * line break, `[---]` marks an optional slide split and chords (OpenLP 2.4+)
+ * are written inline like `[G]Amazing grace`.
+ */
+export function parseOpenLPText(text: string): Section[] {
+  const sections: Section[] = [];
+  let currentSection: Section | null = null;
+  let currentLine = 0;
+
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\{br\}/gi, '\n')
+    .split('\n');
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    const markerMatch = line.match(/^---\[\s*([^\]:]+?)\s*(?::\s*([^\]]*))?\]---$/);
+    if (markerMatch) {
+      if (currentSection) sections.push(currentSection);
+
+      const numberMatch = (markerMatch[2] || '').match(/\d+/);
+      currentSection = {
+        type: getSectionTypeFromLabel(markerMatch[1]) || 'verse',
+        number: numberMatch ? parseInt(numberMatch[0]) : undefined,
+        content: '',
+        chords: []
+      };
+      currentLine = 0;
+      continue;
+    }
+
+    // Optional slide splits only matter for projection
+    if (line === '[---]') continue;
+
+    if (!currentSection) {
+      // Lyrics before the first marker still belong to a verse
+      if (!line) continue;
+      currentSection = { type: 'verse', number: 1, content: '', chords: [] };
+      currentLine = 0;
+    }
+
+    // Drop OpenLP formatting tags such as {r}...{/r} or {st}
+    const { text: cleanLine, chords } = extractInlineChords(line.replace(/\{\/?[a-z0-9]+\}/gi, ''), currentLine);
+    currentSection.chords.push(...chords);
+    currentSection.content += cleanLine + '\n';
+    currentLine++;
+  }
+
+  if (currentSection) sections.push(currentSection);
+
+  // Tidy up trailing blank lines and drop sections without any lyrics
+  return sections
+    .map(section => ({ ...section, content: section.content.replace(/\s+$/, '') }))
+    .filter(section => section.content.length > 0);
 }
 
 export interface ParsedShowFile {
@@ -279,6 +386,60 @@ export interface ParsedShowFile {
   title?: string;
   artist?: string;
   tags?: string[];
+  key?: string;
+  tempo?: string;
+  arrangements?: Arrangement[];
+  activeArrangementId?: string;
+}
+
+/**
+ * Map a free-form section label (e.g. "Verse 2", "Pre-Chorus") to a section type.
+ * Returns null when the label doesn't look like a section name.
+ */
+function getSectionTypeFromLabel(label: string): Section['type'] | null {
+  const normalized = label.toLowerCase();
+
+  if (/pre[\s-]?chorus/.test(normalized)) return 'pre-chorus';
+  if (normalized.includes('chorus') || normalized.includes('refrain')) return 'chorus';
+  if (normalized.includes('bridge')) return 'bridge';
+  if (normalized.includes('intro')) return 'intro';
+  if (normalized.includes('outro') || normalized.includes('ending')) return 'outro';
+  if (normalized.includes('interlude') || normalized.includes('instrumental') || normalized.includes('break')) return 'break';
+  if (normalized.includes('tag')) return 'tag';
+  if (normalized.includes('verse')) return 'verse';
+
+  return null;
+}
+
+/**
+ * Strip inline [chord] markers from a lyric line, remembering where each one
+ * sat in the clean line. Used by the ChordPro and OpenLP parsers.
+ */
+function extractInlineChords(line: string, lineIndex: number): { text: string; chords: Chord[] } {
+  const chords: Chord[] = [];
+  let text = '';
+  let lastIndex = 0;
+  const chordRegex = /\[([^\]]*)\]/g;
+  let match;
+
+  while ((match = chordRegex.exec(line)) !== null) {
+    text += line.substring(lastIndex, match.index);
+    lastIndex = match.index + match[0].length;
+
+    const chordText = match[1].trim();
+    // [*Riff] style annotations are not chords
+    if (!chordText || chordText.startsWith('*')) continue;
+
+    chords.push({
+      id: `chord-${lineIndex}-${chords.length}`,
+      text: chordText,
+      position: text.length,
+      line: lineIndex
+    });
+  }
+  text += line.substring(lastIndex);
+
+  return { text, chords };
 }
 
 export function parseShowFile(content: string): ParsedShowFile {
@@ -303,15 +464,17 @@ export function parseShowFile(content: string): ParsedShowFile {
       throw new Error('Invalid FreeShow .show file format - no slides found');
     }
     const slides = songData.slides;
-    const layouts = songData.layouts;
+    const layouts: Record<string, { name?: string; slides?: Array<{ id: string; disabled?: boolean }> }> = songData.layouts || {};
+    const activeLayoutId: string | undefined = songData.settings?.activeLayout;
     
-    // Get the active layout to determine slide order
-    const activeLayoutId = songData.settings?.activeLayout;
-    let slideOrder: string[] = [];
+    // Every layout becomes an arrangement
+    const layoutIds = Object.keys(layouts).filter(layoutId => Array.isArray(layouts[layoutId]?.slides));
     
-    if (activeLayoutId && layouts[activeLayoutId]) {
-      slideOrder = layouts[activeLayoutId].slides.map((slide: { id: string }) => slide.id);
-    } else {
+    // Each slide is one unique section, however often the layouts use it.
+    // Slides no layout refers to are left out, unless there are no layouts.
+    const usedSlideIds = new Set(layoutIds.flatMap(layoutId => (layouts[layoutId].slides || []).map(slide => slide.id)));
+    let slideOrder = Object.keys(slides).filter(slideId => usedSlideIds.has(slideId));
+    if (slideOrder.length === 0) {
       // If no layout is specified, use all slides in their natural order
       slideOrder = Object.keys(slides);
     }
@@ -324,7 +487,7 @@ export function parseShowFile(content: string): ParsedShowFile {
       tag: 0
     };
     
-    // Process slides in the order specified by the layout
+    // Process the slides that make up the song
     for (const slideId of slideOrder) {
       const slide = slides[slideId];
       if (!slide) continue;
@@ -348,8 +511,9 @@ export function parseShowFile(content: string): ParsedShowFile {
         sectionTypes.verse++;
       }
       
-      // Create a new section
+      // Create a new section, keyed by the slide id so layouts can refer to it
       const section: Section = {
+        id: slideId,
         type: sectionType,
         number: sectionTypes[sectionType],
         content: '',
@@ -384,6 +548,26 @@ export function parseShowFile(content: string): ParsedShowFile {
       sections.push(section);
     }
     
+    // Turn the layouts into arrangements, folding back-to-back uses of the
+    // same slide into a repeat count
+    const arrangements: Arrangement[] = layoutIds.map(layoutId => {
+      const items: ArrangementItem[] = [];
+      for (const layoutSlide of layouts[layoutId].slides || []) {
+        if (layoutSlide.disabled || !slides[layoutSlide.id]) continue;
+        const previous = items[items.length - 1];
+        if (previous && previous.sectionId === layoutSlide.id) {
+          previous.repeat = (previous.repeat || 1) + 1;
+        } else {
+          items.push({ sectionId: layoutSlide.id, repeat: 1 });
+        }
+      }
+      return {
+        id: layoutId,
+        name: layouts[layoutId].name || 'Default',
+        items
+      };
+    });
+    
     // Extract title and artist from the song data
     // Make sure to log these values for debugging
     const title = songData.name || '';
@@ -395,7 +579,9 @@ export function parseShowFile(content: string): ParsedShowFile {
     return {
       sections,
       title,
-      artist
+      artist,
+      arrangements: arrangements.length > 0 ? arrangements : undefined,
+      activeArrangementId: arrangements.find(arrangement => arrangement.id === activeLayoutId)?.id || arrangements[0]?.id
     };
   } catch (error) {
     console.error('Error parsing FreeShow .show file:', error);
@@ -404,12 +590,390 @@ export function parseShowFile(content: string): ParsedShowFile {
   }
 }
 
-export function parseProjectFile(_content: string): Section[] {
-  return [];
+/**
+ * Map an OpenLP verse tag or OpenLyrics verse name ("V1", "c", "p2") to a
+ * section type and number
+ */
+function parseOpenLPVerseTag(tag: string): { type: Section['type']; number?: number } {
+  const match = tag.trim().match(/^([a-z])\D*(\d+)?/i);
+  if (!match) return { type: 'verse' };
+
+  const types: Record<string, Section['type']> = {
+    v: 'verse',
+    c: 'chorus',
+    b: 'bridge',
+    p: 'pre-chorus',
+    i: 'intro',
+    e: 'outro',
+    o: 'break',
+    t: 'tag'
+  };
+
+  return {
+    type: types[match[1].toLowerCase()] || 'verse',
+    number: match[2] ? parseInt(match[2]) : undefined
+  };
+}
+
+// The parts of an OpenLP service item we read; everything else is ignored
+interface OpenLPServiceItem {
+  header?: {
+    name?: string;
+    plugin?: string;
+    title?: string;
+    audit?: [string?, string[]?, ...unknown[]];
+    data?: { authors?: string };
+  };
+  data?: Array<string | { raw_slide?: string; verseTag?: string }>;
+}
+
+/**
+ * Parse the service data (service_data.osj) of an OpenLP service file.
+ * Every song or custom slide item in the service becomes its own song.
+ */
+export function parseProjectFile(content: string): ParsedShowFile[] {
+  let serviceData: unknown;
+  try {
+    serviceData = JSON.parse(content);
+  } catch (error) {
+    console.error('Error parsing OpenLP service data:', error);
+    throw new Error('Failed to parse OpenLP service file');
+  }
+
+  if (!Array.isArray(serviceData)) {
+    throw new Error('Invalid OpenLP service file: expected a list of service items');
+  }
+
+  const songs: ParsedShowFile[] = [];
+
+  (serviceData as Array<{ serviceitem?: OpenLPServiceItem }>).forEach(entry => {
+    const item = entry?.serviceitem;
+    // The first entry holds the openlp_core settings, not a service item
+    if (!item || !item.header || !Array.isArray(item.data)) return;
+
+    const header = item.header;
+    const plugin = header.name || header.plugin;
+    if (plugin !== 'songs' && plugin !== 'custom') return;
+
+    const sections: Section[] = [];
+    let previousTag = '';
+
+    // Append lyric lines to a section, shifting chord lines to match
+    const appendLines = (target: Section, source: Section) => {
+      const lineOffset = target.content ? target.content.split('\n').length : 0;
+      target.chords.push(...source.chords.map(chord => ({
+        ...chord,
+        id: chord.id.replace(/^chord-\d+/, `chord-${chord.line + lineOffset}`),
+        line: chord.line + lineOffset
+      })));
+      target.content = target.content ? `${target.content}\n${source.content}` : source.content;
+    };
+
+    item.data.forEach(slide => {
+      const slideText = typeof slide === 'string' ? slide : slide?.raw_slide;
+      if (typeof slideText !== 'string' || !slideText.trim()) return;
+
+      const slideSections = parseOpenLPText(slideText);
+      if (slideSections.length === 0) return;
+
+      // OpenLP splits long verses over several slides with the same tag
+      const verseTag = typeof slide !== 'string' && typeof slide?.verseTag === 'string' ? slide.verseTag : '';
+      let target = sections[sections.length - 1];
+      if (!target || !verseTag || verseTag !== previousTag) {
+        const { type, number } = parseOpenLPVerseTag(verseTag);
+        target = { type, number, content: '', chords: [] };
+        sections.push(target);
+        previousTag = verseTag;
+      }
+
+      slideSections.forEach(section => appendLines(target, section));
+    });
+
+    if (sections.length === 0) return;
+
+    const authors = Array.isArray(header.audit?.[1])
+      ? header.audit[1].join(', ')
+      : header.data?.authors || '';
+
+    songs.push({
+      sections,
+      title: header.title || header.audit?.[0] || '',
+      artist: authors
+    });
+  });
+
+  return songs;
+}
+
+/**
+ * Open an OpenLP service file (.osz), a zip archive containing the service
+ * data as JSON, and parse every song in it
+ */
+export async function parseOSZFile(data: Blob | ArrayBuffer): Promise<ParsedShowFile[]> {
+  const zip = await JSZip.loadAsync(data);
+  const serviceFile = Object.values(zip.files).find(file => !file.dir && /\.osj$/i.test(file.name));
+
+  if (!serviceFile) {
+    throw new Error('Invalid OpenLP service file: no service data found');
+  }
+
+  return parseProjectFile(await serviceFile.async('string'));
+}
+
+/**
+ * Parse a ChordPro (.cho, .chordpro, .crd, .pro) file.
+ *
+ * Chords are written inline (`[G]Amazing [C]grace`), metadata comes from
+ * directives such as `{title}`, `{artist}`, `{key}` and `{tempo}`, and sections
+ * are either explicit environments (`{start_of_chorus}` ... `{end_of_chorus}`)
+ * or paragraphs labelled with a `{comment: Verse 2}` line.
+ */
+export function parseCHOFile(content: string): ParsedShowFile {
+  const result: ParsedShowFile = {
+    sections: [],
+    title: '',
+    artist: '',
+    tags: []
+  };
+  const sectionCounts: Record<Section['type'], number> = {
+    verse: 0,
+    chorus: 0,
+    bridge: 0,
+    tag: 0,
+    break: 0,
+    intro: 0,
+    outro: 0,
+    'pre-chorus': 0
+  };
+  let currentSection = null as Section | null;
+  let currentLine = 0;
+  // Inside an explicit {start_of_*} environment blank lines belong to the section
+  let inEnvironment = false;
+  // Tab and grid environments are kept verbatim, brackets and all
+  let inVerbatim = false;
+
+  const finishSection = () => {
+    if (currentSection && currentSection.content.trim()) {
+      currentSection.content = currentSection.content.replace(/\s+$/, '');
+      result.sections.push(currentSection);
+    }
+    currentSection = null;
+  };
+
+  const startSection = (type: Section['type'], label = ''): Section => {
+    finishSection();
+    sectionCounts[type]++;
+    const match = label.match(/\d+/);
+    const section: Section = {
+      type,
+      number: match ? parseInt(match[0]) : sectionCounts[type],
+      content: '',
+      chords: []
+    };
+    currentSection = section;
+    currentLine = 0;
+    return section;
+  };
+
+  const handleDirective = (name: string, value: string) => {
+    switch (name) {
+      case 'title':
+      case 't':
+        result.title = value;
+        break;
+      case 'subtitle':
+      case 'st':
+        // Subtitles are commonly used for the artist in older charts
+        if (!result.artist) result.artist = value;
+        break;
+      case 'artist':
+        result.artist = value;
+        break;
+      case 'composer':
+      case 'lyricist':
+        if (!result.artist) result.artist = value;
+        break;
+      case 'key':
+        result.key = value;
+        break;
+      case 'tempo':
+        result.tempo = value;
+        break;
+      case 'tag':
+      case 'tags':
+      case 'keywords':
+        value.split(',')
+          .map(tag => tag.trim())
+          .filter(tag => tag.length > 0 && !result.tags!.includes(tag))
+          .forEach(tag => result.tags!.push(tag));
+        break;
+      case 'meta': {
+        // {meta: artist Hillsong} is the ChordPro 6 spelling of {artist: Hillsong}
+        const [metaName, ...rest] = value.split(/\s+/);
+        if (metaName) handleDirective(metaName.toLowerCase(), rest.join(' '));
+        break;
+      }
+      case 'comment':
+      case 'c':
+      case 'comment_italic':
+      case 'ci':
+      case 'comment_box':
+      case 'cb':
+      case 'highlight': {
+        // Outside an environment a comment like "Chorus" labels the next paragraph
+        const labelType = inEnvironment ? null : getSectionTypeFromLabel(value);
+        if (labelType) startSection(labelType, value);
+        break;
+      }
+      case 'soc':
+        startSection('chorus', value);
+        inEnvironment = true;
+        break;
+      case 'sov':
+        startSection('verse', value);
+        inEnvironment = true;
+        break;
+      case 'sob':
+        startSection('bridge', value);
+        inEnvironment = true;
+        break;
+      case 'sot':
+      case 'sog':
+        startSection('break', value);
+        inEnvironment = true;
+        inVerbatim = true;
+        break;
+      case 'chorus': {
+        // {chorus} repeats the most recent chorus
+        finishSection();
+        const lastChorus = [...result.sections].reverse().find(section => section.type === 'chorus');
+        if (lastChorus) {
+          result.sections.push(JSON.parse(JSON.stringify(lastChorus)));
+        }
+        break;
+      }
+      case 'define':
+      case 'chord':
+        // Chord diagram definitions don't affect the lyrics or chord placement
+        break;
+      default:
+        if (name.startsWith('start_of_')) {
+          const environment = name.substring('start_of_'.length);
+          const isVerbatim = environment === 'tab' || environment === 'grid';
+          const type = isVerbatim
+            ? 'break'
+            : getSectionTypeFromLabel(value) || getSectionTypeFromLabel(environment) || 'verse';
+          startSection(type, value);
+          inEnvironment = true;
+          inVerbatim = isVerbatim;
+        } else if (name.startsWith('end_of_') || /^eo[cvbtg]$/.test(name)) {
+          finishSection();
+          inEnvironment = false;
+          inVerbatim = false;
+        }
+        break;
+    }
+  };
+
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    // Lines starting with # are file comments
+    if (line.startsWith('#')) continue;
+
+    const directiveMatch = line.match(/^\{\s*([A-Za-z_]+)(?:-[^\s:}]*)?\s*(?:[:\s]\s*([\s\S]*?))?\s*\}$/);
+    if (directiveMatch) {
+      handleDirective(directiveMatch[1].toLowerCase(), (directiveMatch[2] || '').trim());
+      continue;
+    }
+
+    if (!line) {
+      if (inEnvironment) {
+        if (currentSection) {
+          currentSection.content += '\n';
+          currentLine++;
+        }
+      } else {
+        // A blank line ends an unlabelled paragraph
+        finishSection();
+      }
+      continue;
+    }
+
+    const section = currentSection || startSection('verse');
+
+    if (inVerbatim) {
+      section.content += rawLine.trimEnd() + '\n';
+      currentLine++;
+      continue;
+    }
+
+    const { text, chords } = extractInlineChords(line, currentLine);
+    section.chords.push(...chords);
+    section.content += text + '\n';
+    currentLine++;
+  }
+
+  finishSection();
+
+  return result;
 }
 
-export function parseCHOFile(_content: string): Section[] {
-  return [];
+/**
+ * Read the lyric lines of an OpenLyrics <lines> element. Line breaks are <br/>
+ * elements, and each <chord name="..."/> sits at the character position in
+ * front of the text that follows it. Whitespace used to indent the XML is ignored.
+ */
+function parseOpenLyricsLines(linesElement: Element, firstLineIndex: number): { lines: string[]; chords: Chord[] } {
+  const lines: string[] = [''];
+  const chords: Chord[] = [];
+
+  const walk = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === 3 || child.nodeType === 4) {
+        // Text or CDATA
+        lines[lines.length - 1] += (child.textContent || '').replace(/\s*[\r\n]+\s*/g, '');
+        return;
+      }
+      if (child.nodeType !== 1) return;
+
+      const element = child as Element;
+      switch (element.localName) {
+        case 'br':
+          lines.push('');
+          break;
+        case 'chord': {
+          const chordName = element.getAttribute('name');
+          if (chordName) {
+            const lineIndex = firstLineIndex + lines.length - 1;
+            chords.push({
+              id: `chord-${lineIndex}-${chords.length}`,
+              text: chordName,
+              position: lines[lines.length - 1].length,
+              line: lineIndex
+            });
+          }
+          // OpenLyrics 1.0 wraps the lyrics a chord belongs to inside the element
+          walk(element);
+          break;
+        }
+        case 'comment':
+          // Comments are for the performer, not part of the lyrics
+          break;
+        default:
+          // Formatting tags etc. - keep their text
+          walk(element);
+          break;
+      }
+    });
+  };
+
+  walk(linesElement);
+
+  // Padding written in front of trailing chords isn't part of the lyrics
+  return { lines: lines.map(line => line.trimEnd()), chords };
 }
 
 function parseOpenLyricsXML(content: string): ParsedShowFile {
@@ -500,243 +1064,62 @@ function parseOpenLyricsXML(content: string): ParsedShowFile {
       }
     }
     
+    // Extract key and tempo
+    const keyElement = xmlDoc.querySelector('song > properties > key');
+    if (keyElement?.textContent?.trim()) {
+      result.key = keyElement.textContent.trim();
+    }
+    const tempoElement = xmlDoc.querySelector('song > properties > tempo');
+    if (tempoElement?.textContent?.trim()) {
+      result.tempo = tempoElement.textContent.trim();
+    }
+    
     // Extract verses
     const verseElements = xmlDoc.querySelectorAll('song > lyrics > verse');
-    
-    let sectionCounts = {
-      verse: 0,
-      chorus: 0,
-      bridge: 0,
-      tag: 0
-    };
+    const versesByName = new Map<string, Section>();
+    const documentOrder: Section[] = [];
     
     verseElements.forEach(verse => {
-      // Determine section type from name attribute
+      // Determine section type from name attribute (v1, c, b1, p1, ...)
       const nameAttr = verse.getAttribute('name') || '';
-      let sectionType: Section['type'] = 'verse';
-      let sectionNumber: number | undefined;
-      
-      if (nameAttr.includes('c')) {
-        sectionType = 'chorus';
-        sectionCounts.chorus++;
-        sectionNumber = sectionCounts.chorus;
-      } else if (nameAttr.includes('b')) {
-        sectionType = 'bridge';
-        sectionCounts.bridge++;
-        sectionNumber = sectionCounts.bridge;
-      } else if (nameAttr.includes('t')) {
-        sectionType = 'tag';
-        sectionCounts.tag++;
-        sectionNumber = sectionCounts.tag;
-      } else {
-        sectionType = 'verse';
-        const match = nameAttr.match(/\d+/);
-        sectionNumber = match ? parseInt(match[0]) : ++sectionCounts.verse;
-      }
-      
-      // Get lines element
-      const linesElement = verse.querySelector('lines');
-      if (!linesElement) return; // Skip if no lines element
-      
-      // Use a much simpler approach to extract chords from the XML
-      // First, get the raw XML content
-      const serializer = new XMLSerializer();
-      const linesXml = serializer.serializeToString(linesElement);
-      
-      // We don't need the processed text variable since we're using the XML directly
+      const { type, number } = parseOpenLPVerseTag(nameAttr);
       
-      // Split into lines based on <br/> tags
-      const lines = linesXml.split(/<br\s*\/?>/gi)
-        .map(line => {
-          // Remove all XML tags to get clean text
-          return line.replace(/<[^>]*>/g, '').trim();
-        })
-        .filter(line => line.length > 0);
-      
-      // Join lines with newlines for the section content
-      const sectionContent = lines.join('\n');
-      
-      // Now extract all chord elements directly
-      const allChords: Section['chords'] = [];
-      
-      // Get all chord elements from the verse
-      const chordElements = verse.querySelectorAll('chord');
-      console.log('Found', chordElements.length, 'chord elements');
-      
-      // Get all chord elements and their positions from the XML
-      const extractedChords: Array<{text: string, line: number, position: number}> = [];
-      
-      // Process each chord element to extract its name and approximate position
-      Array.from(chordElements).forEach((chordElement) => {
-        const chordName = chordElement.getAttribute('name');
-        if (!chordName) return;
-        
-        // Add to our extracted chords list
-        extractedChords.push({
-          text: chordName,
-          line: 0, // We'll adjust this later
-          position: 0 // We'll adjust this later
-        });
+      // A verse can be split over several <lines> elements (slides)
+      const lines: string[] = [];
+      const chords: Chord[] = [];
+      verse.querySelectorAll('lines').forEach(linesElement => {
+        const slide = parseOpenLyricsLines(linesElement, lines.length);
+        lines.push(...slide.lines);
+        chords.push(...slide.chords);
       });
       
-      console.log('Extracted chord names:', extractedChords.map(c => c.text).join(', '));
+      if (lines.length === 0) return; // Skip verses without lyrics
       
-      // For this specific song, use a known working chord mapping
-      // This ensures proper alignment with the lyrics
-      let songChords: Array<{text: string, line: number, position: number}> = [];
-      
-      // Check if this is 'You Are My Hiding Place' by looking at the lyrics
-      const isHidingPlaceSong = lines.some(line => 
-        line.includes('hiding place') || 
-        line.includes('fill my heart') || 
-        line.includes('songs of deliverance')
-      );
-      
-      // Check if this is verse 1 or 2 based on content
-      const isVerse1 = lines.some(line => line.includes('hiding place'));
-      const isVerse2 = lines.some(line => line.includes('trust in You'));
-      
-      console.log('Song identification:', { isHidingPlaceSong, isVerse1, isVerse2 });
-      
-      if (isHidingPlaceSong) {
-        if (isVerse1) {
-          songChords = [
-            { text: 'Am', line: 0, position: 0 },
-            { text: 'Dm', line: 0, position: 12 },
-            { text: 'G', line: 0, position: 25 },
-            { text: 'C', line: 1, position: 10 },
-            { text: 'F', line: 2, position: 5 },
-            { text: 'Dm', line: 2, position: 10 },
-            { text: 'E', line: 3, position: 4 },
-            { text: 'Am', line: 3, position: 8 },
-            { text: 'E', line: 3, position: 11 }
-          ];
-        } else if (isVerse2) {
-          songChords = [
-            { text: 'Am', line: 0, position: 7 },
-            { text: 'Dm', line: 0, position: 11 },
-            { text: 'G', line: 1, position: 8 },
-            { text: 'C', line: 1, position: 10 },
-            { text: 'F', line: 2, position: 10 },
-            { text: 'Dm', line: 2, position: 14 },
-            { text: 'E', line: 3, position: 2 },
-            { text: 'Am', line: 3, position: 8 },
-            { text: 'E', line: 3, position: 13 }
-          ];
-        }
-      }
-      
-      // If we couldn't identify the song or it's not the hiding place song,
-      // use the extracted chord names but position them intelligently
-      if (songChords.length === 0 && extractedChords.length > 0) {
-        console.log('Using generic chord positioning for unknown song');
-        
-        // Try to distribute chords evenly across lines
-        const chordsPerLine = Math.max(1, Math.ceil(extractedChords.length / lines.length));
-        
-        // Create positions that make sense for each line
-        extractedChords.forEach((chord, index) => {
-          const lineIndex = Math.min(Math.floor(index / chordsPerLine), lines.length - 1);
-          const lineText = lines[lineIndex] || '';
-          
-          // Find reasonable positions in the line (start of words)
-          const wordStarts = [0];
-          for (let i = 1; i < lineText.length; i++) {
-            if (lineText[i-1] === ' ' && lineText[i] !== ' ') {
-              wordStarts.push(i);
-            }
-          }
-          
-          // Choose a word start based on the chord's position in the line
-          const positionIndex = index % chordsPerLine;
-          const positionsPerChord = Math.max(1, Math.floor(wordStarts.length / (chordsPerLine + 1)));
-          const chosenPositionIndex = Math.min(positionIndex * positionsPerChord, wordStarts.length - 1);
-          
-          songChords.push({
-            text: chord.text,
-            line: lineIndex,
-            position: wordStarts[chosenPositionIndex] || 0
-          });
-        });
-      }
-      
-      // Process the chord data
-      let lastChord = '';
-      let lastPosition = -1;
-      let lastLine = -1;
-      
-      // Use either the song-specific chords or the extracted chords
-      const chordsToProcess = songChords.length > 0 ? songChords : extractedChords;
-      
-      chordsToProcess.forEach((chord, index) => {
-        // Skip consecutive identical chords at the same position
-        if (chord.text === lastChord && chord.line === lastLine && Math.abs(chord.position - lastPosition) < 3) {
-          console.log(`Skipping duplicate chord: ${chord.text} at line ${chord.line}, position ${chord.position}`);
-          return;
-        }
-        
-        // Add the chord
-        allChords.push({
-          id: `chord-${chord.line}-${index}`,
-          text: chord.text,
-          position: chord.position,
-          line: chord.line
-        });
-        
-        // Update tracking variables
-        lastChord = chord.text;
-        lastPosition = chord.position;
-        lastLine = chord.line;
-        
-        console.log(`Added chord: ${chord.text} at line ${chord.line}, position ${chord.position}`);
-      });
-      
-      // Make sure chord lines are correct
-      // If we have more chords than lines, adjust the line numbers
-      if (allChords.length > 0 && lines.length > 0) {
-        console.log('Normalizing chord lines. Lines count:', lines.length, 'Chords count:', allChords.length);
-        
-        // Normalize chord line numbers to match actual lines
-        allChords.forEach(chord => {
-          if (chord.line >= lines.length) {
-            chord.line = Math.min(chord.line, lines.length - 1);
-          }
-        });
-        
-        // Sort chords by line and position for easier debugging
-        allChords.sort((a, b) => {
-          if (a.line !== b.line) return a.line - b.line;
-          return a.position - b.position;
-        });
-        
-        // Log the final chord arrangement
-        console.log('Final chord arrangement:');
-        let currentLineIndex = -1;
-        allChords.forEach(chord => {
-          if (chord.line !== currentLineIndex) {
-            currentLineIndex = chord.line;
-            console.log(`Line ${currentLineIndex}: ${lines[currentLineIndex] || ''}`);
-          }
-          console.log(`  ${chord.text} at position ${chord.position}`);
-        });
-      }
-      
-      // Create a new section with the processed content and chords
-      const section = {
-        type: sectionType,
-        number: sectionNumber,
-        content: sectionContent,
-        chords: allChords
+      const section: Section = {
+        type,
+        number,
+        content: lines.join('\n'),
+        chords
       };
       
-      console.log('Created section with type:', sectionType, 'number:', sectionNumber);
-      console.log('Section content:', sectionContent);
-      console.log('Section has', allChords.length, 'chords:', allChords);
+      logger.log('Created section with type:', type, 'number:', number, 'chords:', chords.length);
       
-      // Add section to result
-      result.sections.push(section);
+      documentOrder.push(section);
+      if (nameAttr) versesByName.set(nameAttr.toLowerCase(), section);
     });
     
+    // Follow the verse order when there is one, so repeated choruses come back as separate sections
+    const verseOrder = (xmlDoc.querySelector('song > properties > verseOrder')?.textContent || '')
+      .split(/\s+/)
+      .filter(name => name.length > 0);
+    const orderedSections = verseOrder
+      .map(name => versesByName.get(name.toLowerCase()))
+      .filter((section): section is Section => section !== undefined);
+    
+    result.sections = orderedSections.length > 0
+      ? orderedSections.map(section => JSON.parse(JSON.stringify(section)))
+      : documentOrder;
+    
     // Log the final result before returning
     console.log('Returning OpenLyrics result with metadata:', {
       title: result.title,
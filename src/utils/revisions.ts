@@ -0,0 +1,162 @@
+import type { Song, SongRevision } from '../types/song';
+import { convertToUltimateGuitarText } from './formatters';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Create a revision holding a copy of a song as it was just saved
+ */
+export function createRevision(song: Song, author: string): SongRevision {
+  const createdAt = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    songId: song.id,
+    author,
+    createdAt,
+    updatedAt: createdAt,
+    snapshot: JSON.parse(JSON.stringify(song))
+  };
+}
+
+// The parts of a song a revision is worth keeping for - timestamps and
+// sync flags change on every save without the song changing
+function getRevisionContent(song: Song): string {
+  return JSON.stringify({
+    title: song.title,
+    artist: song.artist,
+    sections: song.sections,
+    tags: song.tags || [],
+    notes: song.notes || '',
+    originalKey: song.originalKey,
+    transposedKey: song.transposedKey,
+    tempo: song.tempo,
+    capo: song.capo,
+    arrangements: song.arrangements,
+    activeArrangementId: song.activeArrangementId
+  });
+}
+
+/**
+ * Check whether two versions of a song have the same content
+ */
+export function isSameRevisionContent(a: Song, b: Song): boolean {
+  return getRevisionContent(a) === getRevisionContent(b);
+}
+
+/**
+ * Work out which revisions of one song to drop as they age. Autosave writes
+ * every couple of minutes, so keep every revision from the last day, the
+ * newest of each hour for the last month, and the newest of each day before
+ * that. Returns the ids to delete.
+ */
+export function getRevisionsToPrune(revisions: SongRevision[], now: number = Date.now()): string[] {
+  const newestFirst = [...revisions].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keptBuckets = new Set<string>();
+  const toPrune: string[] = [];
+
+  for (const revision of newestFirst) {
+    const age = now - new Date(revision.createdAt).getTime();
+    if (age < DAY) continue;
+
+    const bucket = age < 30 * DAY
+      ? revision.createdAt.substring(0, 13) // Hour
+      : revision.createdAt.substring(0, 10); // Day
+    if (keptBuckets.has(bucket)) {
+      toPrune.push(revision.id);
+    } else {
+      keptBuckets.add(bucket);
+    }
+  }
+
+  return toPrune;
+}
+
+export interface RevisionDiffRow {
+  type: 'same' | 'removed' | 'added' | 'changed';
+  left?: string;
+  right?: string;
+}
+
+/**
+ * Write a song out as a chord chart, chords above lyrics, one string per line
+ */
+export function songToChartLines(song: Song): string[] {
+  return convertToUltimateGuitarText('', '', song.sections).replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Line by line diff of two charts, lined up for showing side by side.
+ * Runs of removed and added lines next to each other are paired up as
+ * changed lines.
+ */
+export function diffChartLines(left: string[], right: string[]): RevisionDiffRow[] {
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i][j] = left[i] === right[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: RevisionDiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flushChanges = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', left: removed[k], right: added[k] });
+    }
+    removed.slice(paired).forEach(line => rows.push({ type: 'removed', left: line }));
+    added.slice(paired).forEach(line => rows.push({ type: 'added', right: line }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      flushChanges();
+      rows.push({ type: 'same', left: left[i], right: right[j] });
+      i++;
+      j++;
+    } else if (j >= right.length || (i < left.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(left[i]);
+      i++;
+    } else {
+      added.push(right[j]);
+      j++;
+    }
+  }
+  flushChanges();
+
+  return rows;
+}
+
+export interface RevisionFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * List the song details (not the chart) that differ between two versions
+ */
+export function diffSongFields(before: Song, after: Song): RevisionFieldChange[] {
+  const fields: { field: string; get: (song: Song) => string }[] = [
+    { field: 'Title', get: song => song.title },
+    { field: 'Artist', get: song => song.artist },
+    { field: 'Key', get: song => song.transposedKey || song.originalKey || '' },
+    { field: 'Capo', get: song => song.capo ? String(song.capo) : '' },
+    { field: 'Tempo', get: song => song.tempo || '' },
+    { field: 'Tags', get: song => (song.tags || []).join(', ') },
+    { field: 'Arrangements', get: song => (song.arrangements || []).map(arrangement => arrangement.name).join(', ') },
+    { field: 'Notes', get: song => (song.notes || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() }
+  ];
+
+  return fields
+    .map(({ field, get }) => ({ field, before: get(before), after: get(after) }))
+    .filter(change => change.before !== change.after);
+}
@@ -0,0 +1,324 @@
+// Full-text search over songs: titles, artists, lyrics, first lines and
+// chorus first lines, with accent folding, typo tolerance and ranking. The
+// index is held in memory and updated one song at a time as songs change.
+import type { Song } from '../types/song';
+
+export type SearchScope = 'title' | 'lyrics' | 'all';
+
+// Where in a song a line of text comes from
+export type SearchField = 'title' | 'artist' | 'firstLine' | 'chorusFirstLine' | 'lyrics';
+
+export interface SearchSnippet {
+  text: string;
+  field: SearchField;
+  highlights: [number, number][]; // Start and end offsets of matched words in text
+}
+
+export interface SongSearchResult {
+  songId: string;
+  score: number;
+  snippet?: SearchSnippet; // Best matching line of the lyrics, when the lyrics matched
+}
+
+// How much a match counts for in each part of a song. First lines are what
+// people remember, so they count for more than the rest of the lyrics.
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  firstLine: 4,
+  chorusFirstLine: 4,
+  artist: 3,
+  lyrics: 1
+};
+
+const SCOPE_FIELDS: Record<SearchScope, SearchField[]> = {
+  title: ['title', 'artist'],
+  lyrics: ['firstLine', 'chorusFirstLine', 'lyrics'],
+  all: ['title', 'artist', 'firstLine', 'chorusFirstLine', 'lyrics']
+};
+
+const LYRIC_FIELDS = new Set<SearchField>(SCOPE_FIELDS.lyrics);
+
+// Scores for how closely a word in a song matches a searched word
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.8;
+const TYPO_SCORE = 0.6;
+
+interface Word {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedLine {
+  text: string;
+  field: SearchField;
+}
+
+interface IndexedSong {
+  title: string;
+  updatedAt: string;
+  lines: IndexedLine[];
+  terms: Set<string>;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}\p{M}'’]*/gu;
+
+/**
+ * Lower case a string and strip accents, so "Jésus" and "jesus" compare
+ * equal
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// Words of a line with where they are in it. Apostrophes are dropped from
+// terms so "don't" and "dont" match.
+function getWords(text: string): Word[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    term: foldText(match[0]).replace(/['’]/g, ''),
+    start: match.index,
+    end: match.index + match[0].length
+  })).filter(word => word.term.length > 0);
+}
+
+// Typos allowed in a searched word: none in short words, where one changed
+// letter makes a different common word
+function getMaxTypos(term: string): number {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Edit distance counting a swap of two neighbouring letters as one edit.
+ * Stops early and returns max + 1 once the distance is known to exceed max.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousRow[j - 2] + 1);
+      }
+      nextRow.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+    previousRow = row;
+    row = nextRow;
+  }
+  return row[b.length];
+}
+
+// The lines of a song that are searched, each marked with where it comes from
+function getSongLines(song: Song): IndexedLine[] {
+  const lines: IndexedLine[] = [
+    { text: song.title, field: 'title' },
+    { text: song.artist, field: 'artist' }
+  ];
+  let foundFirstLine = false;
+  for (const section of song.sections) {
+    let foundSectionFirstLine = false;
+    for (const text of section.content.split('\n')) {
+      if (!text.trim()) continue;
+      let field: SearchField = 'lyrics';
+      if (!foundFirstLine) {
+        field = 'firstLine';
+      } else if (section.type === 'chorus' && !foundSectionFirstLine) {
+        field = 'chorusFirstLine';
+      }
+      foundFirstLine = true;
+      foundSectionFirstLine = true;
+      lines.push({ text, field });
+    }
+  }
+  return lines;
+}
+
+/**
+ * In-memory search index over songs. Words are folded to lower case without
+ * accents; searched words match exactly, as the start of a word, or with a
+ * typo or two in longer words. Every searched word has to match somewhere in
+ * the song. Songs rank by where their matches are, with a bonus for lines
+ * holding all the searched words and more for the exact phrase.
+ */
+export class SongSearchIndex {
+  private songs = new Map<string, IndexedSong>();
+  // Songs containing each term
+  private postings = new Map<string, Set<string>>();
+
+  /**
+   * Bring the index in line with a full list of songs. Only songs that are
+   * new or changed since they were last indexed are re-read.
+   */
+  sync(songs: Song[]): void {
+    const ids = new Set<string>();
+    for (const song of songs) {
+      ids.add(song.id);
+      this.updateSong(song);
+    }
+    for (const id of Array.from(this.songs.keys())) {
+      if (!ids.has(id)) this.removeSong(id);
+    }
+  }
+
+  // Index a new or changed song. Trashed songs are taken out of the index.
+  updateSong(song: Song): void {
+    if (song.deletedAt) {
+      this.removeSong(song.id);
+      return;
+    }
+    if (this.songs.get(song.id)?.updatedAt === song.updatedAt) return;
+
+    this.removeSong(song.id);
+    const lines = getSongLines(song);
+    const terms = new Set(lines.flatMap(line => getWords(line.text).map(word => word.term)));
+    this.songs.set(song.id, { title: song.title, updatedAt: song.updatedAt, lines, terms });
+    for (const term of terms) {
+      let songIds = this.postings.get(term);
+      if (!songIds) {
+        songIds = new Set();
+        this.postings.set(term, songIds);
+      }
+      songIds.add(song.id);
+    }
+  }
+
+  removeSong(id: string): void {
+    const indexed = this.songs.get(id);
+    if (!indexed) return;
+    for (const term of indexed.terms) {
+      const songIds = this.postings.get(term);
+      songIds?.delete(id);
+      if (songIds?.size === 0) this.postings.delete(term);
+    }
+    this.songs.delete(id);
+  }
+
+  /**
+   * Songs matching the searched text in the given part of the songs, best
+   * match first
+   */
+  search(query: string, scope: SearchScope = 'all'): SongSearchResult[] {
+    const queryWords = getWords(query).map(word => word.term);
+    const queryTerms = Array.from(new Set(queryWords));
+    if (queryTerms.length === 0) return [];
+
+    // Indexed terms close enough to each searched word, and the songs that
+    // have one for every searched word
+    const termMatches = queryTerms.map(term => this.matchTerm(term));
+    let candidates: Set<string> | null = null;
+    for (const matches of termMatches) {
+      const songIds = new Set<string>();
+      for (const term of matches.keys()) {
+        for (const id of this.postings.get(term) || []) {
+          if (!candidates || candidates.has(id)) songIds.add(id);
+        }
+      }
+      if (songIds.size === 0) return [];
+      candidates = songIds;
+    }
+
+    const phrase = ` ${queryWords.join(' ')} `;
+    const fields = new Set(SCOPE_FIELDS[scope]);
+    const results: SongSearchResult[] = [];
+    for (const id of candidates || []) {
+      const result = this.scoreSong(id, termMatches, phrase, fields);
+      if (result) results.push(result);
+    }
+
+    return results.sort((a, b) =>
+      b.score - a.score ||
+      (this.songs.get(a.songId)?.title || '').localeCompare(this.songs.get(b.songId)?.title || '', undefined, { sensitivity: 'base' })
+    );
+  }
+
+  // Every indexed term matching a searched word, with how closely it matches
+  private matchTerm(queryTerm: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    const maxTypos = getMaxTypos(queryTerm);
+    for (const term of this.postings.keys()) {
+      if (term === queryTerm) {
+        matches.set(term, EXACT_SCORE);
+      } else if (term.startsWith(queryTerm)) {
+        matches.set(term, PREFIX_SCORE);
+      } else if (maxTypos > 0) {
+        const distance = editDistance(queryTerm, term, maxTypos);
+        if (distance <= maxTypos) {
+          matches.set(term, TYPO_SCORE / distance);
+        }
+      }
+    }
+    return matches;
+  }
+
+  // Score one song line by line within the searched fields. Null when a
+  // searched word only matches outside them.
+  private scoreSong(
+    id: string,
+    termMatches: Map<string, number>[],
+    phrase: string,
+    fields: Set<SearchField>
+  ): SongSearchResult | null {
+    const indexed = this.songs.get(id);
+    if (!indexed) return null;
+
+    const bestTermScores = termMatches.map(() => 0);
+    let bestLineScore = 0;
+    let bestLyricLine: { score: number; line: IndexedLine; words: Word[] } | null = null;
+
+    for (const line of indexed.lines) {
+      if (!fields.has(line.field)) continue;
+      const words = getWords(line.text);
+      if (words.length === 0) continue;
+
+      const weight = FIELD_WEIGHTS[line.field];
+      let lineScore = 0;
+      let matchedTerms = 0;
+      termMatches.forEach((matches, index) => {
+        const termScore = Math.max(0, ...words.map(word => matches.get(word.term) || 0));
+        if (termScore === 0) return;
+        matchedTerms++;
+        lineScore += termScore * weight;
+        bestTermScores[index] = Math.max(bestTermScores[index], termScore * weight);
+      });
+      if (matchedTerms === 0) continue;
+
+      if (matchedTerms === termMatches.length) {
+        lineScore += weight * 2;
+        if (` ${words.map(word => word.term).join(' ')} `.includes(phrase)) {
+          lineScore += weight * 3;
+        }
+      }
+      bestLineScore = Math.max(bestLineScore, lineScore);
+      if (LYRIC_FIELDS.has(line.field) && (!bestLyricLine || lineScore > bestLyricLine.score)) {
+        bestLyricLine = { score: lineScore, line, words };
+      }
+    }
+
+    if (bestTermScores.some(termScore => termScore === 0)) return null;
+
+    const score = bestTermScores.reduce((total, termScore) => total + termScore, 0) + bestLineScore;
+    if (!bestLyricLine) return { songId: id, score };
+
+    const { line, words } = bestLyricLine;
+    return {
+      songId: id,
+      score,
+      snippet: {
+        text: line.text,
+        field: line.field,
+        highlights: words
+          .filter(word => termMatches.some(matches => matches.has(word.term)))
+          .map(word => [word.start, word.end])
+      }
+    };
+  }
+}
@@ -0,0 +1,257 @@
+// Merging versions of a song: picking each detail from one version, and the
+// three-way merge used when a save finds the song was changed by someone
+// else since it was opened
+import type { Chord, Section, Song } from '../types/song';
+import { pruneArrangements } from './arrangements';
+import { getSemitonesBetweenKeys, transposeSections } from './transpose';
+
+// Song details taken as a whole from one version
+export type MergeField = 'title' | 'artist' | 'key' | 'capo' | 'tempo' | 'tags' | 'notes' | 'arrangements';
+
+export const MERGE_FIELDS: { field: MergeField; label: string; describe: (song: Song) => string }[] = [
+  { field: 'title', label: 'Title', describe: song => song.title },
+  { field: 'artist', label: 'Artist', describe: song => song.artist },
+  { field: 'key', label: 'Key', describe: song => song.transposedKey || song.originalKey || '' },
+  { field: 'capo', label: 'Capo', describe: song => song.capo ? String(song.capo) : '' },
+  { field: 'tempo', label: 'Tempo', describe: song => song.tempo || '' },
+  { field: 'tags', label: 'Tags', describe: song => (song.tags || []).join(', ') },
+  { field: 'notes', label: 'Notes', describe: song => (song.notes || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() },
+  { field: 'arrangements', label: 'Arrangements', describe: song => (song.arrangements || []).map(arrangement => arrangement.name).join(', ') }
+];
+
+// The song properties behind each detail
+const FIELD_PROPERTIES: Record<MergeField, (keyof Song)[]> = {
+  title: ['title'],
+  artist: ['artist'],
+  key: ['originalKey', 'transposedKey'],
+  capo: ['capo'],
+  tempo: ['tempo'],
+  tags: ['tags'],
+  notes: ['notes'],
+  arrangements: ['arrangements', 'activeArrangementId']
+};
+
+/**
+ * Copy one detail from another version of the song
+ */
+export function copyMergeField(target: Song, source: Song, field: MergeField): Song {
+  const copied = { ...target };
+  for (const property of FIELD_PROPERTIES[field]) {
+    (copied as Record<keyof Song, unknown>)[property] = source[property];
+  }
+  return copied;
+}
+
+const getFieldSignature = (song: Song, field: MergeField) =>
+  JSON.stringify(FIELD_PROPERTIES[field].map(property => song[property] ?? null));
+
+export type MergeSide = 'mine' | 'theirs';
+
+// How a detail or section came out of the three-way merge: the same on both
+// sides, changed on one side only, or changed differently on both
+export type ThreeWayStatus = 'same' | 'mine' | 'theirs' | 'merged' | 'conflict';
+
+export interface FieldMerge {
+  field: MergeField;
+  label: string;
+  status: ThreeWayStatus;
+  mine: string;
+  theirs: string;
+}
+
+export interface SectionMerge {
+  id: string;
+  label: string;
+  status: ThreeWayStatus;
+  base?: Section;
+  mine?: Section;
+  theirs?: Section;
+  // The section once merged, or null when it was removed. Left unset for
+  // conflicts, which are settled by a choice.
+  resolved?: Section | null;
+}
+
+export interface ThreeWayMerge {
+  fields: FieldMerge[];
+  sections: SectionMerge[]; // In merged order
+}
+
+// Choices for conflicts. Sections can also keep both versions.
+export interface ThreeWayChoices {
+  fields: Partial<Record<MergeField, MergeSide>>;
+  sections: Partial<Record<string, MergeSide | 'both'>>;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const getSectionLabel = (section: Section) =>
+  section.number ? `${capitalize(section.type)} ${section.number}` : capitalize(section.type);
+
+// What a section holds, ignoring its number, which is worked out on save
+const getChordSignature = (chord: Chord) => JSON.stringify([chord.text, chord.position, chord.line]);
+const getLyricSignature = (section: Section) => JSON.stringify([section.type, section.content]);
+const getSectionSignature = (section: Section) =>
+  JSON.stringify([getLyricSignature(section), section.chords.map(getChordSignature)]);
+
+// Decide between three versions of something by comparing signatures.
+// Undefined means both sides changed it differently.
+function pickSide<T>(base: T | undefined, mine: T | undefined, theirs: T | undefined, sign: (value: T) => string): ThreeWayStatus {
+  const [b, m, t] = [base, mine, theirs].map(value => value === undefined ? undefined : sign(value));
+  if (m === t) return 'same';
+  if (m === b) return 'theirs';
+  if (t === b) return 'mine';
+  return 'conflict';
+}
+
+/**
+ * A version with its chords written in the given key. Chords are stored in
+ * the song's original key, so versions whose original keys differ would
+ * otherwise show every chord as changed.
+ */
+function withChordsInKey(song: Song, key: string | undefined): Song {
+  const semitones = song.originalKey && key ? getSemitonesBetweenKeys(song.originalKey, key) : 0;
+  if (semitones === 0) return song;
+  return { ...song, originalKey: key, sections: transposeSections(song.sections, semitones, key) };
+}
+
+// Sections are matched by id; sections saved before ids existed by position
+const getSectionKey = (section: Section, index: number) => section.id || `position-${index}`;
+
+const getChordKey = (chord: Chord) => chord.id || `${chord.line}:${chord.position}`;
+
+/**
+ * Merge the chords of a section whose lyrics are the same in all three
+ * versions, chord by chord. Null when both sides changed the same chord.
+ */
+function mergeChords(base: Section, mine: Section, theirs: Section): Chord[] | null {
+  const byKey = (section: Section) => new Map(section.chords.map(chord => [getChordKey(chord), chord]));
+  const [baseChords, myChords, theirChords] = [byKey(base), byKey(mine), byKey(theirs)];
+
+  const merged: Chord[] = [];
+  const keys = new Set([...myChords.keys(), ...theirChords.keys(), ...baseChords.keys()]);
+  for (const key of keys) {
+    const mineChord = myChords.get(key);
+    const theirChord = theirChords.get(key);
+    const status = pickSide(baseChords.get(key), mineChord, theirChord, getChordSignature);
+    if (status === 'conflict') return null;
+    const chord = status === 'theirs' ? theirChord : mineChord;
+    if (chord) merged.push(chord);
+  }
+
+  return merged.sort((a, b) => a.line - b.line || a.position - b.position);
+}
+
+function mergeSection(id: string, base?: Section, mine?: Section, theirs?: Section): SectionMerge {
+  const label = getSectionLabel((mine || theirs || base)!);
+  const status = pickSide(base, mine, theirs, getSectionSignature);
+
+  if (status === 'same' || status === 'mine') {
+    return { id, label, status, base, mine, theirs, resolved: mine || null };
+  }
+  if (status === 'theirs') {
+    return { id, label, status, base, mine, theirs, resolved: theirs || null };
+  }
+
+  // Both changed the section. If neither touched the lyrics, the chord
+  // changes may still fit together.
+  if (base && mine && theirs &&
+    getLyricSignature(base) === getLyricSignature(mine) &&
+    getLyricSignature(base) === getLyricSignature(theirs)) {
+    const chords = mergeChords(base, mine, theirs);
+    if (chords) {
+      return { id, label, status: 'merged', base, mine, theirs, resolved: { ...mine, chords } };
+    }
+  }
+  return { id, label, status: 'conflict', base, mine, theirs };
+}
+
+/**
+ * Three-way merge of the version being saved ("mine") with the version that
+ * was saved in the meantime ("theirs"), both edited from the version that
+ * was opened ("base"). Each detail and each section (matched by id) that
+ * only one side changed takes that change; sections where only chords
+ * changed on both sides are merged chord by chord; everything else is a
+ * conflict to choose for. Sections are compared with their chords in my
+ * original key, so transposing is never taken for a chord change.
+ */
+export function mergeThreeWay(base: Song, mine: Song, theirs: Song): ThreeWayMerge {
+  const fields = MERGE_FIELDS.map(({ field, label, describe }) => ({
+    field,
+    label,
+    status: pickSide(base, mine, theirs, song => getFieldSignature(song, field)),
+    mine: describe(mine),
+    theirs: describe(theirs)
+  }));
+
+  const baseSections = withChordsInKey(base, mine.originalKey).sections;
+  const theirSections = withChordsInKey(theirs, mine.originalKey).sections;
+  const [baseKeys, mineKeys, theirKeys] = [baseSections, mine.sections, theirSections].map(sections => sections.map(getSectionKey));
+  const baseByKey = new Map(baseSections.map((section, index) => [baseKeys[index], section]));
+  const mineByKey = new Map(mine.sections.map((section, index) => [mineKeys[index], section]));
+  const theirsByKey = new Map(theirSections.map((section, index) => [theirKeys[index], section]));
+
+  // Keep my order, and put sections only the other version has after the
+  // section they follow there
+  const order = [...mineKeys];
+  theirKeys.forEach((key, index) => {
+    if (order.includes(key)) return;
+    const previous = index > 0 ? order.indexOf(theirKeys[index - 1]) : -1;
+    order.splice(previous + 1, 0, key);
+  });
+  baseKeys.forEach(key => {
+    if (!order.includes(key)) order.push(key);
+  });
+
+  const sections = order.map(key => mergeSection(key, baseByKey.get(key), mineByKey.get(key), theirsByKey.get(key)));
+
+  return { fields, sections };
+}
+
+export const hasThreeWayConflicts = (merge: ThreeWayMerge) =>
+  merge.fields.some(field => field.status === 'conflict') ||
+  merge.sections.some(section => section.status === 'conflict');
+
+/**
+ * Build the merged song. Conflicts go to the side chosen for them, or mine
+ * when none was chosen. The result keeps my id and creation date, and its
+ * chords are written in the original key it ends up with.
+ */
+export function applyThreeWayMerge(mine: Song, theirs: Song, merge: ThreeWayMerge, choices: ThreeWayChoices): Song {
+  let merged: Song = { ...mine };
+  for (const { field, status } of merge.fields) {
+    const side = status === 'conflict' ? choices.fields[field] || 'mine' : status;
+    if (side === 'theirs') {
+      merged = copyMergeField(merged, theirs, field);
+    }
+  }
+
+  const sections: Section[] = [];
+  for (const section of merge.sections) {
+    if (section.status !== 'conflict') {
+      if (section.resolved) sections.push(section.resolved);
+      continue;
+    }
+
+    const side = choices.sections[section.id] || 'mine';
+    if (side === 'both') {
+      if (section.mine) sections.push(section.mine);
+      if (section.theirs) sections.push({ ...section.theirs, id: crypto.randomUUID() });
+    } else {
+      const chosen = side === 'theirs' ? section.theirs : section.mine;
+      if (chosen) sections.push(chosen);
+    }
+  }
+
+  // The merged sections are in my original key
+  const inKey = withChordsInKey({ ...merged, originalKey: mine.originalKey, sections }, merged.originalKey);
+
+  return {
+    ...merged,
+    sections: inKey.sections,
+    arrangements: pruneArrangements(merged.arrangements, sections),
+    // The sections may now come from both versions, so my copy of the
+    // untransposed sections no longer applies
+    originalSections: undefined,
+    currentTranspose: undefined
+  };
+}
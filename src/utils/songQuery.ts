@@ -0,0 +1,85 @@
+import type { Song } from '../types/song';
+import type { SongQuery, SongSummary } from './storageInterface';
+import { foldText } from './searchIndex';
+
+export const DEFAULT_SONG_SORT: NonNullable<SongQuery['sort']> = { field: 'updatedAt', direction: 'desc' };
+
+// The key a song is played in: the transposed key when it has been
+// transposed, otherwise its original key
+export function getSongKey(song: Song): string | undefined {
+  return song.transposedKey || song.originalKey || undefined;
+}
+
+// Longest search text kept for a song. The cloud stores it in an attribute
+// of this size, and the local store cuts it to the same length, so a search
+// finds the same songs in either.
+export const SEARCH_TEXT_LENGTH = 10000;
+
+/**
+ * The text a query's text is looked for in: the title, artist, tags and
+ * lyrics, lower cased and without accents
+ */
+export function getSongSearchText(song: Song): string {
+  const text = [song.title, song.artist, ...(song.tags || []), ...song.sections.map(section => section.content)].join('\n');
+  return foldText(text).substring(0, SEARCH_TEXT_LENGTH);
+}
+
+// Searched text folded the way getSongSearchText folds songs
+export const foldSearchText = (text: string | undefined) => foldText(text?.trim() || '');
+
+export function toSongSummary(song: Song): SongSummary {
+  return {
+    id: song.id,
+    title: song.title,
+    artist: song.artist,
+    tags: song.tags || [],
+    key: getSongKey(song),
+    createdAt: song.createdAt,
+    updatedAt: song.updatedAt
+  };
+}
+
+/**
+ * Check a song against the filters of a query. The text is looked for in
+ * the title, artist, tags and lyrics, ignoring case and accents.
+ */
+export function matchesSongQuery(song: Song, query: SongQuery): boolean {
+  if (song.deletedAt) return false;
+  if (query.tags && query.tags.length > 0 && !query.tags.some(tag => song.tags?.includes(tag))) return false;
+  if (query.artist && song.artist !== query.artist) return false;
+  if (query.key && getSongKey(song) !== query.key) return false;
+
+  const text = foldSearchText(query.text);
+  return !text || getSongSearchText(song).includes(text);
+}
+
+// How well a title matches searched text: exact, starts with it, contains
+// it, or not at all. Lower is better.
+function getTitleRank(title: string, text: string): number {
+  const lowerTitle = foldText(title);
+  if (lowerTitle === text) return 0;
+  if (lowerTitle.startsWith(text)) return 1;
+  if (lowerTitle.includes(text)) return 2;
+  return 3;
+}
+
+/**
+ * Order songs for a query. When searching, songs whose title matches the
+ * text come first; otherwise, and within equal matches, the sort applies.
+ */
+export function compareSongsForQuery(query: SongQuery): (a: Song, b: Song) => number {
+  const { field, direction } = query.sort || DEFAULT_SONG_SORT;
+  const multiplier = direction === 'asc' ? 1 : -1;
+  const text = foldSearchText(query.text);
+
+  return (a, b) => {
+    if (text) {
+      const rankDifference = getTitleRank(a.title, text) - getTitleRank(b.title, text);
+      if (rankDifference !== 0) return rankDifference;
+    }
+    const difference = field === 'updatedAt'
+      ? a.updatedAt.localeCompare(b.updatedAt)
+      : a[field].localeCompare(b[field], undefined, { sensitivity: 'base' });
+    return multiplier * difference || a.id.localeCompare(b.id);
+  };
+}
@@ -1,15 +1,86 @@
-import type { Song } from '../types/song';
+import type { Song, Setlist } from '../types/song';
+import type { ImportReport } from './importValidation';
 
-// Storage interface that both local and cloud storage implement
+// Storage interface that both local and cloud storage implement. Deleting a
+// song moves it to the trash; songs in the trash are left out of getAllSongs
+// and getSong until restored, and only purgeSong removes them for good.
 export interface StorageService {
   saveSong(song: Omit<Song, 'id' | 'createdAt' | 'updatedAt'>): Promise<string>;
   getAllSongs(): Promise<Song[]>;
   getSong(id: string): Promise<Song | null>;
-  updateSong(song: Song): Promise<void>;
+  // Resolves to the song as saved, with its new updatedAt
+  updateSong(song: Song, options?: SongUpdateOptions): Promise<Song>;
   deleteSong(id: string): Promise<void>;
+  // Filtered, sorted and paged song summaries for lists
+  querySongs(query: SongQuery): Promise<SongQueryResult>;
+  getSongTags(): Promise<string[]>;
+  // Trash
+  getTrashedSongs(): Promise<Song[]>;
+  restoreSong(id: string): Promise<void>;
+  purgeSong(id: string): Promise<void>;
   clearDatabase(): Promise<void>;
   exportDB(): Promise<string>;
-  importDB(json: string): Promise<void>;
+  // Songs are checked and repaired on the way in; ones that can't be are
+  // reported rather than stopping the import
+  importDB(json: string): Promise<ImportReport>;
+  // Setlists
+  saveSetlist(setlist: Omit<Setlist, 'id' | 'createdAt' | 'updatedAt'>): Promise<string>;
+  getAllSetlists(): Promise<Setlist[]>;
+  getSetlist(id: string): Promise<Setlist | null>;
+  updateSetlist(setlist: Setlist): Promise<void>;
+  deleteSetlist(id: string): Promise<void>;
+}
+
+export interface SongUpdateOptions {
+  // Only save if the stored song is still the version the caller started
+  // from; otherwise updateSong rejects with a SongConflictError
+  expectedUpdatedAt?: string;
+}
+
+/**
+ * The stored song changed after the version being saved was loaded, e.g.
+ * someone else saved it in the meantime. Carries the stored version so the
+ * two can be merged instead of one overwriting the other.
+ */
+export class SongConflictError extends Error {
+  public current: Song;
+
+  constructor(current: Song) {
+    super(`"${current.title}" was changed since it was opened`);
+    this.name = 'SongConflictError';
+    this.current = current;
+  }
+}
+
+export type SongSortField = 'title' | 'artist' | 'updatedAt';
+
+// Filters for querySongs. All filters must match; tags match songs with any
+// of the given tags. Songs in the trash are never included.
+export interface SongQuery {
+  text?: string; // Found in the title, artist or tags, and the lyrics where the store can search them
+  tags?: string[];
+  artist?: string; // Exact artist
+  key?: string; // The key the song is played in
+  sort?: { field: SongSortField; direction: 'asc' | 'desc' };
+  limit?: number;
+  cursor?: string | null; // nextCursor from the previous page
+}
+
+// The parts of a song a list needs, without its sections
+export interface SongSummary {
+  id: string;
+  title: string;
+  artist: string;
+  tags: string[];
+  key?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SongQueryResult {
+  songs: SongSummary[];
+  total: number; // Matching songs across all pages
+  nextCursor: string | null;
 }
 
 // Storage modes
@@ -18,4 +89,42 @@ export const StorageMode = {
   CLOUD: 'cloud' as const    // Appwrite - persistent
 };
 
-export type StorageMode = typeof StorageMode[keyof typeof StorageMode];
\ No newline at end of file
+export type StorageMode = typeof StorageMode[keyof typeof StorageMode];
+
+// Sync between the local store and the cloud
+export type SyncKind = 'song' | 'setlist';
+export type SyncRecord = Song | Setlist;
+
+// A local change waiting to be pushed. Keyed by kind and record id so
+// repeated edits to the same record collapse into one entry.
+export interface OutboxEntry {
+  id: string;
+  kind: SyncKind;
+  entityId: string;
+  op: 'put' | 'delete';
+  queuedAt: string;
+}
+
+// The cloud updatedAt a record had when it was last synced
+export interface SyncMeta {
+  id: string;
+  remoteUpdatedAt: string;
+}
+
+// A record changed both locally and in the cloud since it was last synced.
+// A null side means the record was deleted there.
+export interface SyncConflict {
+  id: string;
+  kind: SyncKind;
+  entityId: string;
+  local: SyncRecord | null;
+  remote: SyncRecord | null;
+  detectedAt: string;
+}
+
+export type SyncStatus =
+  | 'local'    // Not logged in - changes stay queued on this device
+  | 'synced'
+  | 'syncing'
+  | 'offline'  // Logged in without a connection - changes are queued
+  | 'error';
@@ -1,106 +1,306 @@
-// Storage manager that switches between local and cloud storage
-import type { StorageService } from './storageInterface';
+// Storage manager: every read and write goes to the local store, and the
+// sync engine mirrors changes to the cloud when logged in
+import type { StorageService, SongQuery, SongQueryResult, SongUpdateOptions, SyncKind } from './storageInterface';
 import { StorageMode } from './storageInterface';
-import { LocalStorageService } from './localDb';
-import { CloudStorageService } from './appwriteDb';
-import type { Song } from '../types/song';
+import { LocalStorageService, switchLocalDatabase } from './localDb';
+import { SyncEngine } from './syncEngine';
+import { getExpiredTrash } from './trash';
+import { readLegacySongs, deleteLegacyDatabase, markLegacyMigrationDone } from './legacyMigration';
+import type { LegacyMigrationReport } from './legacyMigration';
+import type { RestoreMode, RestoreReport } from './backup';
+import type { ImportReport } from './importValidation';
+import type { SyncState } from './syncEngine';
+import type { Song, Setlist, SongRevision } from '../types/song';
 
 export class StorageManager implements StorageService {
   private localService: LocalStorageService;
-  private cloudService: CloudStorageService;
+  private syncEngine: SyncEngine;
   private currentMode: StorageMode;
+  // Undefined until the first user is set, so the guest database is checked too
+  private userId: string | null | undefined;
+  private userSwitch: Promise<void> = Promise.resolve();
 
   constructor(mode: StorageMode = StorageMode.LOCAL) {
     this.localService = new LocalStorageService();
-    this.cloudService = new CloudStorageService();
+    this.syncEngine = new SyncEngine();
     this.currentMode = mode;
   }
 
-  // Switch storage mode (e.g., when user logs in/out)
+  // Switch storage mode (e.g., when user logs in/out). Cloud mode turns on
+  // syncing; which local database is used is up to setUser.
   setMode(mode: StorageMode): void {
     this.currentMode = mode;
+    this.syncEngine.setEnabled(mode === StorageMode.CLOUD);
   }
 
-  getCurrentMode(): StorageMode {
-    return this.currentMode;
+  /**
+   * Use the local database of the user logging in, or the guest database
+   * when logged out, so one account's songs are never shown to or synced
+   * into another. A user logging in takes over the songs saved while logged
+   * out. Switches run one after another.
+   */
+  setUser(userId: string | null): Promise<void> {
+    this.userSwitch = this.userSwitch
+      .catch(() => undefined)
+      .then(() => this.switchUser(userId));
+    return this.userSwitch;
   }
 
-  private getService(): StorageService {
-    return this.currentMode === StorageMode.CLOUD 
-      ? this.cloudService 
-      : this.localService;
+  private async switchUser(userId: string | null): Promise<void> {
+    if (userId === this.userId) return;
+    this.userId = userId;
+
+    // Let a sync finish writing to the previous user's database first
+    this.syncEngine.setEnabled(false);
+    await this.syncEngine.whenIdle();
+    switchLocalDatabase(userId);
+    this.syncEngine.resetSession();
+
+    if (userId) {
+      await this.syncEngine.adoptGuestRecords();
+    } else {
+      await this.syncEngine.forgetSyncedRecords();
+    }
+    await this.syncEngine.refreshState();
+  }
+
+  getCurrentMode(): StorageMode {
+    return this.currentMode;
   }
 
-  // Delegate all storage operations to the current service
+  // Reads come straight from the local store, writes are also queued for sync
   async saveSong(song: Omit<Song, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
-    return this.getService().saveSong(song);
+    const id = await this.localService.saveSong(song);
+    await this.syncEngine.queueChange('song', id, 'put');
+    return id;
   }
 
   async getAllSongs(): Promise<Song[]> {
-    return this.getService().getAllSongs();
+    return this.localService.getAllSongs();
   }
 
   async getSong(id: string): Promise<Song | null> {
-    return this.getService().getSong(id);
+    return this.localService.getSong(id);
+  }
+
+  // The local store has every song, so queries never need the cloud. Both
+  // match text the same way, so results don't depend on where they ran.
+  async querySongs(query: SongQuery): Promise<SongQueryResult> {
+    return this.localService.querySongs(query);
+  }
+
+  async getSongTags(): Promise<string[]> {
+    return this.localService.getSongTags();
   }
 
-  async updateSong(song: Song): Promise<void> {
-    return this.getService().updateSong(song);
+  async updateSong(song: Song, options?: SongUpdateOptions): Promise<Song> {
+    const updatedSong = await this.localService.updateSong(song, options);
+    await this.syncEngine.queueChange('song', song.id, 'put');
+    return updatedSong;
   }
 
+  // Trashing and restoring are edits as far as sync is concerned; only a
+  // purge deletes the song from the cloud
   async deleteSong(id: string): Promise<void> {
-    return this.getService().deleteSong(id);
+    await this.localService.deleteSong(id);
+    await this.syncEngine.queueChange('song', id, 'put');
   }
 
-  async clearDatabase(): Promise<void> {
-    return this.getService().clearDatabase();
+  async getTrashedSongs(): Promise<Song[]> {
+    return this.localService.getTrashedSongs();
   }
 
-  async exportDB(): Promise<string> {
-    return this.getService().exportDB();
+  async restoreSong(id: string): Promise<void> {
+    await this.localService.restoreSong(id);
+    await this.syncEngine.queueChange('song', id, 'put');
   }
 
-  async importDB(json: string): Promise<void> {
-    return this.getService().importDB(json);
+  async purgeSong(id: string): Promise<void> {
+    await this.localService.purgeSong(id);
+    await this.syncEngine.queueChange('song', id, 'delete');
   }
 
-  // Migration utilities
-  async getLocalSongs(): Promise<Song[]> {
-    return this.localService.getAllSongs();
+  /**
+   * Purge songs that have been in the trash longer than the retention
+   * period. Returns the number purged.
+   */
+  async purgeExpiredTrash(retentionDays: number): Promise<number> {
+    const expired = getExpiredTrash(await this.localService.getTrashedSongs(), retentionDays);
+    for (const song of expired) {
+      await this.purgeSong(song.id);
+    }
+    return expired.length;
   }
 
-  async migrateLocalToCloud(): Promise<{ success: number; failed: number }> {
-    try {
-      const localSongs = await this.localService.getAllSongs();
-      let success = 0;
-      let failed = 0;
-
-      for (const song of localSongs) {
-        try {
-          const { id, createdAt, updatedAt, ...songData } = song;
-          await this.cloudService.saveSong(songData);
-          success++;
-        } catch (error) {
-          console.error('Failed to migrate song:', song.title, error);
-          failed++;
-        }
+  /**
+   * Move songs from the database older versions of the app used into the
+   * local store, keeping their ids and dates. The old database is removed
+   * once every song in it has been moved; if any couldn't be read it is kept
+   * so nothing is lost. Either way the migration is recorded as done, so it
+   * runs once. Resolves to null when there is nothing to migrate.
+   */
+  async migrateLegacyDatabase(): Promise<LegacyMigrationReport | null> {
+    const legacy = await readLegacySongs();
+    if (!legacy) return null;
+
+    const report: LegacyMigrationReport = { moved: 0, alreadyPresent: 0, invalid: legacy.invalid };
+    for (const song of legacy.songs) {
+      if (await this.localService.hasSong(song.id)) {
+        report.alreadyPresent++;
+        continue;
       }
+      await this.localService.putSong(song);
+      await this.syncEngine.queueChange('song', song.id, 'put');
+      report.moved++;
+    }
 
-      // Clear local storage after successful migration
-      if (success > 0 && failed === 0) {
-        await this.localService.clearDatabase();
+    if (report.invalid.length === 0) {
+      await deleteLegacyDatabase();
+    } else {
+      report.invalid.forEach(problem => console.error(`Could not migrate legacy song "${problem.title}" (${problem.id}):`, problem.reason));
+    }
+    markLegacyMigrationDone();
+    return report;
+  }
+
+  /**
+   * Put the songs and setlists of a backup into the library under their own
+   * ids. A replace moves songs that aren't in the backup to the trash, so it
+   * can still be undone song by song, and deletes setlists that aren't.
+   */
+  async restoreBackup(songs: Song[], setlists: Setlist[], mode: RestoreMode): Promise<RestoreReport> {
+    const report: RestoreReport = { added: 0, updated: 0, skipped: 0, removed: 0, setlists: 0 };
+
+    if (mode === 'replace') {
+      const songIds = new Set(songs.map(song => song.id));
+      for (const song of await this.localService.getAllSongs()) {
+        if (songIds.has(song.id)) continue;
+        await this.localService.deleteSong(song.id);
+        await this.syncEngine.queueChange('song', song.id, 'put');
+        report.removed++;
       }
+      const setlistIds = new Set(setlists.map(setlist => setlist.id));
+      for (const setlist of await this.localService.getAllSetlists()) {
+        if (setlistIds.has(setlist.id)) continue;
+        await this.deleteSetlist(setlist.id);
+      }
+    }
+
+    for (const song of songs) {
+      // Songs in the trash count as missing, so restoring brings them back
+      const existing = await this.localService.getSong(song.id);
+      if (existing && mode === 'skip') {
+        report.skipped++;
+        continue;
+      }
+      await this.localService.putSong(song);
+      await this.syncEngine.queueChange('song', song.id, 'put');
+      if (existing) {
+        report.updated++;
+      } else {
+        report.added++;
+      }
+    }
+
+    for (const setlist of setlists) {
+      if (mode === 'skip' && await this.localService.getSetlist(setlist.id)) continue;
+      await this.localService.putSetlist(setlist);
+      await this.syncEngine.queueChange('setlist', setlist.id, 'put');
+      report.setlists++;
+    }
+
+    return report;
+  }
 
-      return { success, failed };
+  async clearDatabase(): Promise<void> {
+    const songs = await this.localService.getAllSongs();
+    await this.localService.clearDatabase();
+    for (const song of songs) {
+      await this.syncEngine.queueChange('song', song.id, 'put');
+    }
+  }
+
+  async exportDB(): Promise<string> {
+    return this.localService.exportDB();
+  }
+
+  async importDB(json: string): Promise<ImportReport> {
+    const existingIds = new Set((await this.localService.getAllSongs()).map(song => song.id));
+    const report = await this.localService.importDB(json);
+    for (const song of await this.localService.getAllSongs()) {
+      if (!existingIds.has(song.id)) {
+        await this.syncEngine.queueChange('song', song.id, 'put');
+      }
+    }
+    return report;
+  }
+
+  async saveSetlist(setlist: Omit<Setlist, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const id = await this.localService.saveSetlist(setlist);
+    await this.syncEngine.queueChange('setlist', id, 'put');
+    return id;
+  }
+
+  async getAllSetlists(): Promise<Setlist[]> {
+    return this.localService.getAllSetlists();
+  }
+
+  async getSetlist(id: string): Promise<Setlist | null> {
+    return this.localService.getSetlist(id);
+  }
+
+  async updateSetlist(setlist: Setlist): Promise<void> {
+    await this.localService.updateSetlist(setlist);
+    await this.syncEngine.queueChange('setlist', setlist.id, 'put');
+  }
+
+  async deleteSetlist(id: string): Promise<void> {
+    await this.localService.deleteSetlist(id);
+    await this.syncEngine.queueChange('setlist', id, 'delete');
+  }
+
+  // Revision history
+  setRevisionAuthor(author: string): void {
+    this.localService.setRevisionAuthor(author);
+  }
+
+  /**
+   * All saved versions of a song, newest first. Revisions saved on other
+   * devices are fetched first when possible; the local ones are returned
+   * either way.
+   */
+  async getSongRevisions(songId: string): Promise<SongRevision[]> {
+    try {
+      await this.syncEngine.fetchRevisions(songId);
     } catch (error) {
-      console.error('Migration failed:', error);
-      return { success: 0, failed: 0 };
+      console.error('Failed to fetch revisions from the cloud:', error);
     }
+    return this.localService.getSongRevisions(songId);
+  }
+
+  // Sync
+  async sync(): Promise<boolean> {
+    return this.syncEngine.sync();
+  }
+
+  // Pull one song or setlist another device changed, as reported by Realtime
+  async pullRecord(kind: SyncKind, id: string): Promise<boolean> {
+    return this.syncEngine.pullRecord(kind, id);
+  }
+
+  async resolveConflict(conflictId: string, keep: 'local' | 'remote'): Promise<boolean> {
+    return this.syncEngine.resolveConflict(conflictId, keep);
+  }
+
+  async refreshSyncState(): Promise<void> {
+    return this.syncEngine.refreshState();
+  }
+
+  getSyncState(): SyncState {
+    return this.syncEngine.getState();
   }
 
-  // Check if there are local songs that could be migrated
-  async hasLocalData(): Promise<boolean> {
-    const localSongs = await this.localService.getAllSongs();
-    return localSongs.length > 0;
+  subscribeToSync(listener: (state: SyncState) => void): () => void {
+    return this.syncEngine.subscribe(listener);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,576 @@
+// Sync engine that keeps the local IndexedDB store and Appwrite in step.
+// The app always reads and writes locally; every change is queued in the
+// outbox and pushed the next time we are logged in and online.
+import type { Song, Setlist, SongRevision } from '../types/song';
+import type { OutboxEntry, SyncConflict, SyncKind, SyncMeta, SyncRecord, SyncStatus } from './storageInterface';
+import { getAllFromStore, getFromStore, putInStore, deleteFromStore, removeOutboxEntry, readGuestDatabase, clearGuestDatabase } from './localDb';
+import {
+  getAllSongs as getCloudSongs,
+  getSong as getCloudSong,
+  getSetlist as getCloudSetlist,
+  getAllSetlists as getCloudSetlists,
+  upsertSong,
+  upsertSetlist,
+  purgeSong as purgeCloudSong,
+  deleteSetlist as deleteCloudSetlist,
+  saveRevision,
+  getRevisions as getCloudRevisions,
+  deleteRevision as deleteCloudRevision,
+  flagTruncatedSongs,
+  CloudStorageLimitError
+} from './appwriteDb';
+import { logger } from './logger';
+
+const RECORD_STORES = {
+  song: 'songs',
+  setlist: 'setlists'
+} as const;
+
+// Stores of every record kind that has sync metadata
+const SYNCED_STORES = { ...RECORD_STORES, revision: 'revisions' } as const;
+
+export interface SyncState {
+  status: SyncStatus;
+  pendingChanges: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt?: string;
+  error?: string;
+}
+
+type SyncListener = (state: SyncState) => void;
+
+// Outbox, sync metadata and conflicts share one key per record. Revisions
+// only have sync metadata, as they are never edited.
+const getSyncKey = (kind: SyncKind | 'revision', entityId: string) => `${kind}:${entityId}`;
+const REVISION_KEY_PREFIX = getSyncKey('revision', '');
+
+/**
+ * Pick the side of a conflict to keep when resolving by updatedAt. An edit
+ * always wins over a deletion, otherwise the most recent change wins.
+ */
+export function getNewerSide(conflict: SyncConflict): 'local' | 'remote' {
+  if (!conflict.remote) return 'local';
+  if (!conflict.local) return 'remote';
+  return conflict.local.updatedAt >= conflict.remote.updatedAt ? 'local' : 'remote';
+}
+
+export class SyncEngine {
+  private enabled = false;
+  private running: Promise<boolean> | null = null;
+  private pulling: Promise<boolean> | null = null;
+  private rerunRequested = false;
+  private legacySongsChecked = false;
+  private listeners = new Set<SyncListener>();
+  private state: SyncState = { status: 'local', pendingChanges: 0, conflicts: [] };
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): SyncState {
+    return this.state;
+  }
+
+  private setState(update: Partial<SyncState>): void {
+    this.state = { ...this.state, ...update };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  // Sync only runs for logged in users; changes are still queued otherwise
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.refreshState().catch(error => console.error('Failed to read sync state:', error));
+  }
+
+  /**
+   * Wait for a sync or a record pull in progress to finish, e.g. before
+   * switching to another user's local database
+   */
+  async whenIdle(): Promise<void> {
+    await Promise.all([this.running, this.pulling].map(task => task?.catch(() => false)));
+  }
+
+  // Another user's local database is in use, so their songs need checking
+  // for truncation on the next pull
+  resetSession(): void {
+    this.legacySongsChecked = false;
+  }
+
+  /**
+   * Move what was saved while logged out into the local database of the
+   * user logging in, and queue it for upload. Records an account synced are
+   * not moved: they belong to that account, which still has them in the
+   * cloud. Resolves to the number of songs moved.
+   */
+  async adoptGuestRecords(): Promise<number> {
+    const guest = await readGuestDatabase();
+    const syncedKeys = new Set(guest.syncMeta.map(meta => meta.id));
+    const songs = guest.songs.filter(song => !syncedKeys.has(getSyncKey('song', song.id)));
+    const setlists = guest.setlists.filter(setlist => !syncedKeys.has(getSyncKey('setlist', setlist.id)));
+    const songIds = new Set(songs.map(song => song.id));
+
+    for (const song of songs) {
+      await putInStore('songs', song);
+      await this.queueChange('song', song.id, 'put');
+    }
+    for (const setlist of setlists) {
+      await putInStore('setlists', setlist);
+      await this.queueChange('setlist', setlist.id, 'put');
+    }
+    // Revisions without sync metadata are uploaded by the next push
+    for (const revision of guest.revisions) {
+      if (songIds.has(revision.songId) && !syncedKeys.has(getSyncKey('revision', revision.id))) {
+        await putInStore('revisions', revision);
+      }
+    }
+
+    // Only emptied once everything is safely in the user's database
+    await clearGuestDatabase();
+    if (songs.length > 0 || setlists.length > 0) {
+      logger.log(`Moved ${songs.length} songs and ${setlists.length} setlists saved while logged out`);
+    }
+    return songs.length;
+  }
+
+  /**
+   * Remove records an account synced from the local database, with their
+   * sync bookkeeping. Used on the guest database, where versions that shared
+   * one database between accounts left them; they are still in that
+   * account's cloud.
+   */
+  async forgetSyncedRecords(): Promise<void> {
+    const syncMeta = await getAllFromStore<SyncMeta>('syncMeta');
+    for (const meta of syncMeta) {
+      const separator = meta.id.indexOf(':');
+      const kind = meta.id.substring(0, separator) as keyof typeof SYNCED_STORES;
+      const entityId = meta.id.substring(separator + 1);
+      if (SYNCED_STORES[kind]) {
+        await deleteFromStore(SYNCED_STORES[kind], entityId);
+      }
+      await deleteFromStore('outbox', meta.id);
+      await deleteFromStore('conflicts', meta.id);
+      await deleteFromStore('syncMeta', meta.id);
+    }
+    if (syncMeta.length > 0) {
+      logger.warn(`Removed ${syncMeta.length} synced records from the guest database`);
+    }
+  }
+
+  /**
+   * Re-read the outbox and conflicts, and work out the status from the
+   * connection unless one is given
+   */
+  async refreshState(status?: SyncStatus, update: Partial<SyncState> = {}): Promise<void> {
+    const [outbox, conflicts] = await Promise.all([
+      getAllFromStore<OutboxEntry>('outbox'),
+      getAllFromStore<SyncConflict>('conflicts')
+    ]);
+
+    let nextStatus = status || this.state.status;
+    if (!this.enabled) {
+      nextStatus = 'local';
+    } else if (!navigator.onLine) {
+      nextStatus = 'offline';
+    } else if (!status && (nextStatus === 'local' || nextStatus === 'offline')) {
+      nextStatus = 'synced';
+    }
+
+    this.setState({ ...update, status: nextStatus, pendingChanges: outbox.length, conflicts });
+  }
+
+  // Record a local change to push on the next sync
+  async queueChange(kind: SyncKind, entityId: string, op: OutboxEntry['op']): Promise<void> {
+    await putInStore<OutboxEntry>('outbox', {
+      id: getSyncKey(kind, entityId),
+      kind,
+      entityId,
+      op,
+      queuedAt: new Date().toISOString()
+    });
+    await this.refreshState();
+  }
+
+  /**
+   * Pull cloud changes and push queued local ones. Resolves to true when
+   * local records were changed by the pull, so the caller can reload them.
+   * Calls made while a sync is running are folded into another pass.
+   */
+  async sync(): Promise<boolean> {
+    if (!this.enabled) return false;
+
+    if (this.running) {
+      this.rerunRequested = true;
+      return this.running;
+    }
+
+    // Let a single record pull finish first so both don't write it at once
+    const pulling = this.pulling || Promise.resolve(false);
+    this.running = pulling.catch(() => false).then(() => this.runSyncPasses());
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async runSyncPasses(): Promise<boolean> {
+    let recordsChanged = false;
+
+    do {
+      this.rerunRequested = false;
+
+      if (!navigator.onLine) {
+        await this.refreshState('offline');
+        return recordsChanged;
+      }
+
+      this.setState({ status: 'syncing' });
+      try {
+        const pulledChanges = await this.pull();
+        recordsChanged = recordsChanged || pulledChanges;
+        await this.push();
+        await this.refreshState('synced', { lastSyncedAt: new Date().toISOString(), error: undefined });
+      } catch (error) {
+        console.error('Sync failed:', error);
+        await this.refreshState('error', { error: error instanceof Error ? error.message : 'Sync failed' });
+        return recordsChanged;
+      }
+    } while (this.rerunRequested && this.enabled);
+
+    return recordsChanged;
+  }
+
+  private async pull(): Promise<boolean> {
+    // Flag songs an older version trimmed to fit, once per session
+    if (!this.legacySongsChecked) {
+      const flagged = await flagTruncatedSongs();
+      this.legacySongsChecked = true;
+      if (flagged > 0) {
+        logger.warn(`Flagged ${flagged} truncated songs`);
+      }
+    }
+
+    // Trashed songs are synced like any other change
+    const [remoteSongs, remoteSetlists] = await Promise.all([
+      getCloudSongs({ includeTrashed: true }),
+      getCloudSetlists()
+    ]);
+    const songsChanged = await this.reconcile('song', remoteSongs);
+    const setlistsChanged = await this.reconcile('setlist', remoteSetlists);
+    return songsChanged || setlistsChanged;
+  }
+
+  /**
+   * Compare the cloud copy of every record with the local one. Records only
+   * changed in the cloud are copied down, records only changed here are left
+   * for the push, and records changed on both sides become conflicts.
+   */
+  private async reconcile(kind: SyncKind, remoteRecords: SyncRecord[]): Promise<boolean> {
+    const storeName = RECORD_STORES[kind];
+    const [localRecords, outbox, syncMeta] = await Promise.all([
+      getAllFromStore<SyncRecord>(storeName),
+      getAllFromStore<OutboxEntry>('outbox'),
+      getAllFromStore<SyncMeta>('syncMeta')
+    ]);
+
+    const remoteIds = new Set(remoteRecords.map(record => record.id));
+    const localById = new Map(localRecords.map(record => [record.id, record]));
+    const pendingById = new Map(outbox.filter(entry => entry.kind === kind).map(entry => [entry.entityId, entry]));
+    const syncedAt = new Map(syncMeta.map(meta => [meta.id, meta.remoteUpdatedAt]));
+    let recordsChanged = false;
+
+    for (const remote of remoteRecords) {
+      const key = getSyncKey(kind, remote.id);
+      const changed = await this.reconcileRecord(kind, remote, localById.get(remote.id) || null, pendingById.get(remote.id), syncedAt.get(key));
+      recordsChanged = recordsChanged || changed;
+    }
+
+    for (const local of localRecords) {
+      if (remoteIds.has(local.id)) continue;
+      const key = getSyncKey(kind, local.id);
+      const changed = await this.reconcileMissingRecord(kind, local, pendingById.get(local.id), syncedAt.has(key));
+      recordsChanged = recordsChanged || changed;
+    }
+
+    return recordsChanged;
+  }
+
+  // Reconcile one record that exists in the cloud. Resolves to true when the
+  // local copy was replaced by the cloud one.
+  private async reconcileRecord(
+    kind: SyncKind,
+    remote: SyncRecord,
+    local: SyncRecord | null,
+    pending: OutboxEntry | undefined,
+    remoteUpdatedAtWhenSynced: string | undefined
+  ): Promise<boolean> {
+    const key = getSyncKey(kind, remote.id);
+
+    if (!pending) {
+      // Nothing changed here, so the cloud copy is current
+      const changed = !local || local.updatedAt !== remote.updatedAt;
+      if (changed) {
+        await putInStore(RECORD_STORES[kind], remote);
+      }
+      await this.markSynced(key, remote.updatedAt);
+      await deleteFromStore('conflicts', key);
+      return changed;
+    }
+
+    if (pending.op === 'put' && local && local.updatedAt === remote.updatedAt) {
+      // Both sides already agree
+      await removeOutboxEntry(pending);
+      await this.markSynced(key, remote.updatedAt);
+      await deleteFromStore('conflicts', key);
+    } else if (remoteUpdatedAtWhenSynced !== remote.updatedAt) {
+      // Changed in the cloud since the last sync, and changed here too
+      await this.recordConflict(kind, remote.id, pending.op === 'delete' ? null : local, remote);
+    }
+    return false;
+  }
+
+  // Reconcile a local record the cloud doesn't have. Resolves to true when
+  // the local copy was removed.
+  private async reconcileMissingRecord(
+    kind: SyncKind,
+    local: SyncRecord,
+    pending: OutboxEntry | undefined,
+    wasSynced: boolean
+  ): Promise<boolean> {
+    const key = getSyncKey(kind, local.id);
+
+    if (!wasSynced) {
+      // Never synced: created here, or saved before sync existed
+      if (!pending) {
+        await this.queueChange(kind, local.id, 'put');
+      }
+      return false;
+    }
+
+    if (!pending) {
+      // Deleted in the cloud and untouched here
+      await deleteFromStore(RECORD_STORES[kind], local.id);
+      await deleteFromStore('syncMeta', key);
+      return true;
+    }
+
+    // Deleted in the cloud but edited here
+    await this.recordConflict(kind, local.id, local, null);
+    return false;
+  }
+
+  /**
+   * Pull one record reported changed in the cloud, without a full sync.
+   * Follows the same rules as a full pull, so local edits waiting to be
+   * pushed become conflicts rather than being overwritten. Resolves to true
+   * when the local copy changed.
+   */
+  async pullRecord(kind: SyncKind, id: string): Promise<boolean> {
+    if (!this.enabled || !navigator.onLine) return false;
+
+    // A sync in progress picks the change up itself
+    if (this.running) {
+      this.rerunRequested = true;
+      return false;
+    }
+
+    this.pulling = (async () => {
+      const key = getSyncKey(kind, id);
+      const [remote, local, pending, meta] = await Promise.all([
+        kind === 'song' ? getCloudSong(id, { includeTrashed: true }) : getCloudSetlist(id),
+        getFromStore<SyncRecord>(RECORD_STORES[kind], id),
+        getFromStore<OutboxEntry>('outbox', key),
+        getFromStore<SyncMeta>('syncMeta', key)
+      ]);
+
+      let changed = false;
+      if (remote) {
+        changed = await this.reconcileRecord(kind, remote, local || null, pending || undefined, meta?.remoteUpdatedAt);
+      } else if (local) {
+        changed = await this.reconcileMissingRecord(kind, local, pending || undefined, Boolean(meta));
+      }
+      await this.refreshState();
+      return changed;
+    })();
+
+    try {
+      return await this.pulling;
+    } finally {
+      this.pulling = null;
+    }
+  }
+
+  private async push(): Promise<void> {
+    const [outbox, conflicts] = await Promise.all([
+      getAllFromStore<OutboxEntry>('outbox'),
+      getAllFromStore<SyncConflict>('conflicts')
+    ]);
+    const conflictIds = new Set(conflicts.map(conflict => conflict.id));
+    const rejected: string[] = [];
+
+    for (const entry of outbox) {
+      // Conflicting changes wait for the user to pick a side
+      if (conflictIds.has(entry.id)) continue;
+
+      if (entry.op === 'put') {
+        const record = await getFromStore<SyncRecord>(RECORD_STORES[entry.kind], entry.entityId);
+        if (record) {
+          try {
+            if (entry.kind === 'song') {
+              await upsertSong(record as Song);
+            } else {
+              await upsertSetlist(record as Setlist);
+            }
+          } catch (error) {
+            // Too big for the cloud: keep it queued and carry on with the rest
+            if (!(error instanceof CloudStorageLimitError)) throw error;
+            rejected.push(`${(record as Song).title || (record as Setlist).name}: ${error.message}`);
+            continue;
+          }
+          await this.markSynced(entry.id, record.updatedAt);
+        }
+      } else {
+        try {
+          if (entry.kind === 'song') {
+            await purgeCloudSong(entry.entityId);
+          } else {
+            await deleteCloudSetlist(entry.entityId);
+          }
+        } catch (error) {
+          // Never reached the cloud, or already deleted from another device
+          if ((error as { code?: number }).code !== 404) throw error;
+        }
+        await deleteFromStore('syncMeta', entry.id);
+      }
+
+      await removeOutboxEntry(entry);
+      logger.log('Pushed change:', entry.id, entry.op);
+    }
+
+    await this.pushRevisions();
+
+    if (rejected.length > 0) {
+      throw new Error(`Could not upload ${rejected.join('; ')}`);
+    }
+  }
+
+  /**
+   * Upload revisions saved here since the last sync, and delete the cloud
+   * copies of revisions pruned or deleted here. Revisions of songs deleted
+   * by another device are dropped rather than uploaded.
+   */
+  private async pushRevisions(): Promise<void> {
+    const [revisions, songs, syncMeta] = await Promise.all([
+      getAllFromStore<SongRevision>('revisions'),
+      getAllFromStore<Song>('songs'),
+      getAllFromStore<SyncMeta>('syncMeta')
+    ]);
+    const songIds = new Set(songs.map(song => song.id));
+    const syncedKeys = new Set(syncMeta.map(meta => meta.id).filter(id => id.startsWith(REVISION_KEY_PREFIX)));
+    const localKeys = new Set<string>();
+
+    for (const revision of revisions) {
+      const key = getSyncKey('revision', revision.id);
+      if (!songIds.has(revision.songId)) {
+        await deleteFromStore('revisions', revision.id);
+        continue;
+      }
+      localKeys.add(key);
+      if (!syncedKeys.has(key)) {
+        await saveRevision(revision);
+        await this.markSynced(key, revision.updatedAt);
+      }
+    }
+
+    for (const key of syncedKeys) {
+      if (localKeys.has(key)) continue;
+      try {
+        await deleteCloudRevision(key.substring(REVISION_KEY_PREFIX.length));
+      } catch (error) {
+        // Already gone along with its song
+        if ((error as { code?: number }).code !== 404) throw error;
+      }
+      await deleteFromStore('syncMeta', key);
+    }
+  }
+
+  /**
+   * Copy down revisions of a song saved on other devices. Revisions deleted
+   * here since they last synced are not brought back. Does nothing when
+   * offline or not logged in.
+   */
+  async fetchRevisions(songId: string): Promise<void> {
+    if (!this.enabled || !navigator.onLine) return;
+
+    const [remoteRevisions, syncMeta] = await Promise.all([
+      getCloudRevisions(songId),
+      getAllFromStore<SyncMeta>('syncMeta')
+    ]);
+    const syncedKeys = new Set(syncMeta.map(meta => meta.id));
+
+    for (const revision of remoteRevisions) {
+      const key = getSyncKey('revision', revision.id);
+      if (syncedKeys.has(key)) continue;
+      await putInStore('revisions', revision);
+      await this.markSynced(key, revision.updatedAt);
+    }
+  }
+
+  private async markSynced(key: string, remoteUpdatedAt: string): Promise<void> {
+    await putInStore<SyncMeta>('syncMeta', { id: key, remoteUpdatedAt });
+  }
+
+  private async recordConflict(kind: SyncKind, entityId: string, local: SyncRecord | null, remote: SyncRecord | null): Promise<void> {
+    await putInStore<SyncConflict>('conflicts', {
+      id: getSyncKey(kind, entityId),
+      kind,
+      entityId,
+      local,
+      remote,
+      detectedAt: new Date().toISOString()
+    });
+    logger.warn('Sync conflict:', kind, entityId);
+  }
+
+  /**
+   * Settle a conflict by keeping this device's version or the cloud's.
+   * Returns true when local records changed.
+   */
+  async resolveConflict(conflictId: string, keep: 'local' | 'remote'): Promise<boolean> {
+    const conflict = await getFromStore<SyncConflict>('conflicts', conflictId);
+    if (!conflict) return false;
+
+    const storeName = RECORD_STORES[conflict.kind];
+    let recordsChanged = false;
+
+    if (keep === 'local') {
+      // Treat the cloud version as seen, so the next push overwrites it
+      if (conflict.remote) {
+        await this.markSynced(conflictId, conflict.remote.updatedAt);
+      } else {
+        await deleteFromStore('syncMeta', conflictId);
+      }
+      await this.queueChange(conflict.kind, conflict.entityId, conflict.local ? 'put' : 'delete');
+    } else {
+      if (conflict.remote) {
+        await putInStore(storeName, conflict.remote);
+        await this.markSynced(conflictId, conflict.remote.updatedAt);
+      } else {
+        await deleteFromStore(storeName, conflict.entityId);
+        await deleteFromStore('syncMeta', conflictId);
+      }
+      const pending = await getFromStore<OutboxEntry>('outbox', conflictId);
+      if (pending) {
+        await removeOutboxEntry(pending);
+      }
+      recordsChanged = true;
+    }
+
+    await deleteFromStore('conflicts', conflictId);
+    await this.refreshState();
+    return recordsChanged;
+  }
+}
@@ -0,0 +1,38 @@
+import type { Song } from '../types/song';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Days a song stays in the trash before it is deleted for good, unless
+// changed in settings. 0 keeps trashed songs until they are purged by hand.
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_RETENTION_OPTIONS = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: '0', label: 'Never' }
+];
+
+export function isTrashed(song: Song): boolean {
+  return Boolean(song.deletedAt);
+}
+
+/**
+ * When a trashed song will be purged, or null if it is kept until purged by
+ * hand
+ */
+export function getPurgeDate(song: Song, retentionDays: number): Date | null {
+  if (!song.deletedAt || retentionDays <= 0) return null;
+  return new Date(new Date(song.deletedAt).getTime() + retentionDays * DAY);
+}
+
+/**
+ * Trashed songs that have been in the trash longer than the retention period
+ */
+export function getExpiredTrash(songs: Song[], retentionDays: number, now: number = Date.now()): Song[] {
+  return songs.filter(song => {
+    const purgeDate = getPurgeDate(song, retentionDays);
+    return purgeDate !== null && purgeDate.getTime() <= now;
+  });
+}
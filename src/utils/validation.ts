@@ -21,6 +21,7 @@ export const ChordSchema = z.object({
 
 // Section validation schema
 export const SectionSchema = z.object({
+  id: z.string().optional(),
   type: z.enum(['verse', 'chorus', 'bridge', 'tag', 'break', 'intro', 'outro', 'pre-chorus']),
   content: z.string()
     .max(5000, 'Section content too long')
@@ -36,6 +37,22 @@ export const SectionSchema = z.object({
     .max(100, 'Too many chords in section')
 });
 
+// Arrangement validation schema
+export const ArrangementSchema = z.object({
+  id: z.string().min(1, 'Arrangement ID is required'),
+  name: z.string()
+    .max(100, 'Arrangement name too long')
+    .trim(),
+  items: z.array(z.object({
+    sectionId: z.string().min(1, 'Section ID is required'),
+    repeat: z.number()
+      .int('Repeat count must be an integer')
+      .positive('Repeat count must be positive')
+      .optional()
+  }))
+    .max(200, 'Too many arrangement items')
+});
+
 // Song validation schema
 export const SongSchema = z.object({
   id: z.string().min(1, 'Song ID is required'),
@@ -44,8 +61,9 @@ export const SongSchema = z.object({
     .max(200, 'Title too long')
     .trim()
     .refine(val => !/<script/i.test(val), 'Invalid characters in title'),
+  // Songs may be saved without an artist, e.g. when imported from a format
+  // that doesn't have one; the metadata form still asks for it
   artist: z.string()
-    .min(1, 'Artist is required')
     .max(100, 'Artist name too long')
     .trim()
     .refine(val => !/<script/i.test(val), 'Invalid characters in artist name'),
@@ -79,18 +97,106 @@ export const SongSchema = z.object({
       ALLOWED_TAGS: ['b', 'i', 'u', 'br', 'p', 'strong', 'em'],
       ALLOWED_ATTR: []
     }) : val),
+  tempo: z.string()
+    .max(10, 'Tempo too long')
+    .optional(),
+  capo: z.number()
+    .int('Capo must be an integer')
+    .min(0, 'Capo cannot be negative')
+    .max(11, 'Capo too high')
+    .optional(),
+  arrangements: z.array(ArrangementSchema)
+    .max(20, 'Too many arrangements')
+    .optional(),
+  activeArrangementId: z.string()
+    .optional(),
+  truncated: z.boolean()
+    .optional(),
+  deletedAt: z.string()
+    .datetime('Invalid deletion date format')
+    .optional(),
   currentTranspose: z.string()
     .max(10, 'Current transpose too long')
     .optional()
 });
 
+// The longest title, artist, tag and key the store accepts. In the cloud
+// these have attributes of their own; everything else goes in the song body,
+// which is split into chunks rather than limited.
+export const SONG_FIELD_LIMITS = {
+  title: 500,
+  artist: 255,
+  tag: 1000,
+  key: 10
+};
+
+const StoredChordSchema = ChordSchema.extend({
+  text: z.string()
+});
+
+// Lyrics are always shown as text, never as markup, so they are kept
+// exactly as written, "<" and all
+export const StoredSectionSchema = SectionSchema.extend({
+  content: z.string(),
+  chords: z.array(StoredChordSchema)
+});
+
+/**
+ * A song as the store accepts it, for checking songs that are saved,
+ * imported or restored. Unlike SongSchema, which holds what the song form
+ * asks for, it only refuses what can't be stored: there is no cap on
+ * sections, chords, lyrics or notes. Notes are shown as rich text, so
+ * anything in them that could run script is removed.
+ */
+export const StoredSongSchema = SongSchema.extend({
+  title: z.string()
+    .max(SONG_FIELD_LIMITS.title, 'Title too long')
+    .trim()
+    .refine(val => !/<script/i.test(val), 'Invalid characters in title'),
+  artist: z.string()
+    .max(SONG_FIELD_LIMITS.artist, 'Artist name too long')
+    .trim()
+    .refine(val => !/<script/i.test(val), 'Invalid characters in artist name'),
+  sections: z.array(StoredSectionSchema),
+  originalKey: z.string()
+    .max(SONG_FIELD_LIMITS.key, 'Original key too long')
+    .optional(),
+  transposedKey: z.string()
+    .max(SONG_FIELD_LIMITS.key, 'Transposed key too long')
+    .optional(),
+  originalSections: z.array(StoredSectionSchema)
+    .optional(),
+  tags: z.array(
+    z.string()
+      .max(SONG_FIELD_LIMITS.tag, 'Tag too long')
+      .trim()
+  )
+    .optional(),
+  notes: z.string()
+    .optional()
+    .transform(val => val ? DOMPurify.sanitize(val) : val),
+  tempo: z.string()
+    .optional(),
+  arrangements: z.array(ArrangementSchema.extend({
+    name: z.string().trim(),
+    items: z.array(ArrangementSchema.shape.items.element)
+  }))
+    .optional(),
+  currentTranspose: z.string()
+    .optional()
+});
+
 // Partial schemas for updates
 export const SongUpdateSchema = SongSchema.partial().omit({ id: true });
 
 // Form-specific schemas
 export const SongMetadataSchema = z.object({
   title: SongSchema.shape.title,
-  artist: SongSchema.shape.artist,
+  artist: z.string()
+    .min(1, 'Artist is required')
+    .max(100, 'Artist name too long')
+    .trim()
+    .refine(val => !/<script/i.test(val), 'Invalid characters in artist name'),
   tags: SongSchema.shape.tags
 });
 
@@ -126,6 +232,21 @@ export class ValidationError extends Error {
   }
 }
 
+/**
+ * Check a song before it is stored. Throws a ValidationError listing what
+ * the store can't accept.
+ */
+export function checkStoredSong(song: Omit<Song, 'id' | 'createdAt' | 'updatedAt'>): void {
+  const parsed = StoredSongSchema.partial({ id: true, createdAt: true, updatedAt: true }).safeParse(song);
+  if (!parsed.success) {
+    throw new ValidationError(
+      ValidationErrorType.VALIDATION,
+      'Song validation failed',
+      parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+    );
+  }
+}
+
 // Validation hook
 export const useValidation = () => {
   const validateSong = (song: unknown): Song | null => {